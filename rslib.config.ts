@@ -12,7 +12,7 @@ export default defineConfig({
           root: './dist',
         },
         filename: {
-          js: 'index.mjs',
+          js: '[name].mjs',
         },
       },
     },
@@ -24,7 +24,7 @@ export default defineConfig({
           root: './dist',
         },
         filename: {
-          js: 'index.js',
+          js: '[name].js',
         },
       },
     },
@@ -32,6 +32,11 @@ export default defineConfig({
   source: {
     entry: {
       index: './src/index.ts',
+      express: './src/adapters/express.ts',
+      fastify: './src/adapters/fastify.ts',
+      next: './src/adapters/next.ts',
+      web: './src/adapters/web.ts',
+      testing: './src/testing/index.ts',
     },
   },
   output: {
@@ -56,6 +61,7 @@ export default defineConfig({
       },
       externals: {
         swr: 'swr',
+        'node:http': 'node:http',
       },
     },
   },
@@ -1,9 +1,52 @@
-import { PayStationConfig, InitiatePaymentParams, InitiatePaymentResponse, TransactionStatusResponse } from './types/index';
+import {
+  PayStationConfig,
+  InitiatePaymentParams,
+  InitiatePaymentResponse,
+  RequestOptions,
+  TransactionStatusResponse,
+  CallbackInput,
+  CallbackPayload,
+  CallbackVerificationOptions,
+  VerifiedCallback,
+  TransactionData,
+  TransactionReference,
+  WaitForTransactionOptions,
+  Middleware,
+  HttpRequest,
+  Transaction,
+  TransactionSource,
+  ValidationIssue,
+  PaymentMetadata,
+  RefundParams,
+  RefundResponse,
+  TransactionStatusBatchOptions,
+  TransactionStatusResult,
+  HealthReport
+} from './types/index';
 import { ConfigManager } from './config/ConfigManager';
 import { HttpClient } from './http/HttpClient';
+import { RetryPolicy } from './http/RetryPolicy';
+import { RateLimiter } from './ratelimit/RateLimiter';
+import { CircuitBreaker } from './circuit/CircuitBreaker';
 import { RequestBuilder } from './request/RequestBuilder';
+import { validatePaymentParams } from './request/validatePaymentParams';
 import { ResponseParser } from './response/ResponseParser';
-import { PayStationError, ValidationError, AuthenticationError, NetworkError } from './errors/index';
+import { CallbackHandler } from './callback/CallbackHandler';
+import { TransactionPoller } from './polling/TransactionPoller';
+import { TransactionStatusBatch } from './batch/TransactionStatusBatch';
+import { TransactionNormalizer } from './transaction/TransactionNormalizer';
+import { RequestLogger } from './logging/RequestLogger';
+import { IdempotencyGuard } from './idempotency/IdempotencyGuard';
+import { MemoryIdempotencyStore } from './idempotency/MemoryIdempotencyStore';
+import { MetadataCodec } from './metadata/MetadataCodec';
+import {
+  PayStationError,
+  ValidationError,
+  AuthenticationError,
+  NetworkError,
+  CallbackVerificationError,
+  TransactionNotFoundError
+} from './errors/index';
 
 /**
  * PayStation TypeScript SDK
@@ -48,7 +91,7 @@ import { PayStationError, ValidationError, AuthenticationError, NetworkError } f
  *   invoiceNumber: 'INV-001',
  *   paymentAmount: 100.50,
  *   customerName: 'John Doe',
- *   customerPhone: '+8801234567890',
+ *   customerPhone: '+8801712345678',
  *   customerEmail: 'john@example.com',
  *   callbackUrl: 'https://yoursite.com/callback'
  * });
@@ -57,11 +100,19 @@ import { PayStationError, ValidationError, AuthenticationError, NetworkError } f
  * const status = await paystation.getTransactionStatus('INV-001');
  * ```
  */
-export class PayStationSDK {
+export class PayStationSDK<TMetadata extends PaymentMetadata = PaymentMetadata> {
   private readonly configManager: ConfigManager;
   private readonly httpClient: HttpClient;
+  private readonly circuitBreaker?: CircuitBreaker;
   private readonly requestBuilder: RequestBuilder;
   private readonly responseParser: ResponseParser;
+  private readonly callbackHandler: CallbackHandler;
+  private readonly transactionPoller: TransactionPoller;
+  private readonly transactionStatusBatch: TransactionStatusBatch;
+  private readonly transactionNormalizer: TransactionNormalizer;
+  private readonly idempotencyGuard?: IdempotencyGuard;
+
+  private static readonly DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
 
   /**
    * Creates a new PayStation SDK instance
@@ -70,6 +121,20 @@ export class PayStationSDK {
    * @param config.merchantId - Merchant ID provided by PayStation
    * @param config.password - Password provided by PayStation
    * @param config.environment - Environment to use ('sandbox' or 'live')
+   * @param config.timeoutMs - Default timeout for each request attempt in milliseconds (optional)
+   * @param config.retry - Retry policy for transient failures (optional)
+   * @param config.fetch - Fetch implementation used for requests (optional)
+   * @param config.transport - Transport that sends requests instead of fetch (optional)
+   * @param config.logger - Logger for request/response events (optional)
+   * @param config.logLevel - Minimum level passed to the logger (optional)
+   * @param config.responseValidation - How strictly PayStation responses are validated (optional)
+   * @param config.amountRounding - Rounding for number amounts beyond the currency's precision (optional)
+   * @param config.allowInternationalPhone - Accept customer phone numbers outside Bangladesh (optional)
+   * @param config.strictInvoiceNumbers - Check invoice numbers against the InvoiceNumber rules before initiation (optional)
+   * @param config.metadata - Encoding and signing of payment metadata (optional)
+   * @param config.idempotency - Reuse initiation results for identical retries (optional)
+   * @param config.rateLimit - Client-side rate limits per endpoint (optional)
+   * @param config.circuitBreaker - Fail fast while an endpoint keeps failing (optional)
    * 
    * @throws {ValidationError} When configuration is invalid or missing required fields
    * 
@@ -86,14 +151,116 @@ export class PayStationSDK {
     // Initialize configuration manager (validates config)
     this.configManager = new ConfigManager(config);
     
-    // Initialize HTTP client
-    this.httpClient = new HttpClient();
+    // Initialize circuit breaker when enabled
+    const circuitBreakerConfig = this.configManager.getCircuitBreakerConfig();
+    if (circuitBreakerConfig) {
+      this.circuitBreaker = new CircuitBreaker(circuitBreakerConfig);
+    }
+    
+    // Initialize HTTP client with the configured transport, retry policy, rate limiter and circuit breaker
+    const retryConfig = this.configManager.getRetryConfig();
+    const rateLimitConfig = this.configManager.getRateLimitConfig();
+    this.httpClient = new HttpClient(this.configManager.getFetch(), {
+      transport: this.configManager.getTransport(),
+      retryPolicy: retryConfig ? new RetryPolicy(retryConfig) : undefined,
+      timeoutMs: this.configManager.getTimeoutMs(),
+      // Key the limits by merchant so instances sharing a store share their budget
+      rateLimiter: rateLimitConfig
+        ? new RateLimiter(rateLimitConfig, `paystation:${this.configManager.getMerchantId()}`)
+        : undefined,
+      circuitBreaker: this.circuitBreaker
+    });
+    
+    // Register request logging first so it wraps user middleware and retries
+    const logger = this.configManager.getLogger();
+    if (logger) {
+      this.httpClient.use(new RequestLogger(logger, this.configManager.getLogLevel()).middleware());
+    }
+    
+    // Share one metadata codec so packing and decoding use the same encoding and secret
+    const metadataCodec = new MetadataCodec(this.configManager.getMetadataConfig());
     
     // Initialize request builder
-    this.requestBuilder = new RequestBuilder(this.configManager);
+    this.requestBuilder = new RequestBuilder(this.configManager, metadataCodec);
     
     // Initialize response parser
-    this.responseParser = new ResponseParser();
+    this.responseParser = new ResponseParser(this.configManager.getResponseValidation(), metadataCodec);
+    
+    // Initialize callback handler
+    this.callbackHandler = new CallbackHandler(metadataCodec);
+    
+    // Initialize transaction poller
+    this.transactionPoller = new TransactionPoller();
+    
+    // Initialize batch status lookups
+    this.transactionStatusBatch = new TransactionStatusBatch();
+    
+    // Initialize transaction normalizer
+    this.transactionNormalizer = new TransactionNormalizer();
+    
+    // Initialize idempotency guard when enabled
+    const idempotency = this.configManager.getIdempotencyConfig();
+    if (idempotency) {
+      this.idempotencyGuard = new IdempotencyGuard(
+        idempotency.store || new MemoryIdempotencyStore(),
+        idempotency.ttlMs ?? PayStationSDK.DEFAULT_IDEMPOTENCY_TTL_MS
+      );
+    }
+  }
+
+  /**
+   * Registers a middleware that runs around every request the SDK makes
+   * 
+   * Middleware receives the `HttpRequest` built for the endpoint and a `next` function
+   * that sends it on. It can modify the request, inspect or replace the `HttpResponse`
+   * before it is parsed, or short-circuit by returning a response without calling `next`.
+   * Middleware runs in registration order: the first one registered sees the request
+   * first and the response last. Errors thrown by `next` propagate back up the chain.
+   * Retries happen inside `next`, so each middleware sees one call per SDK method call.
+   * 
+   * @param middleware - Middleware to add to the end of the chain
+   * 
+   * @returns The SDK instance, for chaining
+   * 
+   * @throws {ValidationError} When middleware is not a function
+   * 
+   * @example
+   * ```typescript
+   * paystation.use(async (request, next) => {
+   *   const started = Date.now();
+   *   const response = await next({
+   *     ...request,
+   *     headers: { ...request.headers, 'X-Correlation-Id': correlationId() }
+   *   });
+   *   metrics.timing('paystation.latency', Date.now() - started);
+   *   return response;
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.httpClient.use(middleware);
+    return this;
+  }
+
+  /**
+   * Reports the circuit state of every PayStation endpoint
+   * 
+   * Reads the SDK's own state and sends no request, so it is cheap enough for a
+   * readiness probe. Without `circuitBreaker` configured every circuit is reported closed.
+   * 
+   * @returns `healthy` (every circuit closed) and the state, consecutive failures and
+   * reopening time of each endpoint
+   * 
+   * @example
+   * ```typescript
+   * app.get('/health', (req, res) => {
+   *   const health = paystation.health();
+   *   res.status(health.healthy ? 200 : 503).json(health);
+   * });
+   * ```
+   */
+  health(): HealthReport {
+    return this.circuitBreaker ? this.circuitBreaker.health() : CircuitBreaker.disabledHealth();
   }
 
   /**
@@ -103,28 +270,39 @@ export class PayStationSDK {
    * can be redirected to for completing their payment through PayStation's secure
    * hosted checkout page.
    * 
+   * When `idempotency` is configured, retrying with the same invoice number and
+   * parameters returns the stored response instead of calling PayStation again, and
+   * reusing the invoice number with different parameters throws an `IdempotencyConflictError`.
+   * 
    * @param params - Payment initiation parameters
    * @param params.invoiceNumber - Unique invoice number for the transaction
-   * @param params.paymentAmount - Payment amount (must be greater than 0)
+   * @param params.paymentAmount - Payment amount as a number or Money (must be greater than 0)
    * @param params.customerName - Customer's full name
-   * @param params.customerPhone - Customer's phone number
+   * @param params.customerPhone - Customer's Bangladeshi mobile number, sent in E.164 format
    * @param params.customerEmail - Customer's email address (must be valid email format)
    * @param params.callbackUrl - URL to redirect after payment completion (must be valid HTTP/HTTPS URL)
-   * @param params.currency - Currency code (optional)
-   * @param params.payWithCharge - Payment amount including charges (optional)
+   * @param params.currency - Currency code, 'BDT' or 'USD' (optional)
+   * @param params.payWithCharge - Payment amount including charges as a number or Money (optional)
    * @param params.reference - Reference information (optional)
    * @param params.customerAddress - Customer's address (optional)
-   * @param params.checkoutItems - Checkout items description (optional)
+   * @param params.checkoutItems - Checkout lines adding up to paymentAmount, or a free-text description (optional)
+   * @param params.metadata - Custom data packed into optA/optB/optC and decoded from status lookups and callbacks (optional)
    * @param params.optA - Optional parameter A (optional)
    * @param params.optB - Optional parameter B (optional)
    * @param params.optC - Optional parameter C (optional)
    * @param params.emi - EMI option (optional)
+   * @param options - Per-call options (optional)
+   * @param options.signal - AbortSignal that cancels the request (optional)
+   * @param options.timeoutMs - Timeout for each attempt in milliseconds (optional)
    * 
    * @returns Promise resolving to payment initiation response containing payment URL
    * 
    * @throws {ValidationError} When required parameters are missing or invalid
    * @throws {AuthenticationError} When merchant credentials are invalid
    * @throws {NetworkError} When network request fails
+   * @throws {TimeoutError} When the request exceeds its timeout
+   * @throws {CancelledError} When the request is cancelled through `options.signal`
+   * @throws {IdempotencyConflictError} When the invoice number was already used with different parameters
    * @throws {PayStationError} When PayStation API returns an error
    * 
    * @example
@@ -134,7 +312,7 @@ export class PayStationSDK {
    *     invoiceNumber: 'INV-001',
    *     paymentAmount: 100.50,
    *     customerName: 'John Doe',
-   *     customerPhone: '+8801234567890',
+   *     customerPhone: '+8801712345678',
    *     customerEmail: 'john@example.com',
    *     callbackUrl: 'https://yoursite.com/callback',
    *     reference: 'Order #12345',
@@ -154,21 +332,33 @@ export class PayStationSDK {
    * }
    * ```
    */
-  async initiatePayment(params: InitiatePaymentParams): Promise<InitiatePaymentResponse> {
+  async initiatePayment(
+    params: InitiatePaymentParams<TMetadata>,
+    options: RequestOptions = {}
+  ): Promise<InitiatePaymentResponse> {
     try {
       // Build the request
-      const request = this.requestBuilder.buildInitiatePaymentRequest(params);
+      const request = await this.requestBuilder.buildInitiatePaymentRequest(params, options);
       
-      // Make the HTTP request
-      const response = await this.httpClient.request(request);
+      const initiate = async () => {
+        // Make the HTTP request
+        const response = await this.httpClient.request(request);
+        
+        // Handle HTTP errors
+        if (response.status >= 400) {
+          this.responseParser.parseErrorResponse(response);
+        }
+        
+        // Parse and return the response
+        return this.responseParser.parseInitiatePaymentResponse(response);
+      };
       
-      // Handle HTTP errors
-      if (response.status >= 400) {
-        this.responseParser.parseErrorResponse(response);
-      }
+      // Reuse the stored result for identical retries when idempotency is enabled
+      const result = this.idempotencyGuard
+        ? await this.idempotencyGuard.run(params, initiate)
+        : await initiate();
       
-      // Parse and return the response
-      return this.responseParser.parseInitiatePaymentResponse(response);
+      return this.responseParser.withAmounts(result, this.requestBuilder.resolveCurrency(params));
     } catch (error) {
       // Re-throw known error types
       if (error instanceof ValidationError || 
@@ -187,6 +377,32 @@ export class PayStationSDK {
     }
   }
 
+  /**
+   * Checks payment initiation parameters without making a request
+   * 
+   * Runs the same checks as {@link initiatePayment} and returns every problem at once
+   * instead of throwing on the first, so a checkout form can show all errors together.
+   * Each issue has the `field` it concerns, a stable `code` suitable as a translation key
+   * and an English `message`. In the browser, where no SDK instance with credentials should
+   * exist, use the standalone `validatePaymentParams()` export instead.
+   * The configured `amountRounding`, `allowInternationalPhone` and `strictInvoiceNumbers` apply.
+   * 
+   * @param params - Payment initiation parameters to check
+   * 
+   * @returns Every problem found; empty when the parameters are valid
+   * 
+   * @example
+   * ```typescript
+   * const issues = paystation.validatePaymentParams(params);
+   * for (const issue of issues) {
+   *   form.setError(issue.field, t(`payment.${issue.code}`));
+   * }
+   * ```
+   */
+  validatePaymentParams(params: InitiatePaymentParams<TMetadata>): ValidationIssue[] {
+    return validatePaymentParams(params, this.requestBuilder.getValidationOptions());
+  }
+
   /**
    * Retrieves transaction status by invoice number
    * 
@@ -195,12 +411,17 @@ export class PayStationSDK {
    * about the transaction including payment status, amount, and payment method used.
    * 
    * @param invoiceNumber - Invoice number to check status for
+   * @param options - Per-call options (optional)
+   * @param options.signal - AbortSignal that cancels the request (optional)
+   * @param options.timeoutMs - Timeout for each attempt in milliseconds (optional)
    * 
    * @returns Promise resolving to transaction status response with transaction details
    * 
    * @throws {ValidationError} When invoice number is invalid or empty
    * @throws {AuthenticationError} When merchant credentials are invalid
    * @throws {NetworkError} When network request fails
+   * @throws {TimeoutError} When the request exceeds its timeout
+   * @throws {CancelledError} When the request is cancelled through `options.signal`
    * @throws {PayStationError} When PayStation API returns an error or transaction not found
    * 
    * @example
@@ -230,10 +451,13 @@ export class PayStationSDK {
    * }
    * ```
    */
-  async getTransactionStatus(invoiceNumber: string): Promise<TransactionStatusResponse> {
+  async getTransactionStatus(
+    invoiceNumber: string,
+    options: RequestOptions = {}
+  ): Promise<TransactionStatusResponse<TMetadata>> {
     try {
       // Build the request
-      const request = this.requestBuilder.buildTransactionStatusRequest(invoiceNumber);
+      const request = this.requestBuilder.buildTransactionStatusRequest(invoiceNumber, options);
       
       // Make the HTTP request
       const response = await this.httpClient.request(request);
@@ -244,7 +468,7 @@ export class PayStationSDK {
       }
       
       // Parse and return the response
-      return this.responseParser.parseTransactionStatusResponse(response);
+      return await this.responseParser.parseTransactionStatusResponse(response) as TransactionStatusResponse<TMetadata>;
     } catch (error) {
       // Re-throw known error types
       if (error instanceof ValidationError || 
@@ -271,12 +495,17 @@ export class PayStationSDK {
    * v2 transaction status endpoint and provides detailed transaction information.
    * 
    * @param transactionId - PayStation transaction ID to check status for
+   * @param options - Per-call options (optional)
+   * @param options.signal - AbortSignal that cancels the request (optional)
+   * @param options.timeoutMs - Timeout for each attempt in milliseconds (optional)
    * 
    * @returns Promise resolving to transaction status response with detailed transaction information
    * 
    * @throws {ValidationError} When transaction ID is invalid or empty
    * @throws {AuthenticationError} When merchant credentials are invalid
    * @throws {NetworkError} When network request fails
+   * @throws {TimeoutError} When the request exceeds its timeout
+   * @throws {CancelledError} When the request is cancelled through `options.signal`
    * @throws {PayStationError} When PayStation API returns an error or transaction not found
    * 
    * @example
@@ -304,10 +533,13 @@ export class PayStationSDK {
    * }
    * ```
    */
-  async getTransactionStatusById(transactionId: string): Promise<TransactionStatusResponse> {
+  async getTransactionStatusById(
+    transactionId: string,
+    options: RequestOptions = {}
+  ): Promise<TransactionStatusResponse<TMetadata>> {
     try {
       // Build the request
-      const request = this.requestBuilder.buildTransactionStatusByIdRequest(transactionId);
+      const request = this.requestBuilder.buildTransactionStatusByIdRequest(transactionId, options);
       
       // Make the HTTP request
       const response = await this.httpClient.request(request);
@@ -318,7 +550,7 @@ export class PayStationSDK {
       }
       
       // Parse and return the response
-      return this.responseParser.parseTransactionStatusResponse(response);
+      return await this.responseParser.parseTransactionStatusResponse(response) as TransactionStatusResponse<TMetadata>;
     } catch (error) {
       // Re-throw known error types
       if (error instanceof ValidationError || 
@@ -336,4 +568,482 @@ export class PayStationSDK {
       );
     }
   }
+
+  /**
+   * Retrieves the status of many transactions by invoice number, e.g. for end-of-day reconciliation
+   * 
+   * Lookups run in parallel, at most `concurrency` at a time and optionally no faster
+   * than `rateLimit`. A failed lookup is reported in its result instead of aborting the
+   * batch; each lookup is still retried according to the configured retry policy.
+   * 
+   * @param invoiceNumbers - Invoice numbers to look up; duplicates are looked up once
+   * @param options - Batch options (optional)
+   * @param options.concurrency - Maximum number of lookups in flight at once (default: 5)
+   * @param options.rateLimit - Maximum lookup rate, e.g. `{ limit: 10, intervalMs: 1000 }` (optional)
+   * @param options.signal - AbortSignal that cancels the batch (optional)
+   * @param options.timeoutMs - Timeout for each attempt in milliseconds (optional)
+   * 
+   * @returns Promise resolving to a result per invoice number, in input order
+   * 
+   * @throws {ValidationError} When the options are invalid
+   * @throws {CancelledError} When the batch is cancelled through `options.signal`
+   * 
+   * @example
+   * ```typescript
+   * const results = await paystation.getTransactionStatuses(invoiceNumbers, {
+   *   concurrency: 10,
+   *   rateLimit: { limit: 20, intervalMs: 1000 }
+   * });
+   * 
+   * for (const [invoiceNumber, result] of results) {
+   *   if (result.ok) {
+   *     console.log(invoiceNumber, result.response.data?.transactionStatus);
+   *   } else {
+   *     console.error(invoiceNumber, result.error.code);
+   *   }
+   * }
+   * ```
+   */
+  async getTransactionStatuses(
+    invoiceNumbers: readonly string[],
+    options: TransactionStatusBatchOptions = {}
+  ): Promise<Map<string, TransactionStatusResult<TMetadata>>> {
+    const results = await this.transactionStatusBatch.collect(
+      invoiceNumbers,
+      (invoiceNumber, requestOptions) => this.getTransactionStatus(invoiceNumber, requestOptions),
+      options
+    );
+    return results as Map<string, TransactionStatusResult<TMetadata>>;
+  }
+
+  /**
+   * Streams the status of many transactions by invoice number as each lookup completes
+   * 
+   * Works like {@link getTransactionStatuses} but yields results in completion order
+   * and reads invoice numbers only as fast as lookups finish, so very large sets,
+   * e.g. read from a database cursor, never have to be held in memory. Stopping the
+   * iteration early stops starting new lookups.
+   * 
+   * @param invoiceNumbers - Array, iterable or async iterable of invoice numbers; duplicates are looked up once
+   * @param options - Batch options (optional)
+   * @param options.concurrency - Maximum number of lookups in flight at once (default: 5)
+   * @param options.rateLimit - Maximum lookup rate, e.g. `{ limit: 10, intervalMs: 1000 }` (optional)
+   * @param options.signal - AbortSignal that cancels the batch (optional)
+   * @param options.timeoutMs - Timeout for each attempt in milliseconds (optional)
+   * 
+   * @returns Async iterator of results, one per distinct invoice number
+   * 
+   * @throws {ValidationError} When the options are invalid, on the first iteration
+   * @throws {CancelledError} When the batch is cancelled through `options.signal`
+   * 
+   * @example
+   * ```typescript
+   * for await (const result of paystation.streamTransactionStatuses(readInvoiceNumbers())) {
+   *   await saveReconciliation(result);
+   * }
+   * ```
+   */
+  streamTransactionStatuses(
+    invoiceNumbers: Iterable<string> | AsyncIterable<string>,
+    options: TransactionStatusBatchOptions = {}
+  ): AsyncGenerator<TransactionStatusResult<TMetadata>> {
+    return this.transactionStatusBatch.stream(
+      invoiceNumbers,
+      (invoiceNumber, requestOptions) => this.getTransactionStatus(invoiceNumber, requestOptions),
+      options
+    ) as AsyncGenerator<TransactionStatusResult<TMetadata>>;
+  }
+
+  /**
+   * Retrieves a transaction as a normalized `Transaction`, by invoice number or transaction ID
+   * 
+   * The v1 (by invoice) and v2 (by `trx_id`) status endpoints return different fields.
+   * This method maps both onto one model: amounts are `Money`, dates are `Date`s
+   * (PayStation reports Bangladesh time, UTC+6), fields the endpoint does not return
+   * are `null`, and the original transaction object is kept under `raw`.
+   * 
+   * - `{ invoiceNumber }` (or a plain string) uses `/transaction-status`
+   * - `{ transactionId }` uses `/v2/transaction-status`
+   * 
+   * The endpoint used is reported in `transaction.source`.
+   * 
+   * @param reference - `{ invoiceNumber }`, `{ transactionId }` or an invoice number
+   * @param options - Per-call options (optional)
+   * @param options.signal - AbortSignal that cancels the request (optional)
+   * @param options.timeoutMs - Timeout for each attempt in milliseconds (optional)
+   * 
+   * @returns Promise resolving to the normalized transaction
+   * 
+   * @throws {ValidationError} When the reference is invalid or empty
+   * @throws {AuthenticationError} When merchant credentials are invalid
+   * @throws {NetworkError} When network request fails
+   * @throws {TimeoutError} When the request exceeds its timeout
+   * @throws {CancelledError} When the request is cancelled through `options.signal`
+   * @throws {PayStationError} When PayStation API returns an error or transaction not found
+   * 
+   * @example
+   * ```typescript
+   * const transaction = await paystation.getTransaction({ transactionId: 'TXN123456789' });
+   * 
+   * console.log(transaction.status);                     // 'success'
+   * console.log(transaction.amount?.toDecimalString());  // '100.00'
+   * console.log(transaction.transactedAt?.toISOString());
+   * console.log(transaction.source);                     // 'v2/transaction-status'
+   * ```
+   */
+  async getTransaction(
+    reference: TransactionReference,
+    options: RequestOptions = {}
+  ): Promise<Transaction<TMetadata>> {
+    try {
+      // Build the request for the endpoint matching the reference
+      let request: HttpRequest;
+      let source: TransactionSource;
+      let description: string;
+      if (reference && typeof reference === 'object' && 'transactionId' in reference) {
+        request = this.requestBuilder.buildTransactionStatusByIdRequest(reference.transactionId, options);
+        source = 'v2/transaction-status';
+        description = `transaction ID ${reference.transactionId}`;
+      } else {
+        const invoiceNumber = typeof reference === 'string' ? reference : reference?.invoiceNumber;
+        if (invoiceNumber === undefined) {
+          throw new ValidationError('Transaction reference must be an invoice number, { invoiceNumber } or { transactionId }');
+        }
+        request = this.requestBuilder.buildTransactionStatusRequest(invoiceNumber, options);
+        source = 'transaction-status';
+        description = `invoice ${invoiceNumber}`;
+      }
+      
+      // Make the HTTP request
+      const response = await this.httpClient.request(request);
+      
+      // Handle HTTP errors
+      if (response.status >= 400) {
+        this.responseParser.parseErrorResponse(response);
+      }
+      
+      // Parse the response and normalize the transaction
+      const parsed = await this.responseParser.parseTransactionStatusResponse(response);
+      if (!parsed.data) {
+        throw new PayStationError(`No transaction found for ${description}`, parsed.statusCode);
+      }
+      
+      const raw = (response.data as { data: Record<string, unknown> }).data;
+      return this.transactionNormalizer.normalize(parsed.data, raw, source) as Transaction<TMetadata>;
+    } catch (error) {
+      // Re-throw known error types
+      if (error instanceof ValidationError || 
+          error instanceof AuthenticationError || 
+          error instanceof NetworkError || 
+          error instanceof PayStationError) {
+        throw error;
+      }
+      
+      // Wrap unexpected errors
+      throw new PayStationError(
+        'An unexpected error occurred during transaction lookup',
+        undefined,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Refunds a payment in full or in part
+   * 
+   * The transaction is looked up first, so that only successful payments are refunded
+   * and a partial amount is checked against the captured amount before PayStation is
+   * asked. Refunds are never retried automatically unless `retry.retryNonIdempotent` is set.
+   * 
+   * @param params - Refund parameters
+   * @param params.transactionId - PayStation transaction ID of the payment (or `invoiceNumber`)
+   * @param params.invoiceNumber - Invoice number of the payment (or `transactionId`)
+   * @param params.amount - Amount to refund; the full captured amount when omitted (optional)
+   * @param params.reason - Reason for the refund
+   * @param options - Per-call options, applied to the lookup and the refund request (optional)
+   * @param options.signal - AbortSignal that cancels the requests (optional)
+   * @param options.timeoutMs - Timeout for each attempt in milliseconds (optional)
+   * 
+   * @returns Promise resolving to the refund response, with the refund ID for status lookups
+   * 
+   * @throws {ValidationError} When parameters are invalid, the payment is not refundable or the amount exceeds the captured amount
+   * @throws {TransactionNotFoundError} When PayStation has no such transaction
+   * @throws {InvalidAmountError} When PayStation rejects the refund amount
+   * @throws {AuthenticationError} When merchant credentials are invalid
+   * @throws {NetworkError} When network request fails
+   * @throws {TimeoutError} When a request exceeds its timeout
+   * @throws {CancelledError} When the request is cancelled through `options.signal`
+   * @throws {PayStationError} When PayStation API returns an error
+   * 
+   * @example
+   * ```typescript
+   * const refund = await paystation.refund({
+   *   transactionId: 'TXN123456789',
+   *   amount: 50,
+   *   reason: 'Damaged item'
+   * });
+   * 
+   * console.log(refund.data?.refundId);      // 'RF123456'
+   * console.log(refund.data?.refundStatus);  // 'pending'
+   * ```
+   */
+  async refund(params: RefundParams, options: RequestOptions = {}): Promise<RefundResponse> {
+    try {
+      // Check the parameters and look up the payment being refunded
+      const reference = this.requestBuilder.resolveRefundReference(params);
+      const transaction = await this.getTransaction(reference, options);
+      
+      // Build the request
+      const request = this.requestBuilder.buildRefundRequest(params, transaction, options);
+      
+      // Make the HTTP request
+      const response = await this.httpClient.request(request);
+      
+      // Handle HTTP errors
+      if (response.status >= 400) {
+        this.responseParser.parseErrorResponse(response);
+      }
+      
+      // Parse and return the response
+      return this.responseParser.parseRefundResponse(response);
+    } catch (error) {
+      // Re-throw known error types
+      if (error instanceof ValidationError || 
+          error instanceof AuthenticationError || 
+          error instanceof NetworkError || 
+          error instanceof PayStationError) {
+        throw error;
+      }
+      
+      // Wrap unexpected errors
+      throw new PayStationError(
+        'An unexpected error occurred during refund',
+        undefined,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Retrieves the status of a refund
+   * 
+   * @param refundId - PayStation refund ID returned by {@link refund}
+   * @param options - Per-call options (optional)
+   * @param options.signal - AbortSignal that cancels the request (optional)
+   * @param options.timeoutMs - Timeout for each attempt in milliseconds (optional)
+   * 
+   * @returns Promise resolving to the refund response
+   * 
+   * @throws {ValidationError} When refund ID is invalid or empty
+   * @throws {AuthenticationError} When merchant credentials are invalid
+   * @throws {NetworkError} When network request fails
+   * @throws {TimeoutError} When the request exceeds its timeout
+   * @throws {CancelledError} When the request is cancelled through `options.signal`
+   * @throws {PayStationError} When PayStation API returns an error or refund not found
+   * 
+   * @example
+   * ```typescript
+   * const refund = await paystation.getRefundStatus('RF123456');
+   * 
+   * if (refund.data?.refundStatus === 'success') {
+   *   console.log(`Refunded ${refund.data.amounts.refundAmount?.format()}`);
+   * }
+   * ```
+   */
+  async getRefundStatus(refundId: string, options: RequestOptions = {}): Promise<RefundResponse> {
+    try {
+      // Build the request
+      const request = this.requestBuilder.buildRefundStatusRequest(refundId, options);
+      
+      // Make the HTTP request
+      const response = await this.httpClient.request(request);
+      
+      // Handle HTTP errors
+      if (response.status >= 400) {
+        this.responseParser.parseErrorResponse(response);
+      }
+      
+      // Parse and return the response
+      return this.responseParser.parseRefundResponse(response);
+    } catch (error) {
+      // Re-throw known error types
+      if (error instanceof ValidationError || 
+          error instanceof AuthenticationError || 
+          error instanceof NetworkError || 
+          error instanceof PayStationError) {
+        throw error;
+      }
+      
+      // Wrap unexpected errors
+      throw new PayStationError(
+        'An unexpected error occurred during refund status check',
+        undefined,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Parses the parameters PayStation appends to the callback URL without verifying them
+   * 
+   * Use this to read the invoice number before verification (for example to load the
+   * matching order), then pass the same input to {@link handleCallback}. The returned
+   * values come straight from the redirect and must not be trusted on their own.
+   * 
+   * @param input - Callback URL, query string, `URLSearchParams` or framework query object
+   * 
+   * @returns Parsed callback payload
+   * 
+   * @throws {CallbackVerificationError} When required parameters are missing
+   */
+  parseCallback(input: CallbackInput): CallbackPayload<TMetadata> {
+    return this.callbackHandler.parse(input) as CallbackPayload<TMetadata>;
+  }
+
+  /**
+   * Parses and verifies the parameters PayStation appends to the callback URL
+   * 
+   * The redirect back to `callbackUrl` can be forged by anyone, so this method never
+   * trusts it on its own. It always looks the invoice up through the transaction status
+   * endpoint and cross-checks the invoice number, transaction ID and amount before
+   * returning the status reported by PayStation.
+   * 
+   * @param input - Callback URL, query string, `URLSearchParams` or framework query object
+   * @param options - Verification options (optional)
+   * @param options.expectedAmount - Amount your order expects as a number or Money; compared with PayStation's record (optional)
+   * @param options.signal - AbortSignal that cancels the status lookup (optional)
+   * @param options.timeoutMs - Timeout for each attempt of the status lookup in milliseconds (optional)
+   * 
+   * @returns Promise resolving to the verified callback with PayStation's transaction data
+   * 
+   * @throws {CallbackVerificationError} When parameters are missing, PayStation has no such transaction or its record does not match
+   * @throws {AuthenticationError} When merchant credentials are invalid
+   * @throws {NetworkError} When network request fails
+   * @throws {CancelledError} When the status lookup is cancelled through `options.signal`
+   * @throws {ResponseValidationError} When the status response has an unexpected format
+   * @throws {PayStationError} When PayStation responds with any other error, e.g. a retryable 5xx
+   * 
+   * @example
+   * ```typescript
+   * app.get('/payment/callback', async (req, res) => {
+   *   try {
+   *     const result = await paystation.handleCallback(req.query, {
+   *       expectedAmount: order.amount
+   *     });
+   *     
+   *     if (result.status === 'success') {
+   *       await markOrderPaid(result.payload.invoiceNumber, result.transaction.transactionId);
+   *     }
+   *   } catch (error) {
+   *     if (error instanceof CallbackVerificationError) {
+   *       console.error('Rejected callback:', error.reason, error.message);
+   *     }
+   *   }
+   * });
+   * ```
+   */
+  async handleCallback(
+    input: CallbackInput,
+    options: CallbackVerificationOptions = {}
+  ): Promise<VerifiedCallback<TMetadata>> {
+    const payload = this.parseCallback(input);
+
+    let statusResponse: TransactionStatusResponse<TMetadata>;
+    try {
+      statusResponse = await this.getTransactionStatus(payload.invoiceNumber, {
+        signal: options.signal,
+        timeoutMs: options.timeoutMs
+      });
+    } catch (error) {
+      // Only a missing transaction is a verdict on the callback; outages, rejected
+      // credentials and unexpected responses reach the caller unchanged
+      if (!(error instanceof TransactionNotFoundError)) {
+        throw error;
+      }
+
+      throw new CallbackVerificationError(
+        `Unable to verify callback for invoice ${payload.invoiceNumber}: ${error.message}`,
+        'transaction_not_found',
+        error
+      );
+    }
+
+    return this.callbackHandler.verify(payload, statusResponse, options) as VerifiedCallback<TMetadata>;
+  }
+
+  /**
+   * Waits until a transaction reaches a terminal state
+   * 
+   * After the customer returns from the hosted checkout a transaction can still be
+   * `processing`. This method polls the status endpoint (by invoice number, or the v2
+   * endpoint when a `transactionId` is given) with a growing interval until the status
+   * is `success`, `failed` or `refund`.
+   * 
+   * @param reference - Invoice number, `{ invoiceNumber }` or `{ transactionId }`
+   * @param options - Polling options (optional)
+   * @param options.intervalMs - Delay before the first re-check in milliseconds (default: 2000)
+   * @param options.backoffFactor - Multiplier applied to the delay after each check (default: 1.5)
+   * @param options.maxIntervalMs - Upper bound for the delay between checks (default: 15000)
+   * @param options.maxDurationMs - Maximum time to wait before giving up (default: 300000)
+   * @param options.signal - AbortSignal that stops polling (optional)
+   * @param options.requestTimeoutMs - Timeout for each status lookup in milliseconds, capped at the time left (optional)
+   * @param options.onStatusChange - Called whenever the observed status changes (optional)
+   * 
+   * @returns Promise resolving to the transaction data in its terminal state
+   * 
+   * @throws {ValidationError} When the reference or options are invalid
+   * @throws {TimeoutError} When the transaction is not terminal within `maxDurationMs`
+   * @throws {CancelledError} When polling is cancelled through `options.signal`
+   * @throws {AuthenticationError} When merchant credentials are invalid
+   * @throws {PayStationError} When PayStation API returns an error that is not retryable
+   * 
+   * @example
+   * ```typescript
+   * const transaction = await paystation.waitForTransaction('INV-001', {
+   *   maxDurationMs: 60000,
+   *   onStatusChange: (data, previous) => {
+   *     console.log(`Status changed from ${previous} to ${data.transactionStatus}`);
+   *   }
+   * });
+   * 
+   * if (transaction.transactionStatus === 'success') {
+   *   console.log('Payment settled:', transaction.transactionId);
+   * }
+   * ```
+   */
+  async waitForTransaction(
+    reference: TransactionReference,
+    options: WaitForTransactionOptions = {}
+  ): Promise<TransactionData<TMetadata>> {
+    const transaction = await this.transactionPoller.wait(
+      (requestOptions) => this.lookupTransaction(reference, requestOptions),
+      options
+    );
+    return transaction as TransactionData<TMetadata>;
+  }
+
+  /**
+   * Looks a transaction up by invoice number or transaction ID
+   * @private
+   */
+  private lookupTransaction(
+    reference: TransactionReference,
+    options: RequestOptions
+  ): Promise<TransactionStatusResponse<TMetadata>> {
+    if (typeof reference === 'string') {
+      return this.getTransactionStatus(reference, options);
+    }
+
+    if (reference && 'transactionId' in reference) {
+      return this.getTransactionStatusById(reference.transactionId, options);
+    }
+
+    if (reference && 'invoiceNumber' in reference) {
+      return this.getTransactionStatus(reference.invoiceNumber, options);
+    }
+
+    return Promise.reject(
+      new ValidationError('Transaction reference must be an invoice number, { invoiceNumber } or { transactionId }')
+    );
+  }
 }
\ No newline at end of file
@@ -0,0 +1,287 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HttpClient } from '../http/HttpClient';
+import { PayStationSDK } from '../PayStationSDK';
+import { RetryPolicy } from '../http/RetryPolicy';
+import { NetworkError, TimeoutError, CancelledError, MalformedResponseError } from '../errors/index';
+import { Environment, HttpRequest, Transport } from '../types/index';
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' }
+  });
+
+const statusRequest: HttpRequest = {
+  url: 'https://sandbox.paystation.com.bd/api/transaction-status',
+  method: 'POST',
+  headers: {},
+  body: 'invoice_number=INV-001',
+  idempotent: true
+};
+
+describe('HttpClient', () => {
+  describe('Retry Policy', () => {
+    const retryPolicy = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 0, jitter: false });
+
+    it('should retry idempotent requests on retryable status codes', async () => {
+      const fetcher = vi.fn()
+        .mockResolvedValueOnce(jsonResponse(503, { message: 'Service Unavailable' }))
+        .mockResolvedValueOnce(jsonResponse(200, { status: 'success' }));
+
+      const client = new HttpClient(fetcher, { retryPolicy });
+      const response = await client.request(statusRequest);
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+      expect(response.status).toBe(200);
+    });
+
+    it('should stop after the maximum number of attempts', async () => {
+      const fetcher = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+
+      const client = new HttpClient(fetcher, { retryPolicy });
+
+      await expect(client.request(statusRequest)).rejects.toBeInstanceOf(NetworkError);
+      expect(fetcher).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry non-idempotent requests unless enabled', async () => {
+      const fetcher = vi.fn().mockImplementation(async () => jsonResponse(502, { message: 'Bad Gateway' }));
+      const request = { ...statusRequest, idempotent: false };
+
+      const response = await new HttpClient(fetcher, { retryPolicy }).request(request);
+      expect(response.status).toBe(502);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+
+      fetcher.mockClear();
+      const retryAll = new RetryPolicy({ maxAttempts: 2, baseDelayMs: 0, retryNonIdempotent: true });
+      await new HttpClient(fetcher, { retryPolicy: retryAll }).request(request);
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry responses whose body is not valid JSON', async () => {
+      const fetcher = vi.fn().mockImplementation(async () => new Response('{"status": ', {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      }));
+      const retryAll = new RetryPolicy({ maxAttempts: 3, baseDelayMs: 0, retryNonIdempotent: true });
+
+      const error = await new HttpClient(fetcher, { retryPolicy: retryAll })
+        .request({ ...statusRequest, idempotent: false })
+        .catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(MalformedResponseError);
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error).toMatchObject({ code: 'MALFORMED_RESPONSE', retryable: false });
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cap exponential backoff at maxDelayMs', () => {
+      const policy = new RetryPolicy({ baseDelayMs: 100, maxDelayMs: 300, jitter: false });
+
+      expect(policy.getDelay(1)).toBe(100);
+      expect(policy.getDelay(2)).toBe(200);
+      expect(policy.getDelay(3)).toBe(300);
+    });
+  });
+
+  describe('Timeouts and Cancellation', () => {
+    // Never settles on its own; rejects like fetch does when the signal aborts
+    const hangingFetcher = vi.fn((_url: string, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => {
+          reject(new DOMException('The operation was aborted.', 'AbortError'));
+        });
+      })
+    );
+
+    it('should throw TimeoutError when an attempt exceeds its timeout', async () => {
+      const client = new HttpClient(hangingFetcher, { timeoutMs: 10 });
+
+      await expect(client.request(statusRequest)).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it('should let the per-request timeout override the default', async () => {
+      const client = new HttpClient(hangingFetcher, { timeoutMs: 60_000 });
+
+      await expect(client.request({ ...statusRequest, timeoutMs: 10 })).rejects.toMatchObject({
+        name: 'TimeoutError',
+        timeoutMs: 10
+      });
+    });
+
+    it('should throw CancelledError when the caller aborts', async () => {
+      const controller = new AbortController();
+      const client = new HttpClient(hangingFetcher);
+
+      const pending = client.request({ ...statusRequest, signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(CancelledError);
+    });
+
+    it('should not start a request when the signal is already aborted', async () => {
+      const fetcher = vi.fn();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        new HttpClient(fetcher).request({ ...statusRequest, signal: controller.signal })
+      ).rejects.toBeInstanceOf(CancelledError);
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Injectable Transport', () => {
+    const config = {
+      merchantId: 'test-merchant',
+      password: 'test-password',
+      environment: Environment.SANDBOX
+    };
+
+    it('should send SDK requests through a configured fetch', async () => {
+      const fetcher = vi.fn().mockImplementation(async () =>
+        jsonResponse(200, {
+          statusCode: '200',
+          status: 'success',
+          message: 'Transaction found',
+          data: {
+            invoiceNumber: 'INV-001',
+            transactionStatus: 'processing',
+            transactionId: 'TXN1',
+            paymentAmount: '10',
+            orderDateTime: '2024-01-01 12:00:00'
+          }
+        })
+      );
+
+      const sdk = new PayStationSDK({ ...config, fetch: fetcher });
+      const result = await sdk.getTransactionStatus('INV-001');
+
+      expect(fetcher.mock.calls[0][0]).toBe('https://sandbox.paystation.com.bd/api/transaction-status');
+      expect(result.data?.transactionStatus).toBe('processing');
+    });
+
+    it('should send SDK requests through a configured transport', async () => {
+      const transport: Transport = {
+        send: vi.fn().mockResolvedValue({
+          status: 200,
+          statusText: 'OK',
+          data: { statusCode: '200', status: 'success', message: 'ok', paymentUrl: 'https://pay.test/1' }
+        })
+      };
+
+      const sdk = new PayStationSDK({ ...config, transport });
+      const result = await sdk.initiatePayment({
+        invoiceNumber: 'INV-001',
+        paymentAmount: 10,
+        customerName: 'John Doe',
+        customerPhone: '01712345678',
+        customerEmail: 'john@example.com',
+        callbackUrl: 'https://example.com/callback'
+      });
+
+      const request = (transport.send as any).mock.calls[0][0] as HttpRequest;
+      expect(request.url).toContain('/initiate-payment');
+      expect(String(request.body)).toContain('invoice_number=INV-001');
+      expect(result.paymentUrl).toBe('https://pay.test/1');
+    });
+
+    it('should enforce timeouts on transports that ignore the signal', async () => {
+      const transport: Transport = { send: () => new Promise(() => undefined) };
+      const client = new HttpClient(undefined, { transport, timeoutMs: 10 });
+
+      await expect(client.request(statusRequest)).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it('should wrap unexpected transport errors in NetworkError', async () => {
+      const transport: Transport = { send: vi.fn().mockRejectedValue(new Error('socket hang up')) };
+
+      await expect(
+        new HttpClient(undefined, { transport }).request(statusRequest)
+      ).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it('should reject configuring both fetch and transport', () => {
+      expect(() => new PayStationSDK({
+        ...config,
+        fetch: vi.fn(),
+        transport: { send: vi.fn() }
+      })).toThrow('Provide either fetch or transport, not both');
+    });
+  });
+
+  describe('Middleware', () => {
+    const okTransport = (): Transport => ({
+      send: vi.fn().mockResolvedValue({ status: 200, statusText: 'OK', data: { status: 'success' } })
+    });
+
+    it('should run middleware in registration order around the transport', async () => {
+      const transport = okTransport();
+      const client = new HttpClient(undefined, { transport });
+      const calls: string[] = [];
+
+      client.use(async (request, next) => {
+        calls.push('first:before');
+        const response = await next(request);
+        calls.push('first:after');
+        return response;
+      });
+      client.use(async (request, next) => {
+        calls.push('second:before');
+        const response = await next(request);
+        calls.push('second:after');
+        return response;
+      });
+
+      await client.request(statusRequest);
+
+      expect(calls).toEqual(['first:before', 'second:before', 'second:after', 'first:after']);
+    });
+
+    it('should pass modified requests and responses through the chain', async () => {
+      const transport = okTransport();
+      const client = new HttpClient(undefined, { transport });
+
+      client.use((request, next) => next({
+        ...request,
+        headers: { ...request.headers, 'X-Correlation-Id': 'abc' }
+      }));
+      client.use(async (request, next) => ({ ...(await next(request)), statusText: 'Tweaked' }));
+
+      const response = await client.request(statusRequest);
+
+      expect((transport.send as any).mock.calls[0][0].headers['X-Correlation-Id']).toBe('abc');
+      expect(response.statusText).toBe('Tweaked');
+    });
+
+    it('should short-circuit when middleware returns without calling next', async () => {
+      const transport = okTransport();
+      const client = new HttpClient(undefined, { transport });
+
+      client.use(async () => ({ status: 200, statusText: 'Cached', data: {} }));
+
+      const response = await client.request(statusRequest);
+
+      expect(response.statusText).toBe('Cached');
+      expect(transport.send).not.toHaveBeenCalled();
+    });
+
+    it('should propagate transport errors back through the chain', async () => {
+      const transport: Transport = { send: vi.fn().mockRejectedValue(new TypeError('fetch failed')) };
+      const client = new HttpClient(undefined, { transport });
+      const seen = vi.fn();
+
+      client.use(async (request, next) => {
+        try {
+          return await next(request);
+        } catch (error) {
+          seen(error);
+          throw error;
+        }
+      });
+
+      await expect(client.request(statusRequest)).rejects.toBeInstanceOf(NetworkError);
+      expect(seen.mock.calls[0][0]).toBeInstanceOf(NetworkError);
+    });
+  });
+});
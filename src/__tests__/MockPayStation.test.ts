@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PayStationSDK } from '../PayStationSDK';
+import { Environment } from '../types/index';
+import {
+  AuthenticationError,
+  DuplicateInvoiceError,
+  NetworkError,
+  TimeoutError,
+  PayStationError,
+  TransactionNotFoundError
+} from '../errors/index';
+import { createMockPayStation, MockPayStation } from '../testing/index';
+
+describe('Mock PayStation', () => {
+  let mock: MockPayStation;
+  let sdk: PayStationSDK;
+
+  const paymentParams = {
+    invoiceNumber: 'INV-001',
+    paymentAmount: 250,
+    customerName: 'John Doe',
+    customerPhone: '01712345678',
+    customerEmail: 'john@example.com',
+    callbackUrl: 'https://shop.test/callback'
+  };
+
+  beforeEach(() => {
+    mock = createMockPayStation({ merchantId: 'test-merchant', password: 'test-password' });
+    sdk = new PayStationSDK({
+      merchantId: 'test-merchant',
+      password: 'test-password',
+      environment: Environment.SANDBOX,
+      fetch: mock.fetch
+    });
+  });
+
+  it('should run a full checkout through the hosted page and callback', async () => {
+    const payment = await sdk.initiatePayment(paymentParams);
+    expect(payment.paymentUrl).toBe('https://sandbox.paystation.com.bd/api/checkout/INV-001');
+
+    const page = await mock.fetch(payment.paymentUrl!);
+    expect(await page.text()).toContain('INV-001');
+
+    const redirect = await mock.fetch(`${payment.paymentUrl}/success`, { redirect: 'manual' });
+    const callbackUrl = redirect.headers.get('Location')!;
+    expect(callbackUrl).toContain('status=Successful');
+
+    const result = await sdk.handleCallback(callbackUrl, { expectedAmount: 250 });
+    expect(result.status).toBe('success');
+
+    const byId = await sdk.getTransactionStatusById(result.transaction.transactionId);
+    expect(byId.data?.transactionAmount).toBe(250);
+  });
+
+  it('should reflect refunds driven through the mock', async () => {
+    await sdk.initiatePayment(paymentParams);
+    mock.completePayment('INV-001', 'success');
+    mock.setTransactionStatus('INV-001', 'refund');
+
+    const status = await sdk.getTransactionStatus('INV-001');
+    expect(status.data?.transactionStatus).toBe('refund');
+  });
+
+  it('should report unknown invoices as API failures', async () => {
+    const error = await sdk.getTransactionStatus('UNKNOWN').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(TransactionNotFoundError);
+    expect(error).toMatchObject({ code: 'TRANSACTION_NOT_FOUND', statusCode: '404', retryable: false, httpStatus: 200 });
+    expect(error.requestId).toMatch(/^mock-\d+$/);
+  });
+
+  it('should report reused invoice numbers as duplicates', async () => {
+    await sdk.initiatePayment(paymentParams);
+
+    await expect(sdk.initiatePayment(paymentParams)).rejects.toBeInstanceOf(DuplicateInvoiceError);
+  });
+
+  it('should reject invalid credentials with 401', async () => {
+    const intruder = new PayStationSDK({
+      merchantId: 'test-merchant',
+      password: 'wrong-password',
+      environment: Environment.SANDBOX,
+      fetch: mock.fetch
+    });
+
+    await expect(intruder.initiatePayment(paymentParams)).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('should play scripted failures in order', async () => {
+    mock
+      .failNext({ type: 'http', status: 500 })
+      .failNext({ type: 'malformed-json' })
+      .failNext({ type: 'network' });
+
+    await expect(sdk.getTransactionStatus('INV-001')).rejects.toMatchObject({ statusCode: '500' });
+    await expect(sdk.getTransactionStatus('INV-001')).rejects.toBeInstanceOf(NetworkError);
+    await expect(sdk.getTransactionStatus('INV-001')).rejects.toBeInstanceOf(NetworkError);
+    await expect(sdk.getTransactionStatus('INV-001')).rejects.toBeInstanceOf(PayStationError);
+    expect(mock.calls).toHaveLength(4);
+    expect(mock.calls[0].params).not.toHaveProperty('password');
+  });
+
+  it('should simulate slow responses', async () => {
+    mock.failNext({ type: 'slow', delayMs: 200 });
+
+    await expect(
+      sdk.getTransactionStatus('INV-001', { timeoutMs: 10 })
+    ).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  it('should reject requests whose signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      mock.fetch('https://sandbox.paystation.com.bd/transaction-status', {
+        method: 'POST',
+        body: new URLSearchParams({ invoice_number: 'INV-001' }),
+        signal: controller.signal
+      })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('should serve the mock over HTTP', async () => {
+    const server = await mock.listen();
+
+    try {
+      const response = await fetch(`${server.url}/api/transaction-status`, {
+        method: 'POST',
+        body: new URLSearchParams({ merchant_id: 'test-merchant', password: 'test-password', invoice_number: 'X' })
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ status: 'failed', message: 'Transaction not found' });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should accept SDK requests through a custom base URL', async () => {
+    const server = await mock.listen();
+
+    try {
+      const httpSdk = new PayStationSDK({
+        merchantId: 'test-merchant',
+        password: 'test-password',
+        environment: Environment.CUSTOM,
+        baseUrl: server.url
+      });
+
+      const payment = await httpSdk.initiatePayment(paymentParams);
+      expect(payment.paymentUrl).toBe(`${server.url}/checkout/INV-001`);
+
+      const status = await httpSdk.getTransactionStatus('INV-001');
+      expect(status.data?.transactionStatus).toBe('processing');
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PayStationSDK } from '../PayStationSDK';
+import { Environment } from '../types/index';
+import { ValidationError } from '../errors/index';
+import { Money } from '../money/index';
+
+// Mock the HTTP client to avoid real API calls
+vi.mock('../http/HttpClient', () => ({
+  HttpClient: vi.fn().mockImplementation(() => ({
+    request: vi.fn()
+  }))
+}));
+
+describe('Money', () => {
+  it('should add decimal amounts without floating-point errors', () => {
+    const total = Money.of(100.1).add(Money.of(0.2));
+
+    expect(total.toDecimalString()).toBe('100.30');
+    expect(total.minorUnits).toBe(10030);
+  });
+
+  it('should parse strings, exponents and negative amounts', () => {
+    expect(Money.of('1234.5', 'USD').toDecimalString()).toBe('1234.50');
+    expect(Money.of(1e10).toDecimalString()).toBe('10000000000.00');
+    expect(() => Money.of(1e300)).toThrow(ValidationError);
+    expect(Money.of('-0.05').toDecimalString()).toBe('-0.05');
+    expect(Money.of('1.5e-1').toDecimalString()).toBe('0.15');
+  });
+
+  it('should round with the chosen rounding mode', () => {
+    expect(Money.of('1.005').toDecimalString()).toBe('1.01');
+    expect(Money.of('1.005', 'BDT', 'half-even').toDecimalString()).toBe('1.00');
+    expect(Money.of('1.015', 'BDT', 'half-even').toDecimalString()).toBe('1.02');
+    expect(Money.of('1.001', 'BDT', 'up').toDecimalString()).toBe('1.01');
+    expect(Money.of('-1.009', 'BDT', 'down').toDecimalString()).toBe('-1.00');
+  });
+
+  it('should reject unsupported currencies and mixed-currency arithmetic', () => {
+    expect(() => Money.of(1, 'EUR')).toThrow(ValidationError);
+    expect(() => Money.of(1, 'BDT').add(Money.of(1, 'USD'))).toThrow('Currency mismatch');
+    expect(Money.of(1, 'usd').currency).toBe('USD');
+  });
+
+  it('should serialize to and from JSON', () => {
+    const amount = Money.of('99.9', 'USD');
+
+    expect(JSON.stringify(amount)).toBe('{"amount":"99.90","currency":"USD"}');
+    expect(Money.fromJSON(amount.toJSON()).equals(amount)).toBe(true);
+    expect(amount.format('en-US')).toBe('$99.90');
+  });
+
+  describe('SDK integration', () => {
+    let sdk: PayStationSDK;
+    let mockHttpClient: any;
+
+    const paymentParams = {
+      invoiceNumber: 'INV-001',
+      customerName: 'John Doe',
+      customerPhone: '01712345678',
+      customerEmail: 'john@example.com',
+      callbackUrl: 'https://example.com/callback'
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      sdk = new PayStationSDK({
+        merchantId: 'test-merchant',
+        password: 'test-password',
+        environment: Environment.SANDBOX
+      });
+      mockHttpClient = (sdk as any).httpClient;
+    });
+
+    it('should send Money amounts with the currency precision', async () => {
+      mockHttpClient.request.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        data: {
+          statusCode: '200',
+          status: 'success',
+          message: 'Payment initiated successfully',
+          paymentAmount: '100.3',
+          invoiceNumber: 'INV-001',
+          paymentUrl: 'https://sandbox.paystation.com.bd/checkout/payment-url'
+        }
+      });
+
+      const result = await sdk.initiatePayment({
+        ...paymentParams,
+        paymentAmount: Money.of(100.1, 'USD').add(Money.of(0.2, 'USD'))
+      });
+
+      const body = mockHttpClient.request.mock.calls[0][0].body as URLSearchParams;
+      expect(body.get('payment_amount')).toBe('100.30');
+      expect(body.get('currency')).toBe('USD');
+      expect(result.amounts?.paymentAmount?.equals(Money.of('100.30', 'USD'))).toBe(true);
+    });
+
+    it('should reject a currency that conflicts with the Money amount', async () => {
+      await expect(
+        sdk.initiatePayment({ ...paymentParams, paymentAmount: Money.of(100, 'USD'), currency: 'BDT' })
+      ).rejects.toBeInstanceOf(ValidationError);
+      expect(mockHttpClient.request).not.toHaveBeenCalled();
+    });
+
+    it('should expose string and number response amounts as Money', async () => {
+      mockHttpClient.request.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        data: {
+          statusCode: '200',
+          status: 'success',
+          message: 'Transaction found',
+          data: {
+            invoiceNumber: 'INV-001',
+            transactionStatus: 'success',
+            transactionId: 'TXN123456789',
+            transactionAmount: 100.3,
+            requestAmount: '100.30',
+            transactionDate: '2024-01-01 12:00:00'
+          }
+        }
+      });
+
+      const result = await sdk.getTransactionStatusById('TXN123456789');
+      const amounts = result.data!.amounts;
+
+      expect(amounts.transactionAmount?.toDecimalString()).toBe('100.30');
+      expect(amounts.transactionAmount?.equals(amounts.requestAmount!)).toBe(true);
+      expect(amounts.paymentAmount).toBeUndefined();
+    });
+  });
+});
@@ -1,6 +1,19 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { PayStationSDK } from '../PayStationSDK';
-import { Environment } from '../types/index';
+import { Environment, PayStationConfig } from '../types/index';
+import {
+  CallbackVerificationError,
+  CancelledError,
+  IdempotencyConflictError,
+  NetworkError,
+  PayStationError,
+  ResponseValidationError,
+  TimeoutError,
+  ValidationError
+} from '../errors/index';
+import { MemoryIdempotencyStore } from '../idempotency/index';
+import { validatePaymentParams } from '../request/index';
+import { Money } from '../money/index';
 
 // Mock the HTTP client to avoid real API calls
 vi.mock('../http/HttpClient', () => ({
@@ -50,6 +63,62 @@ describe('PayStationSDK', () => {
     });
   });
 
+  describe('Custom Base URL', () => {
+    const statusResponse = {
+      status: 200,
+      statusText: 'OK',
+      data: { statusCode: '200', status: 'success', message: 'Transaction found' }
+    };
+
+    const createSdk = (config: Partial<PayStationConfig>) => new PayStationSDK({
+      merchantId: 'test-merchant',
+      password: 'test-password',
+      environment: Environment.CUSTOM,
+      ...config
+    });
+
+    it('should send requests to the configured base URL and paths', async () => {
+      const customSdk = createSdk({
+        baseUrl: 'https://proxy.example.com/paystation/',
+        paths: { 'transaction-status': '/v1/status' }
+      });
+      const client = (customSdk as any).httpClient;
+      client.request.mockResolvedValue(statusResponse);
+
+      await customSdk.getTransactionStatus('INV-001');
+      await customSdk.getTransactionStatusById('TXN-1');
+
+      expect(client.request.mock.calls[0][0].url).toBe('https://proxy.example.com/paystation/v1/status');
+      expect(client.request.mock.calls[1][0].url).toBe('https://proxy.example.com/paystation/v2/transaction-status');
+    });
+
+    it('should require a base URL for the custom environment', () => {
+      expect(() => createSdk({})).toThrow(ValidationError);
+    });
+
+    it('should only allow http for localhost', () => {
+      expect(() => createSdk({ baseUrl: 'http://localhost:4010' })).not.toThrow();
+      expect(() => createSdk({ baseUrl: 'http://staging.example.com' })).toThrow('baseUrl must use https');
+    });
+
+    it('should refuse live credentials against a non-PayStation host unless allowed', () => {
+      expect(() => createSdk({ environment: Environment.LIVE, baseUrl: 'https://proxy.example.com' }))
+        .toThrow(ValidationError);
+      expect(() => createSdk({ environment: Environment.LIVE, baseUrl: 'https://api.paystation.com.bd' }))
+        .not.toThrow();
+      expect(() => createSdk({
+        environment: Environment.LIVE,
+        baseUrl: 'https://proxy.example.com',
+        allowLiveOnCustomHost: true
+      })).not.toThrow();
+    });
+
+    it('should reject path overrides that do not start with a slash', () => {
+      expect(() => createSdk({ baseUrl: 'https://proxy.example.com', paths: { 'initiate-payment': 'pay' } }))
+        .toThrow('paths.initiate-payment must be a string starting with /');
+    });
+  });
+
   describe('Payment Initiation', () => {
     it('should return expected response format for payment initiation', async () => {
       // Mock successful payment initiation response
@@ -72,7 +141,7 @@ describe('PayStationSDK', () => {
         invoiceNumber: 'INV-001',
         paymentAmount: 100.00,
         customerName: 'John Doe',
-        customerPhone: '+8801234567890',
+        customerPhone: '+8801712345678',
         customerEmail: 'john@example.com',
         callbackUrl: 'https://example.com/callback'
       });
@@ -93,6 +162,51 @@ describe('PayStationSDK', () => {
     });
   });
 
+  describe('Payment Parameter Validation', () => {
+    const invalidParams = {
+      invoiceNumber: ' ',
+      paymentAmount: -10,
+      customerName: 'John Doe',
+      customerPhone: '+8801712345678',
+      customerEmail: 'invalid-email',
+      callbackUrl: 'ftp://example.com/callback'
+    };
+
+    it('should report every invalid field with a stable code', () => {
+      expect(sdk.validatePaymentParams(invalidParams)).toEqual([
+        { field: 'invoiceNumber', code: 'empty', message: 'invoiceNumber cannot be empty or whitespace only' },
+        { field: 'paymentAmount', code: 'too_small', message: 'paymentAmount must be greater than 0' },
+        { field: 'customerEmail', code: 'invalid_format', message: 'customerEmail must be a valid email address' },
+        { field: 'callbackUrl', code: 'invalid_format', message: 'callbackUrl must be a valid URL' }
+      ]);
+    });
+
+    it('should work without an SDK instance', () => {
+      const issues = validatePaymentParams({ paymentAmount: Money.of(100, 'USD'), currency: 'BDT' } as any);
+
+      expect(issues.map((issue) => [issue.field, issue.code])).toEqual([
+        ['invoiceNumber', 'required'],
+        ['currency', 'currency_mismatch'],
+        ['customerName', 'required'],
+        ['customerPhone', 'required'],
+        ['customerEmail', 'required'],
+        ['callbackUrl', 'required']
+      ]);
+      expect(validatePaymentParams({ ...invalidParams, invoiceNumber: 'INV-001', paymentAmount: 0.004 }, { amountRounding: 'up' })
+        .map((issue) => issue.field)).toEqual(['customerEmail', 'callbackUrl']);
+    });
+
+    it('should throw all issues at once from initiatePayment()', async () => {
+      const error = await sdk.initiatePayment(invalidParams).catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.field).toBe('invoiceNumber');
+      expect(error.issues).toHaveLength(4);
+      expect(error.message).toContain('paymentAmount must be greater than 0; customerEmail must be a valid email address');
+      expect(mockHttpClient.request).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Transaction Status Checking', () => {
     it('should return expected response format for transaction status by invoice', async () => {
       // Mock successful transaction status response
@@ -179,4 +293,346 @@ describe('PayStationSDK', () => {
       expect(result.data?.transactionStatus).toBe('success');
     });
   });
-});
\ No newline at end of file
+
+  describe('Unified Transaction Lookup', () => {
+    it('should normalize a v1 lookup by invoice number', async () => {
+      mockHttpClient.request.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        data: {
+          statusCode: '200',
+          status: 'success',
+          message: 'Transaction found',
+          data: {
+            invoiceNumber: 'INV-001',
+            transactionStatus: 'success',
+            transactionId: 'TXN123456789',
+            paymentAmount: '100.00',
+            orderDateTime: '2024-01-01 12:00:00',
+            paymentMethod: 'bKash'
+          }
+        }
+      });
+
+      const transaction = await sdk.getTransaction({ invoiceNumber: 'INV-001' });
+
+      expect(mockHttpClient.request.mock.calls[0][0].endpoint).toBe('transaction-status');
+      expect(transaction).toMatchObject({
+        invoiceNumber: 'INV-001',
+        status: 'success',
+        paymentMethod: 'bKash',
+        transactedAt: null,
+        payerMobileNumber: null,
+        source: 'transaction-status'
+      });
+      expect(transaction.amount?.toDecimalString()).toBe('100.00');
+      expect(transaction.orderedAt?.toISOString()).toBe('2024-01-01T06:00:00.000Z');
+      expect(transaction.raw.orderDateTime).toBe('2024-01-01 12:00:00');
+    });
+
+    it('should normalize a v2 lookup by transaction ID', async () => {
+      mockHttpClient.request.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        data: {
+          statusCode: '200',
+          status: 'success',
+          message: 'Transaction found',
+          data: {
+            invoiceNumber: 'INV-001',
+            transactionStatus: 'success',
+            transactionId: 'TXN123456789',
+            transactionAmount: 100,
+            requestAmount: '100.00',
+            transactionDate: '2024-01-01 12:05:00'
+          }
+        }
+      });
+
+      const transaction = await sdk.getTransaction({ transactionId: 'TXN123456789' });
+
+      expect(mockHttpClient.request.mock.calls[0][0].endpoint).toBe('v2/transaction-status');
+      expect(transaction.source).toBe('v2/transaction-status');
+      expect(transaction.amount?.equals(transaction.requestedAmount!)).toBe(true);
+      expect(transaction.orderedAt).toBeNull();
+      expect(transaction.transactedAt?.toISOString()).toBe('2024-01-01T06:05:00.000Z');
+      expect(transaction.reference).toBeNull();
+    });
+
+    it('should reject an invalid reference', async () => {
+      await expect(sdk.getTransaction({} as any)).rejects.toBeInstanceOf(ValidationError);
+      expect(mockHttpClient.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Callback Handling', () => {
+    const statusResponse = {
+      status: 200,
+      statusText: 'OK',
+      data: {
+        statusCode: '200',
+        status: 'success',
+        message: 'Transaction found',
+        data: {
+          invoiceNumber: 'INV-001',
+          transactionStatus: 'success',
+          transactionId: 'TXN123456789',
+          paymentAmount: '100.00',
+          orderDateTime: '2024-01-01 12:00:00'
+        }
+      }
+    };
+
+    it('should verify callback parameters against the status endpoint', async () => {
+      mockHttpClient.request.mockResolvedValue(statusResponse);
+
+      const result = await sdk.handleCallback(
+        'https://example.com/callback?status=Successful&invoice_number=INV-001&trx_id=TXN123456789',
+        { expectedAmount: 100 }
+      );
+
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(1);
+      expect(result.status).toBe('success');
+      expect(result.payload.invoiceNumber).toBe('INV-001');
+      expect(result.payload.transactionId).toBe('TXN123456789');
+      expect(result.transaction.transactionId).toBe('TXN123456789');
+    });
+
+    it('should reject callbacks whose transaction ID does not match', async () => {
+      mockHttpClient.request.mockResolvedValue(statusResponse);
+
+      await expect(
+        sdk.handleCallback({ status: 'Successful', invoice_number: 'INV-001', trx_id: 'FORGED' })
+      ).rejects.toMatchObject({ reason: 'transaction_id_mismatch' });
+    });
+
+    it('should reject callbacks whose amount does not match', async () => {
+      mockHttpClient.request.mockResolvedValue(statusResponse);
+
+      await expect(
+        sdk.handleCallback('status=Successful&invoice_number=INV-001', { expectedAmount: 1 })
+      ).rejects.toBeInstanceOf(CallbackVerificationError);
+    });
+
+    it('should reject callbacks for transactions PayStation does not know', async () => {
+      mockHttpClient.request.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        data: { statusCode: '404', status: 'failed', message: 'Transaction not found' }
+      });
+
+      await expect(
+        sdk.handleCallback('status=Successful&invoice_number=INV-001&trx_id=TXN123456789')
+      ).rejects.toMatchObject({ name: 'CallbackVerificationError', reason: 'transaction_not_found' });
+    });
+
+    it('should rethrow server errors from the status lookup unchanged', async () => {
+      mockHttpClient.request.mockResolvedValue({
+        status: 500,
+        statusText: 'Internal Server Error',
+        data: { message: 'Internal Server Error' }
+      });
+
+      const error = await sdk.handleCallback('status=Successful&invoice_number=INV-001&trx_id=TXN123456789')
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(PayStationError);
+      expect(error).not.toBeInstanceOf(CallbackVerificationError);
+      expect(error).toMatchObject({ retryable: true });
+    });
+
+    it('should rethrow malformed status responses unchanged', async () => {
+      mockHttpClient.request.mockResolvedValue({
+        ...statusResponse,
+        data: { ...statusResponse.data, data: { ...statusResponse.data.data, transactionStatus: 'settled' } }
+      });
+
+      await expect(
+        sdk.handleCallback('status=Successful&invoice_number=INV-001&trx_id=TXN123456789')
+      ).rejects.toBeInstanceOf(ResponseValidationError);
+    });
+
+    it('should reject callbacks without an invoice number', async () => {
+      await expect(sdk.handleCallback('status=Successful')).rejects.toMatchObject({
+        reason: 'missing_parameter'
+      });
+      expect(mockHttpClient.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Transaction Polling', () => {
+    const statusWith = (transactionStatus: string) => ({
+      status: 200,
+      statusText: 'OK',
+      data: {
+        statusCode: '200',
+        status: 'success',
+        message: 'Transaction found',
+        data: {
+          invoiceNumber: 'INV-001',
+          transactionStatus,
+          transactionId: 'TXN123456789',
+          paymentAmount: '100.00',
+          orderDateTime: '2024-01-01 12:00:00'
+        }
+      }
+    });
+
+    it('should poll until the transaction reaches a terminal state', async () => {
+      mockHttpClient.request
+        .mockResolvedValueOnce(statusWith('processing'))
+        .mockResolvedValueOnce(statusWith('processing'))
+        .mockResolvedValueOnce(statusWith('success'));
+      const onStatusChange = vi.fn();
+
+      const result = await sdk.waitForTransaction('INV-001', { intervalMs: 1, onStatusChange });
+
+      expect(result.transactionStatus).toBe('success');
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(3);
+      expect(onStatusChange).toHaveBeenCalledTimes(2);
+      expect(onStatusChange.mock.calls[1][1]).toBe('processing');
+    });
+
+    it('should use the v2 endpoint when a transaction ID is given', async () => {
+      mockHttpClient.request.mockResolvedValue(statusWith('failed'));
+
+      await sdk.waitForTransaction({ transactionId: 'TXN123456789' });
+
+      expect(mockHttpClient.request.mock.calls[0][0].url).toContain('/v2/transaction-status');
+    });
+
+    it('should give up after maxDurationMs', async () => {
+      mockHttpClient.request.mockResolvedValue(statusWith('processing'));
+
+      await expect(
+        sdk.waitForTransaction('INV-001', { intervalMs: 5, maxDurationMs: 20 })
+      ).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it('should keep polling after a transient lookup failure', async () => {
+      mockHttpClient.request
+        .mockRejectedValueOnce(new NetworkError('fetch failed'))
+        .mockResolvedValueOnce(statusWith('success'));
+
+      const result = await sdk.waitForTransaction('INV-001', { intervalMs: 1 });
+
+      expect(result.transactionStatus).toBe('success');
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should bound each lookup by the time left', async () => {
+      // A lookup that only settles when its signal aborts
+      mockHttpClient.request.mockImplementation((request: { signal: AbortSignal }) => new Promise((_resolve, reject) => {
+        request.signal.addEventListener('abort', () => reject(new CancelledError('Request was cancelled')));
+      }));
+
+      const started = Date.now();
+      const error = await sdk.waitForTransaction('INV-001', { maxDurationMs: 30, requestTimeoutMs: 60000 })
+        .catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.timeoutMs).toBe(30);
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(mockHttpClient.request.mock.calls[0][0].timeoutMs).toBeLessThanOrEqual(30);
+    });
+
+    it('should still end the wait on errors that are not retryable', async () => {
+      mockHttpClient.request.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        data: { statusCode: '404', status: 'failed', message: 'Transaction not found' }
+      });
+
+      await expect(sdk.waitForTransaction('INV-001', { intervalMs: 1 })).rejects.toThrow('Transaction not found');
+      expect(mockHttpClient.request).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Idempotency', () => {
+    const paymentParams = {
+      invoiceNumber: 'INV-001',
+      paymentAmount: 100,
+      customerName: 'John Doe',
+      customerPhone: '01712345678',
+      customerEmail: 'john@example.com',
+      callbackUrl: 'https://example.com/callback'
+    };
+
+    const initiateResponse = {
+      status: 200,
+      statusText: 'OK',
+      data: {
+        statusCode: '200',
+        status: 'success',
+        message: 'Payment initiated successfully',
+        paymentAmount: '100',
+        invoiceNumber: 'INV-001',
+        paymentUrl: 'https://sandbox.paystation.com.bd/checkout/payment-url'
+      }
+    };
+
+    let idempotentSdk: PayStationSDK;
+    let client: any;
+
+    beforeEach(() => {
+      idempotentSdk = new PayStationSDK({
+        merchantId: 'test-merchant',
+        password: 'test-password',
+        environment: Environment.SANDBOX,
+        idempotency: { store: new MemoryIdempotencyStore() }
+      });
+      client = (idempotentSdk as any).httpClient;
+    });
+
+    it('should return the stored response for identical retries', async () => {
+      client.request.mockResolvedValue(initiateResponse);
+
+      const first = await idempotentSdk.initiatePayment(paymentParams);
+      const second = await idempotentSdk.initiatePayment({ ...paymentParams });
+
+      expect(second).toEqual(first);
+      expect(client.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share a request that is still in flight', async () => {
+      client.request.mockResolvedValue(initiateResponse);
+
+      const [first, second] = await Promise.all([
+        idempotentSdk.initiatePayment(paymentParams),
+        idempotentSdk.initiatePayment(paymentParams)
+      ]);
+
+      expect(second).toEqual(first);
+      expect(client.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an invoice number reused with different parameters', async () => {
+      client.request.mockResolvedValue(initiateResponse);
+      await idempotentSdk.initiatePayment(paymentParams);
+
+      await expect(
+        idempotentSdk.initiatePayment({ ...paymentParams, paymentAmount: 200 })
+      ).rejects.toBeInstanceOf(IdempotencyConflictError);
+      expect(client.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not store failed initiations', async () => {
+      client.request
+        .mockResolvedValueOnce({ status: 500, statusText: 'Internal Server Error', data: { message: 'Server error' } })
+        .mockResolvedValueOnce(initiateResponse);
+
+      await expect(idempotentSdk.initiatePayment(paymentParams)).rejects.toBeInstanceOf(PayStationError);
+      await expect(idempotentSdk.initiatePayment(paymentParams)).resolves.toMatchObject({ invoiceNumber: 'INV-001' });
+      expect(client.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should accept stores implementing get and set, and reject others', () => {
+      const config = { merchantId: 'test-merchant', password: 'test-password', environment: Environment.SANDBOX };
+      const store = { get: async () => undefined, set: async () => undefined };
+
+      expect(() => new PayStationSDK({ ...config, idempotency: { store } })).not.toThrow();
+      expect(() => new PayStationSDK({ ...config, idempotency: { store: { get: store.get } as any } }))
+        .toThrow('idempotency.store must implement get and set');
+    });
+  });
+});
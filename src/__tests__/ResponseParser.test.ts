@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { ResponseParser } from '../response/index';
+import {
+  PayStationError,
+  ResponseValidationError,
+  ValidationError,
+  InvalidAmountError,
+  MerchantDisabledError,
+  DuplicateInvoiceError,
+  RateLimitedError,
+  TransactionNotFoundError,
+  createApiError
+} from '../errors/index';
+import { PaymentMethod } from '../types/index';
+
+const statusResponse = (data: Record<string, unknown>, extra: Record<string, unknown> = {}) => ({
+  status: 200,
+  statusText: 'OK',
+  data: {
+    statusCode: '200',
+    status: 'success',
+    message: 'Transaction found',
+    data,
+    ...extra
+  }
+});
+
+const transaction = {
+  invoiceNumber: 'INV-001',
+  transactionStatus: 'success',
+  transactionId: 'TXN123456789',
+  paymentAmount: '100.00',
+  orderDateTime: '2024-01-01 12:00:00',
+  paymentMethod: 'bKash'
+};
+
+describe('ResponseParser', () => {
+  describe('strict mode', () => {
+    const parser = new ResponseParser();
+
+    it('should return typed transaction data and drop unknown fields', async () => {
+      const result = await parser.parseTransactionStatusResponse(
+        statusResponse({ ...transaction, transactionAmount: '100', newField: 'x' }, { traceId: 'abc' })
+      );
+
+      expect(result.data).toMatchObject({
+        invoiceNumber: 'INV-001',
+        transactionStatus: 'success',
+        paymentMethod: PaymentMethod.BKASH,
+        transactionAmount: 100
+      });
+      expect(result.data).not.toHaveProperty('newField');
+      expect(result).not.toHaveProperty('raw');
+    });
+
+    it('should report every invalid field with its path', async () => {
+      const response = statusResponse({
+        invoiceNumber: 'INV-001',
+        transactionStatus: 'pending',
+        paymentMethod: 'Cash',
+        transactionAmount: 'abc'
+      });
+
+      let error: ResponseValidationError | undefined;
+      try {
+        await parser.parseTransactionStatusResponse(response);
+      } catch (caught) {
+        error = caught as ResponseValidationError;
+      }
+
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error!.issues).toEqual([
+        { field: 'data.transactionStatus', code: 'invalid_enum', message: expect.stringContaining('must be one of') },
+        { field: 'data.transactionId', code: 'required', message: 'data.transactionId is required' },
+        { field: 'data.paymentMethod', code: 'invalid_enum', message: expect.any(String) },
+        { field: 'data.transactionAmount', code: 'invalid_type', message: 'data.transactionAmount must be a number' }
+      ]);
+    });
+
+    it('should throw PayStation errors before validating the payload', () => {
+      expect(() => parser.parseInitiatePaymentResponse({
+        status: 200,
+        statusText: 'OK',
+        data: { statusCode: '409', status: 'failed', message: 'Duplicate invoice', paymentUrl: 42 }
+      })).toThrow(PayStationError);
+    });
+  });
+
+  describe('lenient mode', () => {
+    const parser = new ResponseParser('lenient');
+
+    it('should keep unknown fields under raw and drop invalid optional fields', async () => {
+      const result = await parser.parseTransactionStatusResponse(
+        statusResponse({ ...transaction, paymentMethod: 'NewWallet', settlementId: 'S-1' }, { traceId: 'abc' })
+      );
+
+      expect(result.raw).toEqual({ traceId: 'abc' });
+      expect(result.data?.raw).toEqual({ settlementId: 'S-1' });
+      expect(result.data).not.toHaveProperty('paymentMethod');
+    });
+
+    it('should still require the fields the SDK depends on', async () => {
+      await expect(parser.parseTransactionStatusResponse(
+        statusResponse({ ...transaction, transactionStatus: 'pending' })
+      )).rejects.toThrow(ResponseValidationError);
+    });
+  });
+
+  describe('error mapping', () => {
+    const parser = new ResponseParser();
+
+    it('should map PayStation messages to specific errors', () => {
+      expect(() => parser.parseInitiatePaymentResponse({
+        status: 200,
+        statusText: 'OK',
+        data: { statusCode: '400', status: 'failed', message: 'Invalid payment amount' }
+      })).toThrow(InvalidAmountError);
+
+      expect(() => parser.parseErrorResponse({
+        status: 403,
+        statusText: 'Forbidden',
+        data: { statusCode: '403', status: 'failed', message: 'Merchant is inactive' }
+      })).toThrow(MerchantDisabledError);
+
+      expect(createApiError('Duplicate invoice number', '409')).toBeInstanceOf(DuplicateInvoiceError);
+    });
+
+    it('should leave vague failures generic whatever their status code', () => {
+      for (const message of ['Customer already exists', 'Duplicate request, please try again', 'Payment failed']) {
+        const error = createApiError(message, '1004');
+        expect(error).not.toBeInstanceOf(DuplicateInvoiceError);
+        expect(error).toMatchObject({ code: 'PAYSTATION_ERROR', statusCode: '1004' });
+      }
+      expect(createApiError('Order not found', '1005').code).toBe('PAYSTATION_ERROR');
+    });
+
+    it('should attach retry hints and response context', () => {
+      let error: RateLimitedError | undefined;
+      try {
+        parser.parseErrorResponse({
+          status: 429,
+          statusText: 'Too Many Requests',
+          data: { message: 'Slow down' },
+          headers: { 'retry-after': '3', 'x-request-id': 'req-42' }
+        });
+      } catch (caught) {
+        error = caught as RateLimitedError;
+      }
+
+      expect(error).toBeInstanceOf(RateLimitedError);
+      expect(error).toMatchObject({ code: 'RATE_LIMITED', retryable: true, retryAfterMs: 3000, requestId: 'req-42' });
+    });
+
+    it('should redact contact details in toJSON()', () => {
+      const error = createApiError('Transaction not found', '404', {
+        httpStatus: 200,
+        response: { statusCode: '404', data: { payerMobileNumber: '01712345678' } }
+      });
+
+      expect(error).toBeInstanceOf(TransactionNotFoundError);
+      expect(JSON.parse(JSON.stringify(error))).toEqual({
+        name: 'TransactionNotFoundError',
+        code: 'TRANSACTION_NOT_FOUND',
+        message: 'Transaction not found',
+        statusCode: '404',
+        httpStatus: 200,
+        retryable: false,
+        response: { statusCode: '404', data: { payerMobileNumber: '********678' } }
+      });
+    });
+
+    it('should mark server errors as retryable', () => {
+      expect(() => parser.parseErrorResponse({ status: 503, statusText: 'Service Unavailable', data: '' }))
+        .toThrow(expect.objectContaining({ code: 'PAYSTATION_ERROR', retryable: true, statusCode: '503' }));
+    });
+  });
+});
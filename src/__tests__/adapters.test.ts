@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createInitiateHandler, createCallbackHandler } from '../adapters/web';
+import * as expressAdapter from '../adapters/express';
+import { CallbackVerificationError, ValidationError } from '../errors/index';
+import { ValidationIssue } from '../types/index';
+
+describe('Framework adapters', () => {
+  let sdk: any;
+
+  const verified = {
+    payload: { status: 'Successful', invoiceNumber: 'INV-001', transactionId: 'TXN1', raw: {} },
+    status: 'success',
+    transaction: { invoiceNumber: 'INV-001', transactionId: 'TXN1', transactionStatus: 'success' }
+  };
+
+  beforeEach(() => {
+    sdk = {
+      initiatePayment: vi.fn(),
+      parseCallback: vi.fn().mockReturnValue(verified.payload),
+      handleCallback: vi.fn()
+    };
+  });
+
+  describe('Web handlers', () => {
+    it('should redirect to the payment URL after initiation', async () => {
+      sdk.initiatePayment.mockResolvedValue({
+        status: 'success',
+        paymentUrl: 'https://sandbox.paystation.com.bd/checkout/abc'
+      });
+
+      const handler = createInitiateHandler({
+        sdk,
+        getPaymentParams: () => ({ invoiceNumber: 'INV-001' } as any)
+      });
+      const response = await handler(new Request('https://shop.test/pay', { method: 'POST' }));
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get('Location')).toBe('https://sandbox.paystation.com.bd/checkout/abc');
+    });
+
+    it('should respond with 400 when payment parameters are invalid', async () => {
+      sdk.initiatePayment.mockRejectedValue(new ValidationError('customerEmail must be a valid email address'));
+
+      const handler = createInitiateHandler({ sdk, getPaymentParams: () => ({} as any) });
+      const response = await handler(new Request('https://shop.test/pay'));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Invalid payment parameters' });
+    });
+
+    it('should not send upstream error messages to the client', async () => {
+      sdk.initiatePayment.mockRejectedValue(new Error('connect ECONNREFUSED 10.0.0.5:443'));
+
+      const handler = createInitiateHandler({ sdk, getPaymentParams: () => ({} as any) });
+      const response = await handler(new Request('https://shop.test/pay'));
+
+      expect(response.status).toBe(502);
+      expect(await response.json()).toEqual({ error: 'Payment could not be initiated' });
+    });
+
+    it('should list every invalid field in the 400 response', async () => {
+      const issues: ValidationIssue[] = [
+        { field: 'paymentAmount', code: 'too_small', message: 'paymentAmount must be greater than 0' },
+        { field: 'customerEmail', code: 'invalid_format', message: 'customerEmail must be a valid email address' }
+      ];
+      sdk.initiatePayment.mockRejectedValue(new ValidationError('Invalid payment parameters', 'paymentAmount', issues));
+
+      const handler = createInitiateHandler({ sdk, getPaymentParams: () => ({} as any) });
+      const response = await handler(new Request('https://shop.test/pay'));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Invalid payment parameters', issues });
+    });
+
+    it('should run the success hook with the verified callback', async () => {
+      sdk.handleCallback.mockResolvedValue(verified);
+      const onSuccess = vi.fn().mockReturnValue({ type: 'redirect', location: '/thank-you' });
+
+      const handler = createCallbackHandler({
+        sdk,
+        getExpectedAmount: () => 100,
+        onSuccess
+      });
+      const response = await handler(
+        new Request('https://shop.test/callback?status=Successful&invoice_number=INV-001&trx_id=TXN1')
+      );
+
+      expect(sdk.handleCallback.mock.calls[0][1]).toEqual({ expectedAmount: 100 });
+      expect(onSuccess).toHaveBeenCalledWith(verified, expect.any(Request));
+      expect(response.headers.get('Location')).toBe('/thank-you');
+    });
+
+    it('should report verification failures to the failure hook', async () => {
+      sdk.handleCallback.mockRejectedValue(
+        new CallbackVerificationError('Transaction ID mismatch', 'transaction_id_mismatch')
+      );
+      const onFailure = vi.fn();
+
+      const handler = createCallbackHandler({ sdk, onFailure });
+      const response = await handler(new Request('https://shop.test/callback?status=Successful'));
+
+      expect(onFailure.mock.calls[0][0].reason).toBe('verification_failed');
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Callback could not be verified' });
+    });
+
+    it('should let success hook errors propagate without calling the failure hook', async () => {
+      sdk.handleCallback.mockResolvedValue(verified);
+      const onSuccess = vi.fn().mockRejectedValue(new Error('Database unavailable'));
+      const onFailure = vi.fn();
+
+      const handler = createCallbackHandler({ sdk, onSuccess, onFailure });
+
+      await expect(
+        handler(new Request('https://shop.test/callback?status=Successful'))
+      ).rejects.toThrow('Database unavailable');
+      expect(onFailure).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Express handlers', () => {
+    it('should verify the callback from req.query', async () => {
+      sdk.handleCallback.mockResolvedValue({ ...verified, status: 'failed' });
+      const res = { status: vi.fn(), json: vi.fn(), redirect: vi.fn() };
+      res.status.mockReturnValue(res);
+
+      const handler = expressAdapter.createCallbackHandler({ sdk });
+      await handler({ query: { status: 'Failed', invoice_number: 'INV-001' } }, res);
+
+      expect(sdk.handleCallback.mock.calls[0][0]).toEqual({ status: 'Failed', invoice_number: 'INV-001' });
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json.mock.calls[0][0].status).toBe('failed');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PayStationSDK } from '../PayStationSDK';
+import { Environment, FetchLike } from '../types/index';
+import { CancelledError, TransactionNotFoundError, ValidationError } from '../errors/index';
+import { createMockPayStation, MockPayStation } from '../testing/index';
+
+describe('Batch transaction status lookups', () => {
+  let mock: MockPayStation;
+  let sdk: PayStationSDK;
+  let inFlight: number;
+  let maxInFlight: number;
+
+  const invoiceNumbers = ['INV-001', 'INV-002', 'INV-003', 'INV-004', 'INV-005', 'INV-006'];
+
+  beforeEach(async () => {
+    mock = createMockPayStation({ merchantId: 'test-merchant', password: 'test-password' });
+    inFlight = 0;
+    maxInFlight = 0;
+
+    const countingFetch: FetchLike = async (url, init) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      try {
+        return await mock.fetch(url, init);
+      } finally {
+        inFlight--;
+      }
+    };
+
+    sdk = new PayStationSDK({
+      merchantId: 'test-merchant',
+      password: 'test-password',
+      environment: Environment.SANDBOX,
+      fetch: countingFetch
+    });
+
+    for (const invoiceNumber of invoiceNumbers) {
+      await sdk.initiatePayment({
+        invoiceNumber,
+        paymentAmount: 100,
+        customerName: 'John Doe',
+        customerPhone: '01712345678',
+        customerEmail: 'john@example.com',
+        callbackUrl: 'https://shop.test/callback'
+      });
+    }
+    mock.completePayment('INV-002', 'success');
+    mock.calls.length = 0;
+  });
+
+  const lookups = () => mock.calls.filter((call) => call.endpoint === 'transaction-status').length;
+
+  it('should return a result per invoice in input order without stopping at failures', async () => {
+    mock.setLatency(5);
+
+    const results = await sdk.getTransactionStatuses(['INV-002', 'INV-404', 'INV-001', 'INV-002'], { concurrency: 2 });
+
+    expect(Array.from(results.keys())).toEqual(['INV-002', 'INV-404', 'INV-001']);
+    expect(lookups()).toBe(3);
+
+    const paid = results.get('INV-002')!;
+    expect(paid.ok && paid.response.data?.transactionStatus).toBe('success');
+
+    const missing = results.get('INV-404')!;
+    expect(missing.ok).toBe(false);
+    expect(!missing.ok && missing.error).toBeInstanceOf(TransactionNotFoundError);
+  });
+
+  it('should keep at most `concurrency` lookups in flight', async () => {
+    mock.setLatency(10);
+
+    await sdk.getTransactionStatuses(invoiceNumbers, { concurrency: 3 });
+
+    expect(lookups()).toBe(6);
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should start lookups no faster than the rate limit', async () => {
+    const started = Date.now();
+
+    await sdk.getTransactionStatuses(invoiceNumbers.slice(0, 4), { concurrency: 4, rateLimit: { limit: 2, intervalMs: 100 } });
+
+    // Two lookups go out in a burst, the other two wait for the bucket to refill
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+  });
+
+  it('should stream results from an async source and stop when the caller does', async () => {
+    let released = false;
+    async function* source() {
+      try {
+        yield* invoiceNumbers;
+      } finally {
+        released = true;
+      }
+    }
+
+    const seen: string[] = [];
+    for await (const result of sdk.streamTransactionStatuses(source(), { concurrency: 2 })) {
+      seen.push(result.invoiceNumber);
+      if (seen.length === 2) {
+        break;
+      }
+    }
+
+    expect(released).toBe(true);
+    expect(lookups()).toBeLessThan(invoiceNumbers.length);
+  });
+
+  it('should reject the whole batch when cancelled', async () => {
+    mock.setLatency(50);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(sdk.getTransactionStatuses(invoiceNumbers, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(CancelledError);
+  });
+
+  it('should reject invalid batch options', async () => {
+    await expect(sdk.getTransactionStatuses(invoiceNumbers, { concurrency: 0 })).rejects.toBeInstanceOf(ValidationError);
+    await expect(sdk.getTransactionStatuses(invoiceNumbers, { rateLimit: { limit: 0 } })).rejects.toThrow(/rateLimit.limit/);
+  });
+});
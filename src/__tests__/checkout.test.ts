@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PayStationSDK } from '../PayStationSDK';
+import { Environment, CheckoutItem } from '../types/index';
+import { ValidationError } from '../errors/index';
+import { Money } from '../money/index';
+import { serializeCheckoutItems, parseCheckoutItems, checkoutTotal } from '../checkout/index';
+import { validatePaymentParams } from '../request/index';
+import { createMockPayStation, MockPayStation } from '../testing/index';
+
+describe('Checkout items', () => {
+  const items: CheckoutItem[] = [
+    { name: 'T-shirt', sku: 'TS-1', quantity: 2, unitPrice: 250.5 },
+    { name: 'Mug', unitPrice: Money.of('120') },
+    { type: 'shipping', name: 'Delivery', unitPrice: 60 },
+    { type: 'discount', name: 'Coupon', unitPrice: 100 }
+  ];
+
+  const paymentParams = {
+    invoiceNumber: 'INV-001',
+    paymentAmount: 581,
+    customerName: 'John Doe',
+    customerPhone: '01712345678',
+    customerEmail: 'john@example.com',
+    callbackUrl: 'https://shop.test/callback',
+    checkoutItems: items
+  };
+
+  it('should serialize items with decimal-string prices and parse them back', () => {
+    const serialized = serializeCheckoutItems(items, 'BDT');
+
+    expect(JSON.parse(serialized)[0]).toEqual({
+      name: 'T-shirt',
+      sku: 'TS-1',
+      quantity: 2,
+      unit_price: '250.50',
+      total: '501.00'
+    });
+
+    const parsed = parseCheckoutItems(serialized)!;
+    expect(parsed.map((item) => [item.type, item.name, item.quantity, item.total.toDecimalString()])).toEqual([
+      ['item', 'T-shirt', 2, '501.00'],
+      ['item', 'Mug', 1, '120.00'],
+      ['shipping', 'Delivery', 1, '60.00'],
+      ['discount', 'Coupon', 1, '100.00']
+    ]);
+    expect(parsed[0].sku).toBe('TS-1');
+    expect(checkoutTotal(items, 'BDT').toDecimalString()).toBe('581.00');
+  });
+
+  it('should leave free-text checkout items unparsed', () => {
+    expect(parseCheckoutItems('Product A x1, Product B x2')).toBeUndefined();
+    expect(parseCheckoutItems('[not json')).toBeUndefined();
+    expect(parseCheckoutItems('[{"name":"Mug"}]')).toBeUndefined();
+  });
+
+  it('should report invalid lines and a total that does not match the amount', () => {
+    expect(validatePaymentParams({ ...paymentParams, paymentAmount: 600 })).toEqual([{
+      field: 'checkoutItems',
+      code: 'total_mismatch',
+      message: 'checkoutItems total 581.00 does not match paymentAmount 600.00'
+    }]);
+
+    const issues = validatePaymentParams({
+      ...paymentParams,
+      checkoutItems: [
+        { name: ' ', quantity: 1.5, unitPrice: -1 },
+        { type: 'gift', name: 'Card', unitPrice: Money.of(5, 'USD') }
+      ] as any
+    });
+    expect(issues.map((issue) => [issue.field, issue.code])).toEqual([
+      ['checkoutItems[0].name', 'empty'],
+      ['checkoutItems[0].quantity', 'invalid_value'],
+      ['checkoutItems[0].unitPrice', 'too_small'],
+      ['checkoutItems[1].type', 'invalid_enum'],
+      ['checkoutItems[1].unitPrice', 'currency_mismatch']
+    ]);
+  });
+
+  describe('SDK integration', () => {
+    let mock: MockPayStation;
+    let sdk: PayStationSDK;
+
+    beforeEach(() => {
+      mock = createMockPayStation({ merchantId: 'test-merchant', password: 'test-password' });
+      sdk = new PayStationSDK({
+        merchantId: 'test-merchant',
+        password: 'test-password',
+        environment: Environment.SANDBOX,
+        fetch: mock.fetch
+      });
+    });
+
+    it('should send structured items and read them back on status lookups', async () => {
+      await sdk.initiatePayment(paymentParams);
+
+      const status = await sdk.getTransactionStatus('INV-001');
+      expect(status.data?.checkoutItems).toBe(serializeCheckoutItems(items, 'BDT'));
+      expect(status.data?.items?.[1]).toMatchObject({ name: 'Mug', quantity: 1 });
+
+      const transaction = await sdk.getTransaction({ invoiceNumber: 'INV-001' });
+      expect(transaction.items).toHaveLength(4);
+    });
+
+    it('should not initiate a payment whose items do not add up', async () => {
+      await expect(sdk.initiatePayment({ ...paymentParams, paymentAmount: 500 })).rejects.toBeInstanceOf(ValidationError);
+      expect(mock.getTransaction('INV-001')).toBeUndefined();
+    });
+  });
+});
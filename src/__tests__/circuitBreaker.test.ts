@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HttpClient } from '../http/HttpClient';
+import { PayStationSDK } from '../PayStationSDK';
+import { CircuitBreaker } from '../circuit/index';
+import { CircuitOpenError, NetworkError, TransactionNotFoundError, ValidationError } from '../errors/index';
+import { CircuitStateChange, Environment, HttpRequest } from '../types/index';
+import { createMockPayStation, MockPayStation } from '../testing/index';
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' }
+  });
+
+const statusRequest: HttpRequest = {
+  url: 'https://sandbox.paystation.com.bd/api/transaction-status',
+  endpoint: 'transaction-status',
+  method: 'POST',
+  headers: {},
+  body: 'invoice_number=INV-001',
+  idempotent: true
+};
+
+describe('Circuit breaker', () => {
+  let now: number;
+  let changes: CircuitStateChange[];
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = Date.parse('2025-10-19T08:30:00.000Z');
+    changes = [];
+    breaker = new CircuitBreaker(
+      { failureThreshold: 2, cooldownMs: 1000, onStateChange: (change) => changes.push(change) },
+      () => now
+    );
+  });
+
+  const transitions = () => changes.map((change) => `${change.from}->${change.to}`);
+
+  it('should open after consecutive failures and fail fast until the cool-down ends', async () => {
+    const fetcher = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+    const client = new HttpClient(fetcher, { circuitBreaker: breaker });
+
+    await expect(client.request(statusRequest)).rejects.toBeInstanceOf(NetworkError);
+    await expect(client.request(statusRequest)).rejects.toBeInstanceOf(NetworkError);
+
+    now += 400;
+    const error = await client.request(statusRequest).catch((caught) => caught);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ code: 'CIRCUIT_OPEN', endpoint: 'transaction-status', retryAfterMs: 600, retryable: true });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    expect(changes).toEqual([{
+      endpoint: 'transaction-status',
+      from: 'closed',
+      to: 'open',
+      failures: 2,
+      at: new Date('2025-10-19T08:30:00.000Z')
+    }]);
+    expect(breaker.health()).toMatchObject({
+      healthy: false,
+      circuitBreaker: true,
+      endpoints: {
+        'transaction-status': { state: 'open', failures: 2, retryAt: new Date('2025-10-19T08:30:01.000Z') },
+        'initiate-payment': { state: 'closed', failures: 0, openedAt: null, retryAt: null }
+      }
+    });
+  });
+
+  it('should close after a successful trial request', async () => {
+    const fetcher = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(503, { message: 'Service Unavailable' }))
+      .mockResolvedValueOnce(jsonResponse(502, { message: 'Bad Gateway' }))
+      .mockImplementation(async () => jsonResponse(200, { status: 'success' }));
+    const client = new HttpClient(fetcher, { circuitBreaker: breaker });
+
+    await client.request(statusRequest);
+    await client.request(statusRequest);
+
+    now += 1000;
+    expect(breaker.health().endpoints['transaction-status'].state).toBe('half-open');
+
+    const response = await client.request(statusRequest);
+    expect(response.status).toBe(200);
+    expect(transitions()).toEqual(['closed->open', 'open->half-open', 'half-open->closed']);
+    expect(breaker.health().healthy).toBe(true);
+  });
+
+  it('should let one trial through while half-open and reopen when it fails', async () => {
+    let failTrial!: (error: Error) => void;
+    const fetcher = vi.fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockImplementationOnce(() => new Promise((_resolve, reject) => { failTrial = reject; }));
+    const client = new HttpClient(fetcher, { circuitBreaker: breaker });
+
+    await client.request(statusRequest).catch(() => undefined);
+    await client.request(statusRequest).catch(() => undefined);
+    now += 1000;
+
+    const trial = client.request(statusRequest);
+    await expect(client.request(statusRequest)).rejects.toThrow(/half-open and waiting for trial requests/);
+
+    failTrial(new TypeError('fetch failed'));
+    await expect(trial).rejects.toBeInstanceOf(NetworkError);
+
+    expect(transitions()).toEqual(['closed->open', 'open->half-open', 'half-open->open']);
+    expect(fetcher).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not count cancelled requests or a failing listener against the request', async () => {
+    const throwing = new CircuitBreaker({
+      failureThreshold: 1,
+      onStateChange: () => {
+        throw new Error('alerting is down');
+      }
+    });
+    const controller = new AbortController();
+    const client = new HttpClient(
+      vi.fn().mockImplementation(() => new Promise(() => undefined)),
+      { circuitBreaker: throwing }
+    );
+
+    const pending = client.request({ ...statusRequest, signal: controller.signal });
+    controller.abort();
+    await pending.catch(() => undefined);
+    expect(throwing.health().healthy).toBe(true);
+
+    const timingOut = new HttpClient(vi.fn().mockImplementation(() => new Promise(() => undefined)), {
+      circuitBreaker: throwing,
+      timeoutMs: 10
+    });
+    await expect(timingOut.request(statusRequest)).rejects.toBeInstanceOf(NetworkError);
+    expect(throwing.health().endpoints['transaction-status'].state).toBe('open');
+  });
+
+  describe('SDK', () => {
+    let mock: MockPayStation;
+    const base = { merchantId: 'test-merchant', password: 'test-password', environment: Environment.SANDBOX };
+
+    beforeEach(() => {
+      mock = createMockPayStation({ merchantId: 'test-merchant', password: 'test-password' });
+    });
+
+    it('should count 5xx responses but not PayStation errors, per endpoint', async () => {
+      const sdk = new PayStationSDK({ ...base, fetch: mock.fetch, circuitBreaker: { failureThreshold: 2 } });
+
+      await expect(sdk.getTransactionStatus('INV-404')).rejects.toBeInstanceOf(TransactionNotFoundError);
+      await expect(sdk.getTransactionStatus('INV-404')).rejects.toBeInstanceOf(TransactionNotFoundError);
+      expect(sdk.health().healthy).toBe(true);
+
+      mock.failNext({ type: 'http', status: 500 }, { endpoint: 'transaction-status', times: 2 });
+      await sdk.getTransactionStatus('INV-404').catch(() => undefined);
+      await sdk.getTransactionStatus('INV-404').catch(() => undefined);
+
+      await expect(sdk.getTransactionStatus('INV-404')).rejects.toBeInstanceOf(CircuitOpenError);
+      await expect(sdk.getTransactionStatusById('TRX-404')).rejects.toBeInstanceOf(TransactionNotFoundError);
+      expect(sdk.health().endpoints).toMatchObject({
+        'transaction-status': { state: 'open' },
+        'v2/transaction-status': { state: 'closed' }
+      });
+    });
+
+    it('should report every circuit closed without a circuit breaker and reject invalid configuration', () => {
+      const health = new PayStationSDK(base).health();
+      expect(health.healthy).toBe(true);
+      expect(health.circuitBreaker).toBe(false);
+      expect(Object.keys(health.endpoints)).toHaveLength(5);
+
+      expect(() => new PayStationSDK({ ...base, circuitBreaker: { failureThreshold: 0 } }))
+        .toThrow(/circuitBreaker.failureThreshold/);
+      expect(() => new PayStationSDK({ ...base, circuitBreaker: { cooldownMs: -1 } })).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { InvoiceNumber } from '../invoice/index';
+import { ValidationError } from '../errors/index';
+import { validatePaymentParams } from '../request/index';
+
+describe('InvoiceNumber', () => {
+  const date = new Date('2025-10-19T08:30:15.123Z');
+
+  it('should generate sortable timestamp and ULID numbers', () => {
+    const invoiceNumber = InvoiceNumber.generate({ date });
+    expect(invoiceNumber).toMatch(/^INV-20251019083015123-[0-9A-HJKMNP-TV-Z]{6}$/);
+    expect(InvoiceNumber.generate({ prefix: 'SHOP', randomLength: 10, date })).toMatch(/^SHOP-20251019083015123-\w{10}$/);
+
+    const ulid = InvoiceNumber.generate({ format: 'ulid', prefix: '', date });
+    expect(ulid).toMatch(/^01K7XSEDJK[0-9A-HJKMNP-TV-Z]{16}$/);
+    expect(InvoiceNumber.ulid(new Date(date.getTime() + 1)) > ulid).toBe(true);
+
+    const generated = new Set(Array.from({ length: 1000 }, () => InvoiceNumber.generate({ randomLength: 10, date })));
+    expect(generated.size).toBe(1000);
+  });
+
+  it('should reject invalid generation options', () => {
+    expect(() => InvoiceNumber.generate({ prefix: 'INV/2025' })).toThrow(ValidationError);
+    expect(() => InvoiceNumber.generate({ randomLength: 0 })).toThrow(/randomLength/);
+    expect(() => InvoiceNumber.generate({ prefix: 'P'.repeat(30) })).toThrow(/limit is 50/);
+  });
+
+  it('should embed a check character that catches typos', () => {
+    expect(InvoiceNumber.withChecksum('A12425GABC1234002')).toBe('A12425GABC1234002M');
+
+    const invoiceNumber = InvoiceNumber.generate({ checksum: true, date });
+    expect(InvoiceNumber.hasValidChecksum(invoiceNumber)).toBe(true);
+    expect(InvoiceNumber.hasValidChecksum(invoiceNumber.toLowerCase())).toBe(true);
+
+    const mistyped = invoiceNumber.replace('2025', '2052');
+    expect(InvoiceNumber.hasValidChecksum(mistyped)).toBe(false);
+    expect(InvoiceNumber.validate(mistyped, { checksum: true })).toEqual([expect.objectContaining({
+      field: 'invoiceNumber',
+      code: 'invalid_value'
+    })]);
+  });
+
+  it('should validate length and characters before a payment is initiated when strict', () => {
+    expect(InvoiceNumber.isValid('INV-001')).toBe(true);
+    expect(InvoiceNumber.validate(`INV/${'0'.repeat(50)}`).map((issue) => issue.code)).toEqual(['too_long', 'invalid_format']);
+
+    const params = {
+      invoiceNumber: 'INV 001',
+      paymentAmount: 100,
+      customerName: 'John Doe',
+      customerPhone: '01712345678',
+      customerEmail: 'john@example.com',
+      callbackUrl: 'https://shop.test/callback'
+    };
+    expect(validatePaymentParams(params, { strictInvoiceNumbers: true })).toEqual([{
+      field: 'invoiceNumber',
+      code: 'invalid_format',
+      message: "invoiceNumber may only contain letters, digits, '-' and '_'"
+    }]);
+    expect(validatePaymentParams({ ...params, invoiceNumber: 'INV/2025.001' })).toEqual([]);
+  });
+});
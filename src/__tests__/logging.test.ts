@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PayStationSDK } from '../PayStationSDK';
+import { Environment, Transport } from '../types/index';
+import { redactRequest, fromPino } from '../logging/index';
+
+describe('Logging', () => {
+  const paymentParams = {
+    invoiceNumber: 'INV-001',
+    paymentAmount: 100,
+    customerName: 'John Doe',
+    customerPhone: '01712345678',
+    customerEmail: 'john@example.com',
+    callbackUrl: 'https://example.com/callback'
+  };
+
+  const createLogger = () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  });
+
+  const transport: Transport = {
+    send: vi.fn().mockResolvedValue({
+      status: 200,
+      statusText: 'OK',
+      data: { statusCode: '200', status: 'success', message: 'ok', paymentUrl: 'https://pay.test/1' }
+    })
+  };
+
+  it('should log endpoint, duration and status codes for each call', async () => {
+    const logger = createLogger();
+    const sdk = new PayStationSDK({
+      merchantId: 'test-merchant',
+      password: 'test-password',
+      environment: Environment.SANDBOX,
+      transport,
+      logger
+    });
+
+    await sdk.initiatePayment(paymentParams);
+
+    expect(logger.debug).not.toHaveBeenCalled();
+    expect(logger.info).toHaveBeenCalledWith('PayStation response', expect.objectContaining({
+      endpoint: 'initiate-payment',
+      httpStatus: 200,
+      statusCode: '200',
+      durationMs: expect.any(Number)
+    }));
+  });
+
+  it('should never log the password, email or phone in clear text', async () => {
+    const logger = createLogger();
+    const sdk = new PayStationSDK({
+      merchantId: 'test-merchant',
+      password: 'test-password',
+      environment: Environment.SANDBOX,
+      transport,
+      logger,
+      logLevel: 'debug'
+    });
+
+    await sdk.initiatePayment(paymentParams);
+
+    const logged = JSON.stringify([logger.debug.mock.calls, logger.info.mock.calls]);
+    expect(logged).not.toContain('test-password');
+    expect(logged).not.toContain('john@example.com');
+    expect(logged).not.toContain('01712345678');
+    expect(logged).toContain('j***@example.com');
+  });
+
+  it('should redact request bodies for custom middleware', () => {
+    const body = new URLSearchParams({
+      merchant_id: 'test-merchant',
+      password: 'secret',
+      customer_phone: '01712345678'
+    });
+
+    const redacted = redactRequest({ url: 'https://x.test', method: 'POST', headers: {}, body });
+
+    expect(redacted.body).toEqual({
+      merchant_id: 'test-merchant',
+      password: '[REDACTED]',
+      customer_phone: '********678'
+    });
+  });
+
+  it('should pass the context first to pino loggers', async () => {
+    const pino = createLogger();
+    const sdk = new PayStationSDK({
+      merchantId: 'test-merchant',
+      password: 'test-password',
+      environment: Environment.SANDBOX,
+      transport,
+      logger: fromPino(pino)
+    });
+
+    await sdk.initiatePayment(paymentParams);
+
+    const [context, message] = pino.info.mock.calls[0];
+    expect(message).toBe('PayStation response');
+    expect(context).toMatchObject({ endpoint: 'initiate-payment', httpStatus: 200 });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createHmac } from 'node:crypto';
+import { PayStationSDK } from '../PayStationSDK';
+import { Environment } from '../types/index';
+import { ValidationError, ResponseValidationError, CallbackVerificationError } from '../errors/index';
+import { MetadataCodec } from '../metadata/index';
+import { validatePaymentParams } from '../request/index';
+import { createMockPayStation, MockPayStation } from '../testing/index';
+
+interface OrderMetadata {
+  orderId: string;
+  tenantId: number;
+  cartIds?: string[];
+}
+
+describe('Payment metadata', () => {
+  const metadata: OrderMetadata = { orderId: 'ORD-42', tenantId: 7, cartIds: ['c-1', 'c-2'] };
+
+  const paymentParams = {
+    invoiceNumber: 'INV-001',
+    paymentAmount: 100,
+    customerName: 'John Doe',
+    customerPhone: '01712345678',
+    customerEmail: 'john@example.com',
+    callbackUrl: 'https://shop.test/callback',
+    metadata
+  };
+
+  it('should round-trip compact and JSON encodings', async () => {
+    const compact = new MetadataCodec();
+    const packed = await compact.pack(metadata);
+    expect(packed.optA).toMatch(/^m1\.[\w-]+$/);
+    expect(packed.optB).toBeUndefined();
+    expect(await compact.unpack(packed)).toEqual(metadata);
+
+    const json = new MetadataCodec({ encoding: 'json' });
+    expect(await json.pack(metadata)).toEqual({ optA: JSON.stringify(metadata) });
+    expect(await json.unpack(await json.pack(metadata))).toEqual(metadata);
+  });
+
+  it('should split long metadata across the fields and reject metadata that does not fit', async () => {
+    const codec = new MetadataCodec({ encoding: 'json' });
+    const packed = await codec.pack({ note: 'x'.repeat(400) });
+    expect(packed.optA).toHaveLength(MetadataCodec.FIELD_LENGTH);
+    expect(packed.optC).toBeUndefined();
+    expect(await codec.unpack(packed)).toEqual({ note: 'x'.repeat(400) });
+
+    await expect(codec.pack({ note: 'x'.repeat(800) })).rejects.toThrow(/the limit is 765/);
+    // The signature counts against the limit too
+    expect(() => new MetadataCodec({ encoding: 'json', secret: 'metadata-secret' }).check({ note: 'x'.repeat(740) }))
+      .toThrow(/metadata is 795 characters/);
+  });
+
+  it('should ignore pass-through values that are not packed metadata', async () => {
+    const codec = new MetadataCodec();
+    expect(await codec.unpack({ optA: 'order-42' })).toBeUndefined();
+    expect(await codec.unpack({})).toBeUndefined();
+  });
+
+  it('should sign with HMAC-SHA256 and detect tampering', async () => {
+    const codec = new MetadataCodec({ secret: 'metadata-secret' });
+    const packed = await codec.pack(metadata);
+    expect(await codec.unpack(packed)).toEqual(metadata);
+
+    const [payload, signature] = packed.optA!.split(/\.(?=[^.]*$)/);
+    expect(signature).toBe(createHmac('sha256', 'metadata-secret').update(payload).digest('base64url'));
+
+    const forged = await new MetadataCodec().pack({ ...metadata, tenantId: 8 });
+    await expect(codec.unpack(forged)).rejects.toThrow(ValidationError);
+    await expect(codec.unpack({ optA: `${payload}.${signature.slice(0, -2)}` })).rejects.toThrow(/signature/);
+    await expect(new MetadataCodec({ secret: 'other-secret' }).unpack(packed)).rejects.toThrow(/signature/);
+    expect(codec.read(forged)).toEqual({ ...metadata, tenantId: 8 });
+  });
+
+  it('should report oversized metadata and conflicting pass-through fields', () => {
+    const issues = validatePaymentParams({
+      ...paymentParams,
+      optA: 'legacy',
+      metadata: { note: 'x'.repeat(800) }
+    });
+    expect(issues.map((issue) => [issue.field, issue.code])).toEqual([
+      ['optA', 'conflict'],
+      ['metadata', 'too_long']
+    ]);
+  });
+
+  describe('SDK integration', () => {
+    let mock: MockPayStation;
+    let sdk: PayStationSDK<OrderMetadata>;
+
+    beforeEach(() => {
+      mock = createMockPayStation({ merchantId: 'test-merchant', password: 'test-password' });
+      sdk = new PayStationSDK<OrderMetadata>({
+        merchantId: 'test-merchant',
+        password: 'test-password',
+        environment: Environment.SANDBOX,
+        fetch: mock.fetch,
+        metadata: { secret: 'metadata-secret' }
+      });
+    });
+
+    it('should decode typed metadata from status lookups and callbacks', async () => {
+      await sdk.initiatePayment(paymentParams);
+      expect(mock.getTransaction('INV-001')?.optA).toMatch(/^m1\./);
+
+      const transaction = await sdk.getTransaction({ invoiceNumber: 'INV-001' });
+      const orderId: string | undefined = transaction.metadata?.orderId;
+      expect(orderId).toBe('ORD-42');
+
+      const result = await sdk.handleCallback(mock.completePayment('INV-001', 'success'));
+      expect(result.payload.metadata).toEqual(metadata);
+      expect(result.transaction.metadata).toEqual(metadata);
+    });
+
+    it('should reject metadata altered in a callback or status response', async () => {
+      await sdk.initiatePayment(paymentParams);
+      const callbackUrl = new URL(mock.completePayment('INV-001', 'success'));
+      const forged = await new MetadataCodec().pack({ ...metadata, orderId: 'ORD-1' });
+
+      callbackUrl.searchParams.set('opt_a', forged.optA!);
+      // parseCallback decodes it unverified; handleCallback compares it with the status response
+      expect(sdk.parseCallback(callbackUrl).metadata?.orderId).toBe('ORD-1');
+      await expect(sdk.handleCallback(callbackUrl)).rejects.toThrow(
+        expect.objectContaining({ name: 'CallbackVerificationError', reason: 'metadata_mismatch' })
+      );
+      await expect(sdk.handleCallback(callbackUrl)).rejects.toBeInstanceOf(CallbackVerificationError);
+
+      mock.getTransaction('INV-001')!.optA = forged.optA;
+      await expect(sdk.getTransactionStatus('INV-001')).rejects.toBeInstanceOf(ResponseValidationError);
+    });
+
+    it('should reject unsigned callback metadata that differs from the status response', async () => {
+      const unsigned = new PayStationSDK<OrderMetadata>({
+        merchantId: 'test-merchant',
+        password: 'test-password',
+        environment: Environment.SANDBOX,
+        fetch: mock.fetch
+      });
+      await unsigned.initiatePayment(paymentParams);
+      const callbackUrl = new URL(mock.completePayment('INV-001', 'success'));
+
+      const result = await unsigned.handleCallback(callbackUrl);
+      expect(result.payload.metadata).toEqual(metadata);
+
+      const forged = await new MetadataCodec().pack({ ...metadata, tenantId: 8 });
+      callbackUrl.searchParams.set('opt_a', forged.optA!);
+      await expect(unsigned.handleCallback(callbackUrl)).rejects.toThrow(
+        expect.objectContaining({ reason: 'metadata_mismatch' })
+      );
+
+      // Metadata the transaction never had is rejected too
+      mock.getTransaction('INV-001')!.optA = undefined;
+      await expect(unsigned.handleCallback(callbackUrl)).rejects.toThrow(/Metadata mismatch/);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PayStationSDK } from '../PayStationSDK';
+import { Environment, PayStationConfig } from '../types/index';
+import { ValidationError } from '../errors/index';
+import { parsePhoneNumber, normalizePhoneNumber } from '../utils/index';
+
+// Mock the HTTP client to avoid real API calls
+vi.mock('../http/HttpClient', () => ({
+  HttpClient: vi.fn().mockImplementation(() => ({
+    request: vi.fn()
+  }))
+}));
+
+describe('Phone numbers', () => {
+  it('should normalize Bangladeshi mobile numbers to E.164', () => {
+    for (const input of ['01712345678', '8801712345678', '+8801712345678', '+880 1712-345678', '0171 234 5678', '008801712345678']) {
+      expect(normalizePhoneNumber(input)).toBe('+8801712345678');
+    }
+  });
+
+  it('should detect the operator from the prefix', () => {
+    expect(parsePhoneNumber('01312345678')?.operator).toBe('grameenphone');
+    expect(parsePhoneNumber('01912345678')?.operator).toBe('banglalink');
+    expect(parsePhoneNumber('01512345678')?.operator).toBe('teletalk');
+    expect(parsePhoneNumber('+8801612345678')).toEqual({
+      e164: '+8801612345678',
+      national: '01612345678',
+      operator: 'robi',
+      international: false
+    });
+  });
+
+  it('should reject numbers that are not Bangladeshi mobile numbers', () => {
+    for (const input of ['01234567890', '0171234567', '017123456789', '+88021234567', '1712345678', 'phone', '+447911123456']) {
+      expect(parsePhoneNumber(input)).toBeUndefined();
+    }
+    expect(() => normalizePhoneNumber('01234567890')).toThrow(ValidationError);
+  });
+
+  it('should accept international numbers only when allowed', () => {
+    expect(parsePhoneNumber('+44 7911 123456', { allowInternational: true })).toEqual({
+      e164: '+447911123456',
+      international: true
+    });
+    expect(parsePhoneNumber('07911123456', { allowInternational: true })).toBeUndefined();
+    expect(parsePhoneNumber('+8801234567890', { allowInternational: true })).toBeUndefined();
+  });
+
+  describe('SDK integration', () => {
+    let mockHttpClient: any;
+
+    const paymentParams = {
+      invoiceNumber: 'INV-001',
+      paymentAmount: 100,
+      customerName: 'John Doe',
+      customerPhone: '017-1234-5678',
+      customerEmail: 'john@example.com',
+      callbackUrl: 'https://example.com/callback'
+    };
+
+    const createSdk = (overrides: Partial<PayStationConfig> = {}) => {
+      const sdk = new PayStationSDK({
+        merchantId: 'test-merchant',
+        password: 'test-password',
+        environment: Environment.SANDBOX,
+        ...overrides
+      });
+      mockHttpClient = (sdk as any).httpClient;
+      mockHttpClient.request.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        data: {
+          statusCode: '200',
+          status: 'success',
+          message: 'Payment initiated successfully',
+          invoiceNumber: 'INV-001',
+          paymentUrl: 'https://sandbox.paystation.com.bd/checkout/payment-url'
+        }
+      });
+      return sdk;
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('should send the customer phone in E.164 format', async () => {
+      await createSdk().initiatePayment(paymentParams);
+
+      const body = mockHttpClient.request.mock.calls[0][0].body as URLSearchParams;
+      expect(body.get('customer_phone')).toBe('+8801712345678');
+    });
+
+    it('should reject invalid and international numbers by default', async () => {
+      const sdk = createSdk();
+
+      expect(sdk.validatePaymentParams({ ...paymentParams, customerPhone: '+447911123456' })).toEqual([{
+        field: 'customerPhone',
+        code: 'invalid_format',
+        message: 'customerPhone must be a Bangladeshi mobile number such as 01712345678'
+      }]);
+      await expect(sdk.initiatePayment({ ...paymentParams, customerPhone: '12345' })).rejects.toBeInstanceOf(ValidationError);
+      expect(mockHttpClient.request).not.toHaveBeenCalled();
+    });
+
+    it('should accept international numbers with allowInternationalPhone', async () => {
+      await createSdk({ allowInternationalPhone: true }).initiatePayment({ ...paymentParams, customerPhone: '+1 (415) 555-2671' });
+
+      const body = mockHttpClient.request.mock.calls[0][0].body as URLSearchParams;
+      expect(body.get('customer_phone')).toBe('+14155552671');
+    });
+  });
+});
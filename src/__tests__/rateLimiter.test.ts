@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HttpClient } from '../http/HttpClient';
+import { RetryPolicy } from '../http/RetryPolicy';
+import { PayStationSDK } from '../PayStationSDK';
+import { RateLimiter, MemoryRateLimitStore } from '../ratelimit/index';
+import { CancelledError, RateLimitedError, ValidationError } from '../errors/index';
+import { Environment, HttpRequest } from '../types/index';
+import { createMockPayStation } from '../testing/index';
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers }
+  });
+
+const statusRequest: HttpRequest = {
+  url: 'https://sandbox.paystation.com.bd/api/transaction-status',
+  endpoint: 'transaction-status',
+  method: 'POST',
+  headers: {},
+  body: 'invoice_number=INV-001',
+  idempotent: true
+};
+
+const initiateRequest: HttpRequest = {
+  ...statusRequest,
+  url: 'https://sandbox.paystation.com.bd/api/initiate-payment',
+  endpoint: 'initiate-payment',
+  idempotent: false
+};
+
+describe('Rate limiting', () => {
+  const ok = () => vi.fn().mockImplementation(async () => jsonResponse(200, { status: 'success' }));
+
+  it('should hold requests back per endpoint', async () => {
+    const client = new HttpClient(ok(), {
+      rateLimiter: new RateLimiter({ endpoints: { 'transaction-status': { limit: 2, intervalMs: 100 } } })
+    });
+
+    const started = Date.now();
+    await Promise.all([1, 2, 3].map(() => client.request(initiateRequest)));
+    expect(Date.now() - started).toBeLessThan(50);
+
+    await Promise.all([1, 2, 3, 4].map(() => client.request(statusRequest)));
+    // Two requests go out in a burst, the other two wait for the bucket to refill
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+  });
+
+  it('should fail at once when the queue is full and release cancelled requests', async () => {
+    const fetcher = ok();
+    const client = new HttpClient(fetcher, {
+      rateLimiter: new RateLimiter({ limit: 1, intervalMs: 1000, maxQueueSize: 1 })
+    });
+    const controller = new AbortController();
+
+    await client.request(statusRequest);
+    const queued = client.request({ ...statusRequest, signal: controller.signal });
+
+    await expect(client.request(statusRequest)).rejects.toThrow(/queue for transaction-status is full/);
+
+    controller.abort();
+    await expect(queued).rejects.toBeInstanceOf(CancelledError);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only count requests that wait for a token against the queue', async () => {
+    const fetcher = ok();
+    const client = new HttpClient(fetcher, {
+      rateLimiter: new RateLimiter({ limit: 10, intervalMs: 1000, maxQueueSize: 1 })
+    });
+
+    await Promise.all([1, 2, 3].map(() => client.request(statusRequest)));
+    expect(fetcher).toHaveBeenCalledTimes(3);
+  });
+
+  it('should never wait with a queue size of 0', async () => {
+    const fetcher = ok();
+    const client = new HttpClient(fetcher, {
+      rateLimiter: new RateLimiter({ limit: 2, intervalMs: 1000, maxQueueSize: 0 })
+    });
+
+    await Promise.all([client.request(statusRequest), client.request(statusRequest)]);
+    await expect(client.request(statusRequest)).rejects.toThrow(/queue for transaction-status is full \(0 requests waiting\)/);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail requests that would wait longer than maxWaitMs', async () => {
+    const client = new HttpClient(ok(), {
+      rateLimiter: new RateLimiter({ limit: 1, intervalMs: 1000, maxWaitMs: 50 })
+    });
+
+    await client.request(statusRequest);
+    const error = await client.request(statusRequest).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect(error.message).toBe('Rate limit for transaction-status would hold the request back longer than 50ms');
+  });
+
+  it('should pause the endpoint for the Retry-After delay of a 429', async () => {
+    const fetcher = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(429, { message: 'Too many requests' }, { 'retry-after': '0.1' }))
+      .mockImplementation(async () => jsonResponse(200, { status: 'success' }));
+    const client = new HttpClient(fetcher, { rateLimiter: new RateLimiter({}) });
+
+    const throttled = await client.request(statusRequest);
+    expect(throttled.status).toBe(429);
+
+    const started = Date.now();
+    await client.request(initiateRequest);
+    expect(Date.now() - started).toBeLessThan(50);
+
+    await client.request(statusRequest);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+  });
+
+  it('should retry after the Retry-After delay when 429 is retryable', async () => {
+    const fetcher = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(429, { message: 'Too many requests' }, { 'retry-after': '0.05' }))
+      .mockResolvedValueOnce(jsonResponse(429, { message: 'Too many requests' }, { 'retry-after': '60' }))
+      .mockImplementation(async () => jsonResponse(200, { status: 'success' }));
+    const client = new HttpClient(fetcher, {
+      retryPolicy: new RetryPolicy({ maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 1000, retryableStatusCodes: [429] })
+    });
+
+    const started = Date.now();
+    const response = await client.request(statusRequest);
+
+    // The second Retry-After exceeds maxDelayMs, so the 429 is returned instead of waiting a minute
+    expect(response.status).toBe(429);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+  });
+
+  it('should share limits between SDK instances using the same store', async () => {
+    const mock = createMockPayStation({ merchantId: 'test-merchant', password: 'test-password' });
+    const config = {
+      merchantId: 'test-merchant',
+      password: 'test-password',
+      environment: Environment.SANDBOX,
+      fetch: mock.fetch,
+      rateLimit: { endpoints: { 'transaction-status': { limit: 1, intervalMs: 100 } }, store: new MemoryRateLimitStore() }
+    };
+    const first = new PayStationSDK(config);
+    const second = new PayStationSDK(config);
+
+    const started = Date.now();
+    await expect(first.getTransactionStatus('INV-404')).rejects.toThrow();
+    await expect(second.getTransactionStatus('INV-404')).rejects.toThrow();
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+  });
+
+  it('should reject invalid rate limit configuration', () => {
+    const base = { merchantId: 'test-merchant', password: 'test-password', environment: Environment.SANDBOX };
+
+    expect(() => new PayStationSDK({ ...base, rateLimit: { endpoints: { refund: { limit: 0 } } } }))
+      .toThrow(/rateLimit.endpoints.refund.limit/);
+    expect(() => new PayStationSDK({ ...base, rateLimit: { intervalMs: 1000 } })).toThrow(ValidationError);
+    expect(() => new PayStationSDK({ ...base, rateLimit: { maxQueueSize: -1 } })).toThrow(/rateLimit.maxQueueSize/);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PayStationSDK } from '../PayStationSDK';
+import { Environment, ReconciliationOrder } from '../types/index';
+import { TransactionNotFoundError, ValidationError } from '../errors/index';
+import { Money } from '../money/index';
+import { Reconciler, ReconciliationReport } from '../reconciliation/index';
+import { createMockPayStation, MockPayStation } from '../testing/index';
+
+describe('Reconciler', () => {
+  let mock: MockPayStation;
+  let reconciler: Reconciler;
+
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    mock = createMockPayStation({ merchantId: 'test-merchant', password: 'test-password' });
+    const sdk = new PayStationSDK({
+      merchantId: 'test-merchant',
+      password: 'test-password',
+      environment: Environment.SANDBOX,
+      fetch: mock.fetch
+    });
+    reconciler = new Reconciler(sdk);
+
+    for (const invoiceNumber of ['INV-001', 'INV-002', 'INV-003', 'INV-004', 'INV-005']) {
+      await sdk.initiatePayment({
+        invoiceNumber,
+        paymentAmount: 100,
+        customerName: 'John Doe',
+        customerPhone: '01712345678',
+        customerEmail: 'john@example.com',
+        callbackUrl: 'https://shop.test/callback'
+      });
+    }
+    mock.completePayment('INV-001', 'success');
+    mock.completePayment('INV-002', 'success');
+    mock.completePayment('INV-003', 'failed');
+    mock.calls.length = 0;
+  });
+
+  it('should classify every order against PayStation', async () => {
+    mock.getTransaction('INV-002')!.paymentAmount = '90';
+
+    const report = await reconciler.reconcile([
+      { invoiceNumber: 'INV-001', expectedAmount: 100, expectedStatus: 'success' },
+      { invoiceNumber: 'INV-002', expectedAmount: Money.of('100'), expectedStatus: 'success' },
+      { invoiceNumber: 'INV-003', expectedAmount: 100, expectedStatus: 'success' },
+      { invoiceNumber: 'INV-404', expectedAmount: 100, expectedStatus: 'success' },
+      { invoiceNumber: 'INV-004', expectedAmount: 100, expectedStatus: 'processing' },
+      { invoiceNumber: 'INV-005', expectedAmount: 100, expectedStatus: 'processing', createdAt: hoursFromNow(1.5) }
+    ], { now: hoursFromNow(2) });
+
+    expect(report.entries.map((entry) => [entry.invoiceNumber, entry.outcome, entry.message])).toEqual([
+      ['INV-001', 'matched', 'Status and amount match'],
+      ['INV-002', 'amount_mismatch', 'Expected 100.00 BDT, PayStation has 90.00 BDT'],
+      ['INV-003', 'status_mismatch', 'Expected status success, PayStation has failed'],
+      ['INV-404', 'missing', 'PayStation has no transaction for this invoice'],
+      ['INV-004', 'stale_processing', 'Payment still processing after 120 minutes'],
+      ['INV-005', 'matched', 'Status and amount match']
+    ]);
+    expect(report.byOutcome('missing')[0].error).toBeInstanceOf(TransactionNotFoundError);
+    expect(report.summary).toEqual({
+      matched: 2,
+      amount_mismatch: 1,
+      status_mismatch: 1,
+      missing: 1,
+      stale_processing: 1,
+      lookup_failed: 0
+    });
+    expect(report.discrepancies).toHaveLength(4);
+  });
+
+  it('should look orders with a transaction ID up on the v2 endpoint and compare captured amounts', async () => {
+    const paid = mock.getTransaction('INV-001')!;
+
+    let report = await reconciler.reconcile([
+      { invoiceNumber: 'INV-001', transactionId: paid.transactionId, expectedAmount: 100, expectedStatus: 'success' }
+    ]);
+    expect(mock.calls.map((call) => call.endpoint)).toEqual(['v2/transaction-status']);
+    expect(report.entries[0]).toMatchObject({ outcome: 'matched', transactionId: paid.transactionId });
+
+    // The v2 endpoint reports the captured amount as a number and the requested one as a string
+    paid.paymentAmount = '100.5';
+    report = await reconciler.reconcile([
+      { invoiceNumber: 'INV-001', transactionId: paid.transactionId, expectedAmount: 100.5, expectedStatus: 'success' }
+    ]);
+    expect(report.entries[0].outcome).toBe('matched');
+    expect(report.entries[0].actualAmount?.equals(Money.of('100.50'))).toBe(true);
+  });
+
+  it('should report failed lookups without stopping the run', async () => {
+    mock.failNext({ type: 'http', status: 500, message: 'Internal error' }, { endpoint: 'transaction-status' });
+
+    const report = await reconciler.reconcile([
+      { invoiceNumber: 'INV-001', expectedAmount: 100, expectedStatus: 'success' },
+      { invoiceNumber: 'INV-002', expectedAmount: 100, expectedStatus: 'success' }
+    ], { concurrency: 1 });
+
+    expect(report.entries.map((entry) => entry.outcome)).toEqual(['lookup_failed', 'matched']);
+    expect(report.entries[0].message).toMatch(/^Lookup failed: /);
+  });
+
+  it('should export the report as JSON and CSV', () => {
+    const report = new ReconciliationReport([
+      {
+        invoiceNumber: '=HYPERLINK("x")',
+        outcome: 'amount_mismatch',
+        message: 'Expected 100.00 BDT, PayStation has 90.00 BDT',
+        expectedStatus: 'success',
+        actualStatus: 'success',
+        expectedAmount: Money.of(100),
+        actualAmount: Money.of(90),
+        requestedAmount: Money.of(-5),
+        transactionId: 'TRX-1',
+        orderedAt: new Date('2025-10-19T08:30:15.000Z'),
+        error: null
+      }
+    ], new Date('2025-10-20T00:00:00.000Z'));
+
+    expect(report.toJSON()).toEqual({
+      generatedAt: '2025-10-20T00:00:00.000Z',
+      summary: { matched: 0, amount_mismatch: 1, status_mismatch: 0, missing: 0, stale_processing: 0, lookup_failed: 0 },
+      entries: [{
+        invoiceNumber: '=HYPERLINK("x")',
+        outcome: 'amount_mismatch',
+        message: 'Expected 100.00 BDT, PayStation has 90.00 BDT',
+        expectedStatus: 'success',
+        actualStatus: 'success',
+        expectedAmount: '100.00',
+        actualAmount: '90.00',
+        requestedAmount: '-5.00',
+        currency: 'BDT',
+        transactionId: 'TRX-1',
+        orderedAt: '2025-10-19T08:30:15.000Z',
+        error: null
+      }]
+    });
+    expect(report.toCSV().split('\r\n')).toEqual([
+      'invoice_number,outcome,expected_status,actual_status,expected_amount,actual_amount,requested_amount,currency,transaction_id,ordered_at,message',
+      '"\'=HYPERLINK(""x"")",amount_mismatch,success,success,100.00,90.00,-5.00,BDT,TRX-1,2025-10-19T08:30:15.000Z,' +
+        '"Expected 100.00 BDT, PayStation has 90.00 BDT"'
+    ]);
+  });
+
+  it('should report every invalid order before any lookup', async () => {
+    const error = await reconciler.reconcile([
+      { invoiceNumber: 'INV-001', expectedAmount: 100, expectedStatus: 'success' },
+      { invoiceNumber: 'INV-001', expectedAmount: 100, expectedStatus: 'paid', transactionId: '' },
+      { invoiceNumber: 'INV-002', expectedAmount: Money.of(1, 'USD'), currency: 'BDT', expectedStatus: 'success' }
+    ] as unknown as ReconciliationOrder[]).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues.map((issue: { field: string; code: string }) => [issue.field, issue.code])).toEqual([
+      ['orders[1].invoiceNumber', 'conflict'],
+      ['orders[1].expectedStatus', 'invalid_enum'],
+      ['orders[1].transactionId', 'empty'],
+      ['orders[2].currency', 'currency_mismatch']
+    ]);
+    expect(mock.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PayStationSDK } from '../PayStationSDK';
+import { Environment, RefundParams } from '../types/index';
+import { ValidationError, InvalidAmountError } from '../errors/index';
+import { Money } from '../money/index';
+import { createMockPayStation, MockPayStation } from '../testing/index';
+
+describe('Refunds', () => {
+  let mock: MockPayStation;
+  let sdk: PayStationSDK;
+  let transactionId: string;
+
+  beforeEach(async () => {
+    mock = createMockPayStation({ merchantId: 'test-merchant', password: 'test-password' });
+    sdk = new PayStationSDK({
+      merchantId: 'test-merchant',
+      password: 'test-password',
+      environment: Environment.SANDBOX,
+      fetch: mock.fetch
+    });
+
+    await sdk.initiatePayment({
+      invoiceNumber: 'INV-001',
+      paymentAmount: 100,
+      customerName: 'John Doe',
+      customerPhone: '01712345678',
+      customerEmail: 'john@example.com',
+      callbackUrl: 'https://shop.test/callback'
+    });
+    mock.completePayment('INV-001', 'success');
+    transactionId = mock.getTransaction('INV-001')!.transactionId;
+  });
+
+  const refundCalls = () => mock.calls.filter((call) => call.endpoint === 'refund');
+
+  it('should refund the full amount and look up the refund status', async () => {
+    const refund = await sdk.refund({ invoiceNumber: 'INV-001', reason: 'Customer cancelled' });
+
+    expect(refund.data).toMatchObject({
+      refundStatus: 'pending',
+      transactionId,
+      invoiceNumber: 'INV-001',
+      refundAmount: '100.00',
+      reason: 'Customer cancelled'
+    });
+    expect(refund.data?.amounts.refundAmount?.equals(Money.of(100))).toBe(true);
+    expect(refundCalls()[0].params).toEqual({
+      merchant_id: 'test-merchant',
+      trx_id: transactionId,
+      invoice_number: 'INV-001',
+      reason: 'Customer cancelled'
+    });
+    expect(mock.getTransaction('INV-001')?.transactionStatus).toBe('refund');
+
+    mock.setRefundStatus(refund.data!.refundId, 'success');
+    const status = await sdk.getRefundStatus(refund.data!.refundId);
+    expect(status.data?.refundStatus).toBe('success');
+  });
+
+  it('should send partial refunds until the captured amount is used up', async () => {
+    await sdk.refund({ transactionId, amount: 40, reason: 'Damaged item' });
+    const second = await sdk.refund({ transactionId, amount: Money.of('60'), reason: 'Damaged item' });
+
+    expect(refundCalls().map((call) => call.params.refund_amount)).toEqual(['40.00', '60.00']);
+    expect(second.data?.refundAmount).toBe('60.00');
+
+    await expect(sdk.refund({ transactionId, reason: 'Damaged item' }))
+      .rejects.toBeInstanceOf(InvalidAmountError);
+  });
+
+  it('should only refund the rest of a partly refunded payment', async () => {
+    await sdk.refund({ transactionId, amount: 40, reason: 'Damaged item' });
+    mock.setTransactionStatus('INV-001', 'refund');
+
+    const error = await sdk.refund({ transactionId, amount: 30, reason: 'Damaged item' }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues).toEqual([{ field: 'amount', code: 'invalid_value', message: expect.stringContaining('already partly refunded') }]);
+    expect(refundCalls()).toHaveLength(1);
+
+    const rest = await sdk.refund({ transactionId, reason: 'Damaged item' });
+    expect(rest.data?.refundAmount).toBe('60.00');
+  });
+
+  it('should not request a refund above the captured amount', async () => {
+    const error = await sdk.refund({ transactionId, amount: 100.01, reason: 'Damaged item' }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues).toEqual([{
+      field: 'amount',
+      code: 'too_large',
+      message: 'amount 100.01 exceeds the captured amount 100.00'
+    }]);
+    expect(refundCalls()).toHaveLength(0);
+  });
+
+  it('should report every invalid refund parameter before any request', async () => {
+    const error = await sdk.refund({
+      transactionId,
+      invoiceNumber: 'INV-001',
+      amount: -5,
+      reason: ' '
+    } as unknown as RefundParams).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.issues.map((issue: { field: string; code: string }) => [issue.field, issue.code])).toEqual([
+      ['invoiceNumber', 'conflict'],
+      ['amount', 'too_small'],
+      ['reason', 'empty']
+    ]);
+    expect(mock.calls.map((call) => call.endpoint)).toEqual(['initiate-payment']);
+  });
+
+  it('should refuse to refund a payment that did not succeed', async () => {
+    mock.setTransactionStatus('INV-001', 'failed');
+
+    await expect(sdk.refund({ invoiceNumber: 'INV-001', reason: 'Duplicate charge' }))
+      .rejects.toThrow(/is failed and cannot be refunded/);
+    expect(refundCalls()).toHaveLength(0);
+  });
+});
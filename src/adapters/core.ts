@@ -0,0 +1,142 @@
+import {
+  RouteOutcome,
+  InitiateRouteOptions,
+  CallbackRouteOptions,
+  CallbackFailure
+} from '../types/adapters';
+import { CallbackInput, VerifiedCallback } from '../types/callback';
+
+/**
+ * Initiates a payment and resolves the framework-neutral response
+ * @param options - Initiate route options
+ * @param context - Framework request object passed to the hooks
+ * @returns Outcome to send to the client
+ */
+export async function runInitiateRoute<TContext>(
+  options: InitiateRouteOptions<TContext>,
+  context: TContext
+): Promise<RouteOutcome> {
+  try {
+    const params = await options.getPaymentParams(context);
+    const response = await options.sdk.initiatePayment(params);
+
+    const outcome = options.onInitiated ? await options.onInitiated(response, context) : undefined;
+    if (outcome) {
+      return outcome;
+    }
+
+    if (!response.paymentUrl) {
+      return errorOutcome(502, 'PayStation did not return a payment URL');
+    }
+
+    return { type: 'redirect', location: response.paymentUrl, status: 303 };
+  } catch (error) {
+    const outcome = options.onError ? await options.onError(error, context) : undefined;
+    if (outcome) {
+      return outcome;
+    }
+
+    // Compare by name: adapters ship as separate bundles, so instanceof is not reliable
+    if (errorName(error) === 'ValidationError') {
+      // Issues describe the submitted parameters; the message may not, so it stays fixed
+      const issues = (error as { issues?: unknown[] }).issues;
+      return errorOutcome(400, 'Invalid payment parameters', issues && issues.length > 0 ? issues : undefined);
+    }
+    return errorOutcome(502, 'Payment could not be initiated');
+  }
+}
+
+/**
+ * Verifies a PayStation callback and resolves the framework-neutral response
+ * @param options - Callback route options
+ * @param input - Callback query parameters
+ * @param context - Framework request object passed to the hooks
+ * @returns Outcome to send to the client
+ */
+export async function runCallbackRoute<TContext>(
+  options: CallbackRouteOptions<TContext>,
+  input: CallbackInput,
+  context: TContext
+): Promise<RouteOutcome> {
+  let result: VerifiedCallback;
+
+  try {
+    const payload = options.sdk.parseCallback(input);
+    const expectedAmount = options.getExpectedAmount
+      ? await options.getExpectedAmount(payload, context)
+      : undefined;
+
+    result = await options.sdk.handleCallback(input, { expectedAmount });
+  } catch (error) {
+    return runFailure(options, {
+      reason: errorName(error) === 'CallbackVerificationError' ? 'verification_failed' : 'error',
+      error
+    }, context);
+  }
+
+  if (result.status !== 'success') {
+    return runFailure(options, {
+      reason: result.status === 'processing' ? 'payment_pending' : 'payment_failed',
+      result
+    }, context);
+  }
+
+  // Outside the try: errors from the merchant's hook are not callback failures and reach the framework as they are
+  const outcome = options.onSuccess ? await options.onSuccess(result, context) : undefined;
+  return outcome || statusOutcome(result);
+}
+
+/**
+ * Runs the failure hook and falls back to the default failure response
+ * @private
+ */
+async function runFailure<TContext>(
+  options: CallbackRouteOptions<TContext>,
+  failure: CallbackFailure,
+  context: TContext
+): Promise<RouteOutcome> {
+  const outcome = options.onFailure ? await options.onFailure(failure, context) : undefined;
+  if (outcome) {
+    return outcome;
+  }
+
+  if (failure.result) {
+    return statusOutcome(failure.result);
+  }
+
+  // The error itself goes to onFailure only; its message may carry upstream or internal details
+  return failure.reason === 'verification_failed'
+    ? errorOutcome(400, 'Callback could not be verified')
+    : errorOutcome(502, 'Callback could not be processed');
+}
+
+/**
+ * Builds the JSON outcome reporting a verified callback's status
+ * @private
+ */
+function statusOutcome(result: VerifiedCallback): RouteOutcome {
+  return {
+    type: 'json',
+    body: {
+      status: result.status,
+      invoiceNumber: result.transaction.invoiceNumber,
+      transactionId: result.transaction.transactionId
+    }
+  };
+}
+
+/**
+ * Builds a JSON error outcome
+ * @private
+ */
+function errorOutcome(status: number, message: string, issues?: unknown[]): RouteOutcome {
+  return { type: 'json', status, body: issues ? { error: message, issues } : { error: message } };
+}
+
+/**
+ * Reads the name of an error-like value
+ * @private
+ */
+function errorName(error: unknown): string | undefined {
+  return error instanceof Error ? error.name : undefined;
+}
@@ -0,0 +1,103 @@
+import { RouteOutcome, InitiateRouteOptions, CallbackRouteOptions } from '../types/adapters';
+import { CallbackInput } from '../types/callback';
+import { runInitiateRoute, runCallbackRoute } from './core';
+
+export type {
+  RouteOutcome,
+  RouteHookResult,
+  InitiateRouteOptions,
+  CallbackRouteOptions,
+  CallbackFailure,
+  CallbackFailureReason
+} from '../types/adapters';
+
+/**
+ * Subset of the Express request used by the adapter
+ */
+export interface ExpressRequest {
+  query?: unknown;
+}
+
+/**
+ * Subset of the Express response used by the adapter
+ */
+export interface ExpressResponse {
+  status(code: number): ExpressResponse;
+  json(body: unknown): unknown;
+  redirect(status: number, url: string): unknown;
+}
+
+/**
+ * Express-style request handler
+ */
+export type ExpressHandler<TRequest extends ExpressRequest = ExpressRequest> = (
+  req: TRequest,
+  res: ExpressResponse,
+  next?: (error?: unknown) => void
+) => Promise<void>;
+
+/**
+ * Creates an Express handler that initiates a payment and redirects the
+ * customer to PayStation's hosted checkout
+ * @param options - Initiate route options
+ * @returns Express request handler
+ *
+ * @example
+ * ```typescript
+ * import { createInitiateHandler, createCallbackHandler } from 'paystation/express';
+ *
+ * app.post('/payments', createInitiateHandler({
+ *   sdk: paystation,
+ *   getPaymentParams: (req) => buildParams(req.body)
+ * }));
+ * ```
+ */
+export function createInitiateHandler<TRequest extends ExpressRequest = ExpressRequest>(
+  options: InitiateRouteOptions<TRequest>
+): ExpressHandler<TRequest> {
+  return async (req, res, next) => {
+    try {
+      send(res, await runInitiateRoute(options, req));
+    } catch (error) {
+      if (!next) {
+        throw error;
+      }
+      next(error);
+    }
+  };
+}
+
+/**
+ * Creates an Express handler that verifies PayStation's callback redirect
+ * and runs the success or failure hook
+ * @param options - Callback route options
+ * @returns Express request handler
+ */
+export function createCallbackHandler<TRequest extends ExpressRequest = ExpressRequest>(
+  options: CallbackRouteOptions<TRequest>
+): ExpressHandler<TRequest> {
+  return async (req, res, next) => {
+    try {
+      const query = (req.query || {}) as CallbackInput;
+      send(res, await runCallbackRoute(options, query, req));
+    } catch (error) {
+      if (!next) {
+        throw error;
+      }
+      next(error);
+    }
+  };
+}
+
+/**
+ * Writes a route outcome to an Express response
+ * @private
+ */
+function send(res: ExpressResponse, outcome: RouteOutcome): void {
+  if (outcome.type === 'redirect') {
+    res.redirect(outcome.status ?? 303, outcome.location);
+    return;
+  }
+
+  res.status(outcome.status ?? 200).json(outcome.body);
+}
@@ -0,0 +1,89 @@
+import { RouteOutcome, InitiateRouteOptions, CallbackRouteOptions } from '../types/adapters';
+import { CallbackInput } from '../types/callback';
+import { runInitiateRoute, runCallbackRoute } from './core';
+
+export type {
+  RouteOutcome,
+  RouteHookResult,
+  InitiateRouteOptions,
+  CallbackRouteOptions,
+  CallbackFailure,
+  CallbackFailureReason
+} from '../types/adapters';
+
+/**
+ * Subset of the Fastify request used by the adapter
+ */
+export interface FastifyRequest {
+  query?: unknown;
+}
+
+/**
+ * Subset of the Fastify reply used by the adapter
+ */
+export interface FastifyReply {
+  code(statusCode: number): FastifyReply;
+  header(name: string, value: string): FastifyReply;
+  send(payload?: unknown): unknown;
+}
+
+/**
+ * Fastify route handler
+ */
+export type FastifyHandler<TRequest extends FastifyRequest = FastifyRequest> = (
+  request: TRequest,
+  reply: FastifyReply
+) => Promise<void>;
+
+/**
+ * Creates a Fastify handler that initiates a payment and redirects the
+ * customer to PayStation's hosted checkout
+ * @param options - Initiate route options
+ * @returns Fastify route handler
+ *
+ * @example
+ * ```typescript
+ * import { createInitiateHandler, createCallbackHandler } from 'paystation/fastify';
+ *
+ * fastify.post('/payments', createInitiateHandler({
+ *   sdk: paystation,
+ *   getPaymentParams: (request) => buildParams(request.body)
+ * }));
+ * ```
+ */
+export function createInitiateHandler<TRequest extends FastifyRequest = FastifyRequest>(
+  options: InitiateRouteOptions<TRequest>
+): FastifyHandler<TRequest> {
+  return async (request, reply) => {
+    send(reply, await runInitiateRoute(options, request));
+  };
+}
+
+/**
+ * Creates a Fastify handler that verifies PayStation's callback redirect
+ * and runs the success or failure hook
+ * @param options - Callback route options
+ * @returns Fastify route handler
+ */
+export function createCallbackHandler<TRequest extends FastifyRequest = FastifyRequest>(
+  options: CallbackRouteOptions<TRequest>
+): FastifyHandler<TRequest> {
+  return async (request, reply) => {
+    const query = (request.query || {}) as CallbackInput;
+    send(reply, await runCallbackRoute(options, query, request));
+  };
+}
+
+/**
+ * Writes a route outcome to a Fastify reply
+ * @private
+ */
+function send(reply: FastifyReply, outcome: RouteOutcome): void {
+  if (outcome.type === 'redirect') {
+    // Set the header directly: reply.redirect() changed its argument order between major versions
+    reply.code(outcome.status ?? 303).header('location', outcome.location).send();
+    return;
+  }
+
+  reply.code(outcome.status ?? 200).send(outcome.body);
+}
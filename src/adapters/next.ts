@@ -0,0 +1,34 @@
+/**
+ * Next.js App Router adapter
+ *
+ * App Router route handlers receive a web-standard `Request` and return a
+ * `Response`, so the web handlers can be exported from `route.ts` as-is.
+ * For Pages Router API routes use `paystation/express`: `NextApiRequest`
+ * and `NextApiResponse` expose the same `query`, `status()`, `json()` and
+ * `redirect()` members the Express adapter relies on.
+ *
+ * @example
+ * ```typescript
+ * // app/api/payments/callback/route.ts
+ * import { createCallbackHandler } from 'paystation/next';
+ *
+ * export const GET = createCallbackHandler({
+ *   sdk: paystation,
+ *   onSuccess: async (result) => {
+ *     await markOrderPaid(result.transaction.invoiceNumber);
+ *     return { type: 'redirect', location: '/orders/thank-you' };
+ *   }
+ * });
+ * ```
+ */
+export { createInitiateHandler, createCallbackHandler, toResponse } from './web';
+
+export type {
+  WebHandler,
+  RouteOutcome,
+  RouteHookResult,
+  InitiateRouteOptions,
+  CallbackRouteOptions,
+  CallbackFailure,
+  CallbackFailureReason
+} from './web';
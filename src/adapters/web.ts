@@ -0,0 +1,68 @@
+import { RouteOutcome, InitiateRouteOptions, CallbackRouteOptions } from '../types/adapters';
+import { runInitiateRoute, runCallbackRoute } from './core';
+
+export type {
+  RouteOutcome,
+  RouteHookResult,
+  InitiateRouteOptions,
+  CallbackRouteOptions,
+  CallbackFailure,
+  CallbackFailureReason
+} from '../types/adapters';
+
+/**
+ * Web-standard route handler
+ */
+export type WebHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Creates a `(Request) => Response` handler that initiates a payment and
+ * redirects the customer to PayStation's hosted checkout
+ * @param options - Initiate route options
+ * @returns Web-standard route handler
+ *
+ * @example
+ * ```typescript
+ * import { createInitiateHandler } from 'paystation/web';
+ *
+ * const initiate = createInitiateHandler({
+ *   sdk: paystation,
+ *   getPaymentParams: async (request) => buildParams(await request.formData())
+ * });
+ * ```
+ */
+export function createInitiateHandler(options: InitiateRouteOptions<Request>): WebHandler {
+  return async (request) => toResponse(await runInitiateRoute(options, request));
+}
+
+/**
+ * Creates a `(Request) => Response` handler that verifies PayStation's
+ * callback redirect and runs the success or failure hook
+ * @param options - Callback route options
+ * @returns Web-standard route handler
+ */
+export function createCallbackHandler(options: CallbackRouteOptions<Request>): WebHandler {
+  return async (request) => {
+    const url = new URL(request.url);
+    return toResponse(await runCallbackRoute(options, url.searchParams, request));
+  };
+}
+
+/**
+ * Converts a route outcome into a web-standard Response
+ * @param outcome - Outcome produced by a route
+ * @returns Response to return from the handler
+ */
+export function toResponse(outcome: RouteOutcome): Response {
+  if (outcome.type === 'redirect') {
+    return new Response(null, {
+      status: outcome.status ?? 303,
+      headers: { Location: outcome.location }
+    });
+  }
+
+  return new Response(JSON.stringify(outcome.body), {
+    status: outcome.status ?? 200,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
@@ -0,0 +1,181 @@
+import { TransactionStatusBatchOptions, TransactionStatusResult } from '../types/batch';
+import { RequestOptions } from '../types/requests';
+import { TransactionStatusResponse } from '../types/responses';
+import { PayStationError } from '../errors/PayStationError';
+import { ValidationError } from '../errors/ValidationError';
+import { CancelledError } from '../errors/CancelledError';
+import { TokenBucket } from '../ratelimit/TokenBucket';
+
+/**
+ * Status lookup by invoice number used by the batch
+ */
+export type InvoiceStatusLookup = (invoiceNumber: string, options: RequestOptions) => Promise<TransactionStatusResponse>;
+
+/**
+ * Settled lookup; lookups never reject so that abandoned ones cannot cause unhandled rejections
+ */
+interface SettledLookup {
+  id: number;
+  result?: TransactionStatusResult;
+  cancellation?: unknown;
+}
+
+/**
+ * Looks up many invoices with bounded concurrency and an optional rate limit
+ */
+export class TransactionStatusBatch {
+  private static readonly DEFAULT_CONCURRENCY = 5;
+
+  /**
+   * Look up every invoice and collect the results
+   * @param invoiceNumbers - Invoice numbers to look up; duplicates are looked up once
+   * @param lookup - Function that fetches the status of one invoice
+   * @param options - Concurrency, rate limit and per-request options (optional)
+   * @returns Results keyed by invoice number, in input order
+   * @throws {ValidationError} When the options are invalid
+   * @throws {CancelledError} When the batch is cancelled through the signal
+   */
+  async collect(
+    invoiceNumbers: readonly string[],
+    lookup: InvoiceStatusLookup,
+    options: TransactionStatusBatchOptions = {}
+  ): Promise<Map<string, TransactionStatusResult>> {
+    if (!Array.isArray(invoiceNumbers)) {
+      throw new ValidationError('invoiceNumbers must be an array', 'invoiceNumbers');
+    }
+
+    const settled = new Map<string, TransactionStatusResult>();
+    for await (const result of this.stream(invoiceNumbers, lookup, options)) {
+      settled.set(result.invoiceNumber, result);
+    }
+
+    // Lookups finish in any order; report them in the order they were asked for
+    const results = new Map<string, TransactionStatusResult>();
+    for (const invoiceNumber of invoiceNumbers) {
+      results.set(invoiceNumber, settled.get(invoiceNumber)!);
+    }
+    return results;
+  }
+
+  /**
+   * Look up every invoice, yielding each result as soon as it is available
+   * @param invoiceNumbers - Invoice numbers to look up, read only as fast as lookups complete; duplicates are looked up once
+   * @param lookup - Function that fetches the status of one invoice
+   * @param options - Concurrency, rate limit and per-request options (optional)
+   * @returns Results in completion order
+   * @throws {ValidationError} When the options are invalid
+   * @throws {CancelledError} When the batch is cancelled through the signal
+   */
+  async *stream(
+    invoiceNumbers: Iterable<string> | AsyncIterable<string>,
+    lookup: InvoiceStatusLookup,
+    options: TransactionStatusBatchOptions = {}
+  ): AsyncGenerator<TransactionStatusResult> {
+    const iterator = this.iterate(invoiceNumbers);
+    this.validateOptions(options);
+
+    const concurrency = options.concurrency ?? TransactionStatusBatch.DEFAULT_CONCURRENCY;
+    const bucket = options.rateLimit ? new TokenBucket(options.rateLimit) : undefined;
+    const requestOptions: RequestOptions = { signal: options.signal, timeoutMs: options.timeoutMs };
+
+    const seen = new Set<string>();
+    const running = new Map<number, Promise<SettledLookup>>();
+    let nextId = 0;
+    let exhausted = false;
+
+    try {
+      for (;;) {
+        // Fill every free slot before waiting for the next lookup to finish
+        while (!exhausted && running.size < concurrency) {
+          if (options.signal?.aborted) {
+            throw new CancelledError('Transaction status batch was cancelled');
+          }
+
+          const next = await iterator.next();
+          if (next.done) {
+            exhausted = true;
+          } else if (!seen.has(next.value)) {
+            seen.add(next.value);
+            const id = nextId++;
+            running.set(id, this.lookupOne(id, next.value, lookup, bucket, requestOptions));
+          }
+        }
+
+        if (running.size === 0) {
+          return;
+        }
+
+        const settled = await Promise.race(running.values());
+        running.delete(settled.id);
+        if (settled.cancellation) {
+          throw settled.cancellation;
+        }
+        yield settled.result!;
+      }
+    } finally {
+      // Release the source when the caller stops early or the batch is cancelled
+      if (!exhausted) {
+        await iterator.return?.();
+      }
+    }
+  }
+
+  /**
+   * Runs one lookup, turning errors into failed results and cancellation into a flag
+   * @private
+   */
+  private async lookupOne(
+    id: number,
+    invoiceNumber: string,
+    lookup: InvoiceStatusLookup,
+    bucket: TokenBucket | undefined,
+    options: RequestOptions
+  ): Promise<SettledLookup> {
+    try {
+      await bucket?.take(options.signal);
+      const response = await lookup(invoiceNumber, options);
+      return { id, result: { invoiceNumber, ok: true, response } };
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        return { id, cancellation: error };
+      }
+      return {
+        id,
+        result: {
+          invoiceNumber,
+          ok: false,
+          error: error instanceof PayStationError
+            ? error
+            : new PayStationError('An unexpected error occurred during transaction status check', undefined, error as Error)
+        }
+      };
+    }
+  }
+
+  /**
+   * Returns an async iterator over a sync or async iterable
+   * @private
+   */
+  private iterate(source: Iterable<string> | AsyncIterable<string>): AsyncIterator<string> | Iterator<string> {
+    if (source && typeof (source as AsyncIterable<string>)[Symbol.asyncIterator] === 'function') {
+      return (source as AsyncIterable<string>)[Symbol.asyncIterator]();
+    }
+    if (source && typeof (source as Iterable<string>)[Symbol.iterator] === 'function' && typeof source !== 'string') {
+      return (source as Iterable<string>)[Symbol.iterator]();
+    }
+    throw new ValidationError('invoiceNumbers must be an array or iterable of invoice numbers', 'invoiceNumbers');
+  }
+
+  /**
+   * Validate batch options
+   * @private
+   */
+  private validateOptions(options: TransactionStatusBatchOptions): void {
+    if (options.concurrency !== undefined && !(Number.isInteger(options.concurrency) && options.concurrency >= 1)) {
+      throw new ValidationError('concurrency must be a whole number of at least 1', 'concurrency');
+    }
+    if (options.rateLimit !== undefined) {
+      TokenBucket.validate(options.rateLimit);
+    }
+  }
+}
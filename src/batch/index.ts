@@ -0,0 +1,2 @@
+export { TransactionStatusBatch } from './TransactionStatusBatch';
+export type { InvoiceStatusLookup } from './TransactionStatusBatch';
\ No newline at end of file
@@ -0,0 +1,225 @@
+import {
+  CallbackInput,
+  CallbackPayload,
+  CallbackVerificationOptions,
+  VerifiedCallback
+} from '../types/callback';
+import { TransactionStatusResponse } from '../types/responses';
+import { Currency } from '../types/money';
+import { CallbackVerificationError } from '../errors/CallbackVerificationError';
+import { MetadataFields } from '../types/metadata';
+import { Money } from '../money/Money';
+import { MetadataCodec } from '../metadata/MetadataCodec';
+import { canonicalJson } from '../idempotency/fingerprint';
+
+/**
+ * Parses PayStation callback redirects and cross-checks them against
+ * the transaction status returned by PayStation
+ */
+export class CallbackHandler {
+  /**
+   * @param metadataCodec - Decodes metadata from the pass-through fields (default: compact, unsigned)
+   */
+  constructor(private readonly metadataCodec: MetadataCodec = new MetadataCodec()) {}
+
+  /**
+   * Parse callback parameters from a URL, query string or query object
+   * @param input - Callback URL, query string, search params or query object
+   * @returns Parsed callback payload; `metadata` is decoded without checking its signature
+   * @throws {CallbackVerificationError} When required parameters are missing
+   */
+  parse(input: CallbackInput): CallbackPayload {
+    const raw = this.toRecord(input);
+
+    const invoiceNumber = this.pick(raw, 'invoice_number', 'invoiceNumber');
+    if (!invoiceNumber) {
+      throw new CallbackVerificationError(
+        'Callback is missing the invoice_number parameter',
+        'missing_parameter'
+      );
+    }
+
+    const status = this.pick(raw, 'status');
+    if (!status) {
+      throw new CallbackVerificationError(
+        'Callback is missing the status parameter',
+        'missing_parameter'
+      );
+    }
+
+    const payload: CallbackPayload = {
+      status,
+      invoiceNumber,
+      raw
+    };
+
+    const transactionId = this.pick(raw, 'trx_id', 'transaction_id', 'transactionId');
+    if (transactionId) {
+      payload.transactionId = transactionId;
+    }
+
+    const paymentAmount = this.pick(raw, 'payment_amount', 'paymentAmount', 'amount');
+    if (paymentAmount) {
+      payload.paymentAmount = paymentAmount;
+    }
+
+    const metadata = this.metadataCodec.read(this.metadataFields(raw));
+    if (metadata) {
+      payload.metadata = metadata;
+    }
+
+    return payload;
+  }
+
+  /**
+   * Cross-check a callback payload against the status endpoint response
+   * @param payload - Parsed callback payload
+   * @param statusResponse - Status response fetched from PayStation
+   * @param options - Additional expectations to verify (optional)
+   * @returns Verified callback result
+   * @throws {CallbackVerificationError} When the callback does not match PayStation's records
+   */
+  verify(
+    payload: CallbackPayload,
+    statusResponse: TransactionStatusResponse,
+    options: CallbackVerificationOptions = {}
+  ): VerifiedCallback {
+    const transaction = statusResponse.data;
+    if (!transaction) {
+      throw new CallbackVerificationError(
+        `No transaction found for invoice ${payload.invoiceNumber}`,
+        'transaction_not_found'
+      );
+    }
+
+    if (transaction.invoiceNumber !== payload.invoiceNumber) {
+      throw new CallbackVerificationError(
+        `Invoice number mismatch: callback has ${payload.invoiceNumber}, PayStation has ${transaction.invoiceNumber}`,
+        'invoice_mismatch'
+      );
+    }
+
+    if (payload.transactionId && transaction.transactionId !== payload.transactionId) {
+      throw new CallbackVerificationError(
+        `Transaction ID mismatch: callback has ${payload.transactionId}, PayStation has ${transaction.transactionId}`,
+        'transaction_id_mismatch'
+      );
+    }
+
+    const recordedAmount = transaction.amounts?.paymentAmount || transaction.amounts?.requestAmount;
+
+    if (payload.paymentAmount !== undefined && recordedAmount !== undefined) {
+      const callbackAmount = this.toMoney(payload.paymentAmount, recordedAmount.currency);
+      if (!callbackAmount || !callbackAmount.equals(recordedAmount)) {
+        throw new CallbackVerificationError(
+          `Amount mismatch: callback has ${payload.paymentAmount}, PayStation has ${recordedAmount.toDecimalString()}`,
+          'amount_mismatch'
+        );
+      }
+    }
+
+    if (options.expectedAmount !== undefined) {
+      const expectedAmount = this.toMoney(options.expectedAmount, recordedAmount?.currency ?? 'BDT');
+      if (!recordedAmount || !expectedAmount || !expectedAmount.equals(recordedAmount)) {
+        throw new CallbackVerificationError(
+          `Amount mismatch: expected ${expectedAmount ?? options.expectedAmount}, PayStation has ${recordedAmount ?? 'no amount'}`,
+          'amount_mismatch'
+        );
+      }
+    }
+
+    // Callback metadata is decoded unverified, so it must match what the status lookup returned
+    if (payload.metadata !== undefined &&
+        (transaction.metadata === undefined || canonicalJson(payload.metadata) !== canonicalJson(transaction.metadata))) {
+      throw new CallbackVerificationError(
+        'Metadata mismatch: callback metadata differs from the metadata PayStation has on record',
+        'metadata_mismatch'
+      );
+    }
+
+    return {
+      payload,
+      status: transaction.transactionStatus,
+      transaction
+    };
+  }
+
+  /**
+   * Normalizes the supported callback inputs into a flat record
+   * @private
+   */
+  private toRecord(input: CallbackInput): Record<string, string> {
+    let params: URLSearchParams | null = null;
+
+    if (input instanceof URLSearchParams) {
+      params = input;
+    } else if (input instanceof URL) {
+      params = input.searchParams;
+    } else if (typeof input === 'string') {
+      const queryStart = input.indexOf('?');
+      params = new URLSearchParams(queryStart >= 0 ? input.slice(queryStart + 1) : input);
+    }
+
+    const record: Record<string, string> = {};
+
+    if (params) {
+      params.forEach((value, key) => {
+        if (!(key in record)) {
+          record[key] = value;
+        }
+      });
+      return record;
+    }
+
+    for (const [key, value] of Object.entries(input as Record<string, string | string[] | undefined>)) {
+      const first = Array.isArray(value) ? value[0] : value;
+      if (first !== undefined) {
+        record[key] = String(first);
+      }
+    }
+
+    return record;
+  }
+
+  /**
+   * Collects the opt_a/opt_b/opt_c parameters
+   * @private
+   */
+  private metadataFields(raw: Record<string, string>): MetadataFields {
+    return {
+      optA: this.pick(raw, 'opt_a', 'optA'),
+      optB: this.pick(raw, 'opt_b', 'optB'),
+      optC: this.pick(raw, 'opt_c', 'optC')
+    };
+  }
+
+  /**
+   * Returns the first non-empty value among the given keys
+   * @private
+   */
+  private pick(record: Record<string, string>, ...keys: string[]): string | undefined {
+    for (const key of keys) {
+      const value = record[key];
+      if (value !== undefined && value.trim().length > 0) {
+        return value.trim();
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Converts an amount to Money in the recorded currency, or undefined when it is not a valid amount
+   * Money values keep their own currency so a currency mismatch fails the comparison
+   * @private
+   */
+  private toMoney(value: string | number | Money, currency: Currency): Money | undefined {
+    if (value instanceof Money) {
+      return value;
+    }
+    try {
+      return Money.of(value, currency);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1 @@
+export { CallbackHandler } from './CallbackHandler';
@@ -0,0 +1,144 @@
+import { CheckoutItem, CheckoutLineType, ParsedCheckoutItem } from '../types/checkout';
+import { Currency, RoundingMode } from '../types/money';
+import { Money } from '../money/Money';
+
+/**
+ * Line types accepted in checkout items
+ */
+export const CHECKOUT_LINE_TYPES: readonly CheckoutLineType[] = ['item', 'shipping', 'tax', 'discount'];
+
+/**
+ * A checkout line as sent to PayStation
+ */
+interface CheckoutLineJSON {
+  type?: CheckoutLineType;
+  name: string;
+  sku?: string;
+  quantity: number;
+  unit_price: string;
+  total: string;
+}
+
+/**
+ * Serialize checkout items into the JSON string sent as `checkout_items`
+ * @param items - Validated checkout items
+ * @param currency - Payment currency
+ * @param rounding - Rounding for number prices (default: 'half-up')
+ * @returns JSON array of lines with decimal-string prices, e.g.
+ *   `[{"name":"T-shirt","sku":"TS-1","quantity":2,"unit_price":"250.00","total":"500.00"}]`
+ * @throws {ValidationError} When a price is invalid
+ */
+export function serializeCheckoutItems(
+  items: CheckoutItem[],
+  currency: Currency,
+  rounding: RoundingMode = 'half-up'
+): string {
+  const lines = items.map((item): CheckoutLineJSON => {
+    const quantity = item.quantity ?? 1;
+    const unitPrice = toMoney(item.unitPrice, currency, rounding);
+
+    return {
+      ...(item.type && item.type !== 'item' ? { type: item.type } : {}),
+      name: item.name,
+      ...(item.sku !== undefined ? { sku: item.sku } : {}),
+      quantity,
+      unit_price: unitPrice.toDecimalString(),
+      total: unitPrice.multiply(quantity).toDecimalString()
+    };
+  });
+
+  return JSON.stringify(lines);
+}
+
+/**
+ * Parse the `checkoutItems` string of a transaction back into structured lines
+ * @param value - Checkout items as returned by PayStation
+ * @param currency - Transaction currency (default: 'BDT')
+ * @returns The lines, or undefined when the value is free text rather than serialized items
+ */
+export function parseCheckoutItems(value: string | undefined, currency: Currency = 'BDT'): ParsedCheckoutItem[] | undefined {
+  if (typeof value !== 'string' || !value.trim().startsWith('[')) {
+    return undefined;
+  }
+
+  let lines: unknown;
+  try {
+    lines = JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+
+  if (!Array.isArray(lines)) {
+    return undefined;
+  }
+
+  const items: ParsedCheckoutItem[] = [];
+  for (const line of lines) {
+    const item = parseLine(line, currency);
+    if (!item) {
+      return undefined;
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Sum checkout items, subtracting discounts
+ * @param items - Validated checkout items
+ * @param currency - Payment currency
+ * @param rounding - Rounding for number prices (default: 'half-up')
+ * @returns The total the customer pays
+ * @throws {ValidationError} When a price is invalid
+ */
+export function checkoutTotal(
+  items: CheckoutItem[],
+  currency: Currency,
+  rounding: RoundingMode = 'half-up'
+): Money {
+  return items.reduce((total, item) => {
+    const lineTotal = toMoney(item.unitPrice, currency, rounding).multiply(item.quantity ?? 1);
+    return item.type === 'discount' ? total.subtract(lineTotal) : total.add(lineTotal);
+  }, Money.fromMinorUnits(0, currency));
+}
+
+/**
+ * Parses one serialized line, or returns undefined when it does not have the expected shape
+ * @private
+ */
+function parseLine(line: unknown, currency: Currency): ParsedCheckoutItem | undefined {
+  if (!line || typeof line !== 'object' || Array.isArray(line)) {
+    return undefined;
+  }
+
+  const { type = 'item', name, sku, quantity = 1, unit_price: unitPrice } = line as Record<string, unknown>;
+  if (!CHECKOUT_LINE_TYPES.includes(type as CheckoutLineType) ||
+      typeof name !== 'string' ||
+      (sku !== undefined && typeof sku !== 'string') ||
+      !Number.isInteger(quantity) ||
+      (typeof unitPrice !== 'string' && typeof unitPrice !== 'number')) {
+    return undefined;
+  }
+
+  try {
+    const price = Money.of(unitPrice, currency);
+    return {
+      type: type as CheckoutLineType,
+      name,
+      quantity: quantity as number,
+      unitPrice: price,
+      total: price.multiply(quantity as number),
+      ...(sku !== undefined ? { sku: sku as string } : {})
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Converts a price to Money in the payment currency
+ * @private
+ */
+function toMoney(price: number | Money, currency: Currency, rounding: RoundingMode): Money {
+  return price instanceof Money ? price : Money.of(price, currency, rounding);
+}
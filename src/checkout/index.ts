@@ -0,0 +1 @@
+export { serializeCheckoutItems, parseCheckoutItems, checkoutTotal } from './checkoutItems';
\ No newline at end of file
@@ -0,0 +1,261 @@
+import {
+  CircuitBreakerConfig,
+  CircuitState,
+  EndpointHealth,
+  HealthReport
+} from '../types/circuit';
+import { HttpRequest, PayStationEndpoint } from '../types/http';
+import { ValidationError } from '../errors/ValidationError';
+import { CircuitOpenError } from '../errors/CircuitOpenError';
+
+/**
+ * Permission to send one attempt, returned by `acquire` and handed back to `record`
+ */
+export interface CircuitPermit {
+  endpoint: PayStationEndpoint;
+  /** Generation of the circuit the attempt started in; results from earlier generations are ignored */
+  generation: number;
+  /** Whether the attempt is a half-open trial */
+  trial: boolean;
+}
+
+/**
+ * How an attempt ended, as far as the circuit is concerned
+ * - `success`: PayStation answered (any status below 500)
+ * - `failure`: PayStation did not answer or answered with a 5xx
+ * - `ignored`: the attempt says nothing about PayStation, e.g. it was cancelled
+ */
+export type CircuitOutcome = 'success' | 'failure' | 'ignored';
+
+/**
+ * Circuit of one endpoint
+ */
+interface EndpointCircuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number | null;
+  trials: number;
+  successes: number;
+  generation: number;
+}
+
+/**
+ * Per-endpoint circuit breaker
+ *
+ * A circuit opens after `failureThreshold` consecutive failures; requests to the endpoint
+ * then fail at once with a `CircuitOpenError` instead of waiting for PayStation. After
+ * `cooldownMs` the circuit is half-open and lets `halfOpenMaxRequests` trial requests
+ * through: it closes once they all succeed and reopens on the first failure.
+ */
+export class CircuitBreaker {
+  private static readonly DEFAULT_FAILURE_THRESHOLD = 5;
+  private static readonly DEFAULT_COOLDOWN_MS = 30000;
+
+  /** Endpoints reported by `health()` */
+  private static readonly ENDPOINTS: readonly PayStationEndpoint[] = [
+    'initiate-payment',
+    'transaction-status',
+    'v2/transaction-status',
+    'refund',
+    'refund-status'
+  ];
+
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly halfOpenMaxRequests: number;
+  private readonly circuits = new Map<PayStationEndpoint, EndpointCircuit>();
+
+  /**
+   * @param config - Thresholds and state change listener
+   * @param now - Clock returning the current time in milliseconds (default: Date.now)
+   * @throws {ValidationError} When the configuration is invalid
+   */
+  constructor(private readonly config: CircuitBreakerConfig, private readonly now: () => number = Date.now) {
+    CircuitBreaker.validate(config);
+
+    this.failureThreshold = config.failureThreshold ?? CircuitBreaker.DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = config.cooldownMs ?? CircuitBreaker.DEFAULT_COOLDOWN_MS;
+    this.halfOpenMaxRequests = config.halfOpenMaxRequests ?? 1;
+  }
+
+  /**
+   * Validate a circuit breaker configuration
+   * @param config - Configuration to check
+   * @throws {ValidationError} When a threshold, the cool-down or the listener is invalid
+   */
+  static validate(config: CircuitBreakerConfig): void {
+    if (!config || typeof config !== 'object') {
+      throw new ValidationError('circuitBreaker must be an object', 'circuitBreaker');
+    }
+
+    for (const field of ['failureThreshold', 'halfOpenMaxRequests'] as const) {
+      const value = config[field];
+      if (value !== undefined && !(Number.isInteger(value) && value >= 1)) {
+        throw new ValidationError(`circuitBreaker.${field} must be a whole number of at least 1`, `circuitBreaker.${field}`);
+      }
+    }
+
+    if (config.cooldownMs !== undefined && !(typeof config.cooldownMs === 'number' && config.cooldownMs >= 0)) {
+      throw new ValidationError('circuitBreaker.cooldownMs must be a non-negative number', 'circuitBreaker.cooldownMs');
+    }
+
+    if (config.onStateChange !== undefined && typeof config.onStateChange !== 'function') {
+      throw new ValidationError('circuitBreaker.onStateChange must be a function', 'circuitBreaker.onStateChange');
+    }
+  }
+
+  /**
+   * Health report for an SDK without a circuit breaker: every circuit closed
+   * @returns Report with `circuitBreaker: false`
+   */
+  static disabledHealth(): HealthReport {
+    return {
+      healthy: true,
+      circuitBreaker: false,
+      endpoints: CircuitBreaker.reportEndpoints(() => ({ state: 'closed', failures: 0, openedAt: null, retryAt: null }))
+    };
+  }
+
+  /**
+   * Ask to send an attempt
+   * @param request - Request about to be sent
+   * @returns Permit to hand to `record`, or undefined for requests without an endpoint
+   * @throws {CircuitOpenError} When the endpoint's circuit is open, or half-open with all trials taken
+   */
+  acquire(request: HttpRequest): CircuitPermit | undefined {
+    const endpoint = request.endpoint;
+    if (!endpoint) {
+      return undefined;
+    }
+
+    const circuit = this.circuit(endpoint);
+
+    if (circuit.state === 'open') {
+      const retryAfterMs = Math.max(0, circuit.openedAt! + this.cooldownMs - this.now());
+      throw new CircuitOpenError(
+        `Circuit for ${endpoint} is open after ${circuit.failures} consecutive failures; retry in ${retryAfterMs}ms`,
+        endpoint,
+        retryAfterMs
+      );
+    }
+
+    if (circuit.state === 'half-open') {
+      if (circuit.trials >= this.halfOpenMaxRequests) {
+        throw new CircuitOpenError(`Circuit for ${endpoint} is half-open and waiting for trial requests`, endpoint, 0);
+      }
+      circuit.trials++;
+      return { endpoint, generation: circuit.generation, trial: true };
+    }
+
+    return { endpoint, generation: circuit.generation, trial: false };
+  }
+
+  /**
+   * Record how an attempt ended
+   * @param permit - Permit the attempt was sent with
+   * @param outcome - Whether PayStation answered
+   */
+  record(permit: CircuitPermit, outcome: CircuitOutcome): void {
+    const circuit = this.circuit(permit.endpoint);
+    if (permit.generation !== circuit.generation) {
+      // The attempt started before the last state change and says nothing about the current state
+      return;
+    }
+
+    if (permit.trial) {
+      circuit.trials--;
+    }
+
+    if (outcome === 'failure') {
+      circuit.failures++;
+      if (circuit.state === 'half-open' || circuit.failures >= this.failureThreshold) {
+        this.transition(permit.endpoint, circuit, 'open');
+      }
+      return;
+    }
+
+    if (outcome === 'success') {
+      circuit.failures = 0;
+      if (circuit.state === 'half-open' && ++circuit.successes >= this.halfOpenMaxRequests) {
+        this.transition(permit.endpoint, circuit, 'closed');
+      }
+    }
+  }
+
+  /**
+   * Report the circuit state of every endpoint
+   * @returns Health report with `circuitBreaker: true`
+   */
+  health(): HealthReport {
+    const endpoints = CircuitBreaker.reportEndpoints((endpoint) => {
+      const circuit = this.circuit(endpoint);
+      return {
+        state: circuit.state,
+        failures: circuit.failures,
+        openedAt: circuit.openedAt !== null ? new Date(circuit.openedAt) : null,
+        retryAt: circuit.state === 'open' ? new Date(circuit.openedAt! + this.cooldownMs) : null
+      };
+    });
+
+    return {
+      healthy: Object.values(endpoints).every((endpoint) => endpoint.state === 'closed'),
+      circuitBreaker: true,
+      endpoints
+    };
+  }
+
+  /**
+   * Get an endpoint's circuit, moving it to half-open once the cool-down has passed
+   * @private
+   */
+  private circuit(endpoint: PayStationEndpoint): EndpointCircuit {
+    let circuit = this.circuits.get(endpoint);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: 0, openedAt: null, trials: 0, successes: 0, generation: 0 };
+      this.circuits.set(endpoint, circuit);
+    }
+
+    if (circuit.state === 'open' && this.now() >= circuit.openedAt! + this.cooldownMs) {
+      this.transition(endpoint, circuit, 'half-open');
+    }
+    return circuit;
+  }
+
+  /**
+   * Move a circuit to a new state and notify the listener
+   * @private
+   */
+  private transition(endpoint: PayStationEndpoint, circuit: EndpointCircuit, to: CircuitState): void {
+    const from = circuit.state;
+    const now = this.now();
+
+    circuit.state = to;
+    circuit.generation++;
+    circuit.trials = 0;
+    circuit.successes = 0;
+    if (to === 'open') {
+      circuit.openedAt = now;
+    } else if (to === 'closed') {
+      circuit.openedAt = null;
+      circuit.failures = 0;
+    }
+
+    try {
+      this.config.onStateChange?.({ endpoint, from, to, failures: circuit.failures, at: new Date(now) });
+    } catch {
+      // A failing listener must not fail the request that triggered the change
+    }
+  }
+
+  /**
+   * Build the per-endpoint part of a health report
+   * @private
+   */
+  private static reportEndpoints(
+    report: (endpoint: PayStationEndpoint) => EndpointHealth
+  ): Record<PayStationEndpoint, EndpointHealth> {
+    return Object.fromEntries(
+      CircuitBreaker.ENDPOINTS.map((endpoint) => [endpoint, report(endpoint)])
+    ) as Record<PayStationEndpoint, EndpointHealth>;
+  }
+}
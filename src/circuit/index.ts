@@ -0,0 +1,2 @@
+export { CircuitBreaker } from './CircuitBreaker';
+export type { CircuitPermit, CircuitOutcome } from './CircuitBreaker';
@@ -1,5 +1,15 @@
-import { PayStationConfig, Environment } from '../types/config';
+import { PayStationConfig, Environment, RetryConfig } from '../types/config';
+import { FetchLike, Transport, PayStationEndpoint } from '../types/http';
+import { Logger, LogLevel } from '../types/logging';
+import { IdempotencyConfig, IdempotencyStore } from '../types/idempotency';
+import { RateLimiterConfig } from '../types/ratelimit';
+import { CircuitBreakerConfig } from '../types/circuit';
+import { RoundingMode } from '../types/money';
+import { ResponseValidationMode } from '../types/validation';
+import { MetadataConfig, MetadataEncoding } from '../types/metadata';
 import { ValidationError } from '../errors/ValidationError';
+import { RateLimiter } from '../ratelimit/RateLimiter';
+import { CircuitBreaker } from '../circuit/CircuitBreaker';
 
 /**
  * Configuration manager for PayStation SDK
@@ -13,6 +23,18 @@ export class ConfigManager {
     [Environment.LIVE]: 'https://api.paystation.com.bd'
   } as const;
 
+  private static readonly DEFAULT_PATHS: Record<PayStationEndpoint, string> = {
+    'initiate-payment': '/initiate-payment',
+    'transaction-status': '/transaction-status',
+    'v2/transaction-status': '/v2/transaction-status',
+    'refund': '/refund',
+    'refund-status': '/refund-status'
+  };
+
+  private static readonly PAYSTATION_DOMAIN = 'paystation.com.bd';
+
+  private static readonly LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
   constructor(config: PayStationConfig) {
     this.validateConfig(config);
     this.config = { ...config };
@@ -23,7 +45,20 @@ export class ConfigManager {
    * @returns The base URL for API requests
    */
   getBaseUrl(): string {
-    return ConfigManager.BASE_URLS[this.config.environment];
+    if (this.config.baseUrl) {
+      return this.config.baseUrl.replace(/\/+$/, '');
+    }
+    return ConfigManager.BASE_URLS[this.config.environment as Exclude<Environment, Environment.CUSTOM>];
+  }
+
+  /**
+   * Get the full URL of an endpoint, applying any path override
+   * @param endpoint - Endpoint to resolve
+   * @returns The URL for requests to the endpoint
+   */
+  getEndpointUrl(endpoint: PayStationEndpoint): string {
+    const path = this.config.paths?.[endpoint] ?? ConfigManager.DEFAULT_PATHS[endpoint];
+    return `${this.getBaseUrl()}${path}`;
   }
 
   /**
@@ -50,6 +85,118 @@ export class ConfigManager {
     return this.config.environment;
   }
 
+  /**
+   * Get the default request timeout
+   * @returns Timeout in milliseconds, or undefined when requests never time out
+   */
+  getTimeoutMs(): number | undefined {
+    return this.config.timeoutMs;
+  }
+
+  /**
+   * Get the retry policy configuration
+   * @returns The retry configuration, or undefined when retries are disabled
+   */
+  getRetryConfig(): RetryConfig | undefined {
+    return this.config.retry;
+  }
+
+  /**
+   * Get the custom fetch implementation
+   * @returns The configured fetch, or undefined to use the default
+   */
+  getFetch(): FetchLike | undefined {
+    return this.config.fetch;
+  }
+
+  /**
+   * Get the custom transport
+   * @returns The configured transport, or undefined to use fetch
+   */
+  getTransport(): Transport | undefined {
+    return this.config.transport;
+  }
+
+  /**
+   * Get the logger
+   * @returns The configured logger, or undefined when logging is disabled
+   */
+  getLogger(): Logger | undefined {
+    return this.config.logger;
+  }
+
+  /**
+   * Get the minimum log level
+   * @returns The configured log level
+   */
+  getLogLevel(): LogLevel {
+    return this.config.logLevel ?? 'info';
+  }
+
+  /**
+   * Get the rounding mode for number amounts
+   * @returns The configured rounding mode
+   */
+  getAmountRounding(): RoundingMode {
+    return this.config.amountRounding ?? 'half-up';
+  }
+
+  /**
+   * Get whether customer phone numbers outside Bangladesh are accepted
+   * @returns True when international numbers are accepted
+   */
+  getAllowInternationalPhone(): boolean {
+    return this.config.allowInternationalPhone ?? false;
+  }
+
+  /**
+   * Get whether invoice numbers are checked against the InvoiceNumber rules before initiation
+   * @returns True when the length and character rules apply
+   */
+  getStrictInvoiceNumbers(): boolean {
+    return this.config.strictInvoiceNumbers ?? false;
+  }
+
+  /**
+   * Get the response validation mode
+   * @returns The configured validation mode
+   */
+  getResponseValidation(): ResponseValidationMode {
+    return this.config.responseValidation ?? 'strict';
+  }
+
+  /**
+   * Get the metadata encoding and signing configuration
+   * @returns The metadata configuration
+   */
+  getMetadataConfig(): MetadataConfig {
+    return this.config.metadata ?? {};
+  }
+
+  /**
+   * Get the idempotency configuration
+   * @returns The idempotency configuration, or undefined when idempotency is disabled
+   */
+  getIdempotencyConfig(): IdempotencyConfig | undefined {
+    return this.config.idempotency;
+  }
+
+  /**
+   * Get the client-side rate limit configuration
+   * @returns The rate limit configuration, or undefined when rate limiting is disabled
+   */
+  getRateLimitConfig(): RateLimiterConfig | undefined {
+    return this.config.rateLimit;
+  }
+
+  /**
+   * Get the circuit breaker configuration
+   * @returns The circuit breaker configuration, or undefined when the circuit breaker is disabled
+   */
+  getCircuitBreakerConfig(): CircuitBreakerConfig | undefined {
+    return this.config.circuitBreaker;
+  }
+
   /**
    * Validate the configuration object
    * @param config - Configuration to validate
@@ -85,5 +232,193 @@ export class ConfigManager {
         `Invalid environment: ${config.environment}. Must be one of: ${Object.values(Environment).join(', ')}`
       );
     }
+
+    this.validateBaseUrl(config);
+
+    if (config.timeoutMs !== undefined && !(typeof config.timeoutMs === 'number' && config.timeoutMs > 0)) {
+      throw new ValidationError('timeoutMs must be a positive number', 'timeoutMs');
+    }
+
+    if (config.retry !== undefined) {
+      this.validateRetryConfig(config.retry);
+    }
+
+    if (config.fetch !== undefined && typeof config.fetch !== 'function') {
+      throw new ValidationError('fetch must be a function', 'fetch');
+    }
+
+    if (config.transport !== undefined &&
+        (!config.transport || typeof config.transport.send !== 'function')) {
+      throw new ValidationError('transport must implement send(request)', 'transport');
+    }
+
+    if (config.logger !== undefined) {
+      const methods = ['debug', 'info', 'warn', 'error'] as const;
+      if (!config.logger || methods.some((method) => typeof config.logger![method] !== 'function')) {
+        throw new ValidationError('logger must implement debug, info, warn and error', 'logger');
+      }
+    }
+
+    const logLevels: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+    if (config.logLevel !== undefined && !logLevels.includes(config.logLevel)) {
+      throw new ValidationError(
+        `Invalid logLevel: ${config.logLevel}. Must be one of: ${logLevels.join(', ')}`,
+        'logLevel'
+      );
+    }
+
+    const roundingModes: RoundingMode[] = ['half-up', 'half-even', 'up', 'down'];
+    if (config.amountRounding !== undefined && !roundingModes.includes(config.amountRounding)) {
+      throw new ValidationError(
+        `Invalid amountRounding: ${config.amountRounding}. Must be one of: ${roundingModes.join(', ')}`,
+        'amountRounding'
+      );
+    }
+
+    const validationModes: ResponseValidationMode[] = ['strict', 'lenient'];
+    if (config.responseValidation !== undefined && !validationModes.includes(config.responseValidation)) {
+      throw new ValidationError(
+        `Invalid responseValidation: ${config.responseValidation}. Must be one of: ${validationModes.join(', ')}`,
+        'responseValidation'
+      );
+    }
+
+    if (config.metadata !== undefined) {
+      this.validateMetadataConfig(config.metadata);
+    }
+
+    if (config.idempotency !== undefined) {
+      this.validateIdempotencyConfig(config.idempotency);
+    }
+
+    if (config.rateLimit !== undefined) {
+      RateLimiter.validate(config.rateLimit);
+    }
+
+    if (config.circuitBreaker !== undefined) {
+      CircuitBreaker.validate(config.circuitBreaker);
+    }
+
+    if (config.fetch !== undefined && config.transport !== undefined) {
+      throw new ValidationError('Provide either fetch or transport, not both');
+    }
+  }
+
+  /**
+   * Validate the base URL override and path overrides
+   * @param config - Configuration to validate
+   * @throws {ValidationError} When the base URL is unsafe or paths are invalid
+   */
+  private validateBaseUrl(config: PayStationConfig): void {
+    if (config.baseUrl === undefined) {
+      if (config.environment === Environment.CUSTOM) {
+        throw new ValidationError('baseUrl is required for the custom environment', 'baseUrl');
+      }
+    } else {
+      let url: URL;
+      try {
+        url = new URL(config.baseUrl);
+      } catch {
+        throw new ValidationError('baseUrl must be a valid URL', 'baseUrl');
+      }
+
+      const isLocal = ConfigManager.LOCAL_HOSTS.includes(url.hostname);
+      if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLocal)) {
+        throw new ValidationError('baseUrl must use https (http is only allowed for localhost)', 'baseUrl');
+      }
+
+      const domain = ConfigManager.PAYSTATION_DOMAIN;
+      const isPayStationHost = url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+      if (config.environment === Environment.LIVE && !isPayStationHost && !config.allowLiveOnCustomHost) {
+        throw new ValidationError(
+          `Refusing to send live credentials to ${url.hostname}. Set allowLiveOnCustomHost to use a non-PayStation host in the live environment`,
+          'baseUrl'
+        );
+      }
+    }
+
+    if (config.paths !== undefined) {
+      for (const [endpoint, path] of Object.entries(config.paths)) {
+        if (!(endpoint in ConfigManager.DEFAULT_PATHS)) {
+          throw new ValidationError(`Unknown endpoint in paths: ${endpoint}`, 'paths');
+        }
+        if (typeof path !== 'string' || !path.startsWith('/')) {
+          throw new ValidationError(`paths.${endpoint} must be a string starting with /`, `paths.${endpoint}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate the metadata configuration
+   * @param metadata - Metadata configuration to validate
+   * @throws {ValidationError} When metadata configuration is invalid
+   */
+  private validateMetadataConfig(metadata: MetadataConfig): void {
+    if (!metadata || typeof metadata !== 'object') {
+      throw new ValidationError('metadata must be an object', 'metadata');
+    }
+
+    const encodings: MetadataEncoding[] = ['compact', 'json'];
+    if (metadata.encoding !== undefined && !encodings.includes(metadata.encoding)) {
+      throw new ValidationError(
+        `Invalid metadata.encoding: ${metadata.encoding}. Must be one of: ${encodings.join(', ')}`,
+        'metadata.encoding'
+      );
+    }
+
+    if (metadata.secret !== undefined && !(typeof metadata.secret === 'string' && metadata.secret.length > 0)) {
+      throw new ValidationError('metadata.secret must be a non-empty string', 'metadata.secret');
+    }
+  }
+
+  /**
+   * Validate the idempotency configuration
+   * @param idempotency - Idempotency configuration to validate
+   * @throws {ValidationError} When idempotency configuration is invalid
+   */
+  private validateIdempotencyConfig(idempotency: IdempotencyConfig): void {
+    if (!idempotency || typeof idempotency !== 'object') {
+      throw new ValidationError('idempotency must be an object', 'idempotency');
+    }
+
+    const store = idempotency.store;
+    if (store !== undefined &&
+        (!store || (['get', 'set'] as const).some(
+          (method) => typeof (store as Partial<IdempotencyStore>)[method] !== 'function'
+        ))) {
+      throw new ValidationError('idempotency.store must implement get and set', 'idempotency.store');
+    }
+
+    if (idempotency.ttlMs !== undefined && !(typeof idempotency.ttlMs === 'number' && idempotency.ttlMs > 0)) {
+      throw new ValidationError('idempotency.ttlMs must be a positive number', 'idempotency.ttlMs');
+    }
+  }
+
+  /**
+   * Validate the retry policy configuration
+   * @param retry - Retry configuration to validate
+   * @throws {ValidationError} When retry configuration is invalid
+   */
+  private validateRetryConfig(retry: RetryConfig): void {
+    if (!retry || typeof retry !== 'object') {
+      throw new ValidationError('retry must be an object', 'retry');
+    }
+
+    if (retry.maxAttempts !== undefined && (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1)) {
+      throw new ValidationError('retry.maxAttempts must be an integer of at least 1', 'retry.maxAttempts');
+    }
+
+    if (retry.baseDelayMs !== undefined && !(retry.baseDelayMs >= 0)) {
+      throw new ValidationError('retry.baseDelayMs cannot be negative', 'retry.baseDelayMs');
+    }
+
+    if (retry.maxDelayMs !== undefined && !(retry.maxDelayMs >= 0)) {
+      throw new ValidationError('retry.maxDelayMs cannot be negative', 'retry.maxDelayMs');
+    }
+
+    if (retry.retryableStatusCodes !== undefined && !Array.isArray(retry.retryableStatusCodes)) {
+      throw new ValidationError('retry.retryableStatusCodes must be an array of status codes', 'retry.retryableStatusCodes');
+    }
   }
 }
\ No newline at end of file
@@ -1,19 +1,23 @@
-import { PayStationError } from './PayStationError';
+import { PayStationError, PayStationErrorDetails } from './PayStationError';
 
 /**
  * Error thrown when authentication or authorization fails
  */
 export class AuthenticationError extends PayStationError {
+  readonly code: string = 'AUTHENTICATION_FAILED';
+
   /**
    * Creates a new AuthenticationError
    * @param message - Authentication error message
    * @param statusCode - HTTP status code (optional)
+   * @param details - Response context (optional)
    */
   constructor(
     message: string,
-    statusCode?: string
+    statusCode?: string,
+    details: PayStationErrorDetails = {}
   ) {
-    super(message, statusCode);
+    super(message, statusCode, undefined, details);
     this.name = 'AuthenticationError';
     
     if (Error.captureStackTrace) {
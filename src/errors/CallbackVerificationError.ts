@@ -0,0 +1,38 @@
+import { PayStationError } from './PayStationError';
+
+/**
+ * Reasons a callback can fail verification
+ */
+export type CallbackVerificationReason =
+  | 'missing_parameter'
+  | 'transaction_not_found'
+  | 'invoice_mismatch'
+  | 'transaction_id_mismatch'
+  | 'amount_mismatch'
+  | 'metadata_mismatch';
+
+/**
+ * Error thrown when callback parameters cannot be verified against PayStation
+ */
+export class CallbackVerificationError extends PayStationError {
+  readonly code: string = 'CALLBACK_VERIFICATION_FAILED';
+
+  /**
+   * Creates a new CallbackVerificationError
+   * @param message - Verification error message
+   * @param reason - Machine-readable reason for the failure
+   * @param originalError - Original error that caused this error (optional)
+   */
+  constructor(
+    message: string,
+    public readonly reason: CallbackVerificationReason,
+    originalError?: Error
+  ) {
+    super(message, undefined, originalError);
+    this.name = 'CallbackVerificationError';
+    
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CallbackVerificationError);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { PayStationError } from './PayStationError';
+
+/**
+ * Error thrown when a request is cancelled through its AbortSignal
+ */
+export class CancelledError extends PayStationError {
+  readonly code: string = 'CANCELLED';
+
+  /**
+   * Creates a new CancelledError
+   * @param message - Cancellation message
+   * @param originalError - Original abort error or reason (optional)
+   */
+  constructor(
+    message: string,
+    originalError?: Error
+  ) {
+    super(message, undefined, originalError);
+    this.name = 'CancelledError';
+    
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CancelledError);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { PayStationError } from './PayStationError';
+import { PayStationEndpoint } from '../types/http';
+
+/**
+ * Error thrown without sending the request while an endpoint's circuit is open
+ */
+export class CircuitOpenError extends PayStationError {
+  readonly code: string = 'CIRCUIT_OPEN';
+
+  /**
+   * Creates a new CircuitOpenError
+   * @param message - Error message
+   * @param endpoint - Endpoint whose circuit is open
+   * @param retryAfterMs - Time until trial requests are let through, in milliseconds
+   */
+  constructor(
+    message: string,
+    public readonly endpoint: PayStationEndpoint,
+    public readonly retryAfterMs: number
+  ) {
+    super(message, undefined, undefined, { retryable: true });
+    this.name = 'CircuitOpenError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CircuitOpenError);
+    }
+  }
+}
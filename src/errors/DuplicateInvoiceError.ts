@@ -0,0 +1,28 @@
+import { PayStationError } from './PayStationError';
+import { PayStationErrorDetails } from './PayStationError';
+
+/**
+ * Error thrown when PayStation already has a payment with the invoice number
+ */
+export class DuplicateInvoiceError extends PayStationError {
+  readonly code: string = 'DUPLICATE_INVOICE';
+
+  /**
+   * Creates a new DuplicateInvoiceError
+   * @param message - Error message from PayStation
+   * @param statusCode - PayStation API status code (optional)
+   * @param details - Response context (optional)
+   */
+  constructor(
+    message: string,
+    statusCode?: string,
+    details: PayStationErrorDetails = {}
+  ) {
+    super(message, statusCode, undefined, details);
+    this.name = 'DuplicateInvoiceError';
+    
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, DuplicateInvoiceError);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { PayStationError } from './PayStationError';
+
+/**
+ * Error thrown when an invoice number is reused with different payment parameters
+ */
+export class IdempotencyConflictError extends PayStationError {
+  readonly code: string = 'IDEMPOTENCY_CONFLICT';
+
+  /**
+   * Creates a new IdempotencyConflictError
+   * @param message - Conflict error message
+   * @param invoiceNumber - Invoice number that was reused
+   */
+  constructor(
+    message: string,
+    public readonly invoiceNumber: string
+  ) {
+    super(message);
+    this.name = 'IdempotencyConflictError';
+    
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, IdempotencyConflictError);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { PayStationError } from './PayStationError';
+import { PayStationErrorDetails } from './PayStationError';
+
+/**
+ * Error thrown when PayStation rejects the payment amount
+ */
+export class InvalidAmountError extends PayStationError {
+  readonly code: string = 'INVALID_AMOUNT';
+
+  /**
+   * Creates a new InvalidAmountError
+   * @param message - Error message from PayStation
+   * @param statusCode - PayStation API status code (optional)
+   * @param details - Response context (optional)
+   */
+  constructor(
+    message: string,
+    statusCode?: string,
+    details: PayStationErrorDetails = {}
+  ) {
+    super(message, statusCode, undefined, details);
+    this.name = 'InvalidAmountError';
+    
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, InvalidAmountError);
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { NetworkError } from './NetworkError';
+
+/**
+ * Error thrown when PayStation answers with a body that cannot be parsed
+ *
+ * The request reached PayStation, so it is not retried: repeating a payment
+ * initiation whose answer was unreadable could create a second payment.
+ */
+export class MalformedResponseError extends NetworkError {
+  readonly code: string = 'MALFORMED_RESPONSE';
+  readonly retryable: boolean = false;
+
+  /**
+   * Creates a new MalformedResponseError
+   * @param message - Error message
+   * @param originalError - Original parse error (optional)
+   */
+  constructor(
+    message: string,
+    originalError?: Error
+  ) {
+    super(message, originalError);
+    this.name = 'MalformedResponseError';
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, MalformedResponseError);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { AuthenticationError } from './AuthenticationError';
+import { PayStationErrorDetails } from './PayStationError';
+
+/**
+ * Error thrown when the merchant account is inactive or suspended
+ */
+export class MerchantDisabledError extends AuthenticationError {
+  readonly code: string = 'MERCHANT_DISABLED';
+
+  /**
+   * Creates a new MerchantDisabledError
+   * @param message - Error message from PayStation
+   * @param statusCode - PayStation API status code (optional)
+   * @param details - Response context (optional)
+   */
+  constructor(
+    message: string,
+    statusCode?: string,
+    details: PayStationErrorDetails = {}
+  ) {
+    super(message, statusCode, details);
+    this.name = 'MerchantDisabledError';
+    
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, MerchantDisabledError);
+    }
+  }
+}
@@ -4,6 +4,9 @@ import { PayStationError } from './PayStationError';
  * Error thrown when network-related issues occur
  */
 export class NetworkError extends PayStationError {
+  readonly code: string = 'NETWORK_ERROR';
+  readonly retryable: boolean = true;
+
   /**
    * Creates a new NetworkError
    * @param message - Network error message
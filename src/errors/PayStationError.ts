@@ -1,24 +1,107 @@
+import { redactFields } from '../logging/redact';
+import { ValidationIssue } from '../types/validation';
+
+/**
+ * Context attached to errors raised from a PayStation response
+ */
+export interface PayStationErrorDetails {
+  /** HTTP status of the response (optional) */
+  httpStatus?: number;
+  /** Request ID reported by PayStation or a proxy, for support tickets (optional) */
+  requestId?: string;
+  /** Response body as received (optional) */
+  response?: unknown;
+  /** Whether repeating the request may succeed (default: false) */
+  retryable?: boolean;
+}
+
+/**
+ * Loggable representation of a PayStation error
+ */
+export interface PayStationErrorJSON {
+  name: string;
+  code: string;
+  message: string;
+  statusCode?: string;
+  httpStatus?: number;
+  requestId?: string;
+  retryable: boolean;
+  response?: unknown;
+  issues?: ValidationIssue[];
+  cause?: string;
+}
+
 /**
  * Base error class for all PayStation SDK errors
  */
 export class PayStationError extends Error {
+  /** Stable machine-readable error code; subclasses override it */
+  readonly code: string = 'PAYSTATION_ERROR';
+  /** Whether repeating the request may succeed */
+  readonly retryable: boolean;
+  /** HTTP status of the response, when the error came from one */
+  readonly httpStatus?: number;
+  /** Request ID reported by PayStation or a proxy, when available */
+  readonly requestId?: string;
+  /** Response body as received, when the error came from a response */
+  readonly response?: unknown;
+
   /**
    * Creates a new PayStationError
    * @param message - Error message
    * @param statusCode - PayStation API status code (optional)
    * @param originalError - Original error that caused this error (optional)
+   * @param details - Response context and retryability (optional)
    */
   constructor(
     message: string,
     public readonly statusCode?: string,
-    public readonly originalError?: Error
+    public readonly originalError?: Error,
+    details: PayStationErrorDetails = {}
   ) {
     super(message);
     this.name = 'PayStationError';
+    this.retryable = details.retryable ?? false;
+    this.httpStatus = details.httpStatus;
+    this.requestId = details.requestId;
+    this.response = details.response;
     
     // Maintains proper stack trace for where our error was thrown (only available on V8)
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, PayStationError);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Serialize the error for logging, with credentials and contact details in the response redacted
+   * @returns Plain object safe to pass to a logger
+   */
+  toJSON(): PayStationErrorJSON {
+    const json: PayStationErrorJSON = {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable
+    };
+
+    if (this.statusCode !== undefined) {
+      json.statusCode = this.statusCode;
+    }
+    if (this.httpStatus !== undefined) {
+      json.httpStatus = this.httpStatus;
+    }
+    if (this.requestId !== undefined) {
+      json.requestId = this.requestId;
+    }
+    if (this.response !== undefined) {
+      json.response = this.response && typeof this.response === 'object' && !Array.isArray(this.response)
+        ? redactFields(this.response as Record<string, unknown>)
+        : this.response;
+    }
+    if (this.originalError) {
+      json.cause = this.originalError.message;
+    }
+
+    return json;
+  }
+}
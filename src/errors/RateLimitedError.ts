@@ -0,0 +1,30 @@
+import { PayStationError, PayStationErrorDetails } from './PayStationError';
+
+/**
+ * Error thrown when PayStation rejects a request because too many were sent
+ */
+export class RateLimitedError extends PayStationError {
+  readonly code: string = 'RATE_LIMITED';
+  readonly retryable: boolean = true;
+
+  /**
+   * Creates a new RateLimitedError
+   * @param message - Error message from PayStation
+   * @param statusCode - PayStation API status code (optional)
+   * @param details - Response context (optional)
+   * @param retryAfterMs - Delay requested by the Retry-After header in milliseconds (optional)
+   */
+  constructor(
+    message: string,
+    statusCode?: string,
+    details: PayStationErrorDetails = {},
+    public readonly retryAfterMs?: number
+  ) {
+    super(message, statusCode, undefined, details);
+    this.name = 'RateLimitedError';
+    
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, RateLimitedError);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { ValidationError } from './ValidationError';
+import { ValidationIssue } from '../types/validation';
+
+/**
+ * Error thrown when a PayStation response does not match the expected schema
+ */
+export class ResponseValidationError extends ValidationError {
+  readonly code: string = 'INVALID_RESPONSE';
+
+  /**
+   * Creates a new ResponseValidationError
+   * @param message - Validation error message
+   * @param issues - Every problem found in the response, with field paths
+   */
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message, issues[0]?.field, issues);
+    this.name = 'ResponseValidationError';
+    
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, ResponseValidationError);
+    }
+  }
+}
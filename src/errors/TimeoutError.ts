@@ -0,0 +1,27 @@
+import { NetworkError } from './NetworkError';
+
+/**
+ * Error thrown when a request does not complete within its timeout
+ */
+export class TimeoutError extends NetworkError {
+  readonly code: string = 'TIMEOUT';
+
+  /**
+   * Creates a new TimeoutError
+   * @param message - Timeout error message
+   * @param timeoutMs - Timeout that was exceeded, in milliseconds
+   * @param originalError - Original abort error (optional)
+   */
+  constructor(
+    message: string,
+    public readonly timeoutMs: number,
+    originalError?: Error
+  ) {
+    super(message, originalError);
+    this.name = 'TimeoutError';
+    
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, TimeoutError);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { PayStationError } from './PayStationError';
+import { PayStationErrorDetails } from './PayStationError';
+
+/**
+ * Error thrown when PayStation has no transaction for the invoice number or transaction ID
+ */
+export class TransactionNotFoundError extends PayStationError {
+  readonly code: string = 'TRANSACTION_NOT_FOUND';
+
+  /**
+   * Creates a new TransactionNotFoundError
+   * @param message - Error message from PayStation
+   * @param statusCode - PayStation API status code (optional)
+   * @param details - Response context (optional)
+   */
+  constructor(
+    message: string,
+    statusCode?: string,
+    details: PayStationErrorDetails = {}
+  ) {
+    super(message, statusCode, undefined, details);
+    this.name = 'TransactionNotFoundError';
+    
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, TransactionNotFoundError);
+    }
+  }
+}
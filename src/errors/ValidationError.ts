@@ -1,23 +1,39 @@
-import { PayStationError } from './PayStationError';
+import { PayStationError, PayStationErrorJSON } from './PayStationError';
+import { ValidationIssue } from '../types/validation';
 
 /**
  * Error thrown when parameter validation fails
  */
 export class ValidationError extends PayStationError {
+  readonly code: string = 'VALIDATION_ERROR';
+  /** Every problem found, with field paths; at least one entry when `field` is set */
+  readonly issues: ValidationIssue[];
+
   /**
    * Creates a new ValidationError
    * @param message - Validation error message
    * @param field - Field that failed validation (optional)
+   * @param issues - Every problem found; defaults to a single issue for `field` (optional)
    */
   constructor(
     message: string,
-    public readonly field?: string
+    public readonly field?: string,
+    issues?: ValidationIssue[]
   ) {
     super(message);
     this.name = 'ValidationError';
+    this.issues = issues ?? (field !== undefined ? [{ field, code: 'invalid_value', message }] : []);
     
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, ValidationError);
     }
   }
+
+  /**
+   * Convert the error to a plain object for logging, including the issues
+   * @returns Loggable representation of the error
+   */
+  toJSON(): PayStationErrorJSON {
+    return { ...super.toJSON(), issues: this.issues };
+  }
 }
\ No newline at end of file
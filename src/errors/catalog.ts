@@ -0,0 +1,69 @@
+import { PayStationError, PayStationErrorDetails } from './PayStationError';
+import { AuthenticationError } from './AuthenticationError';
+import { MerchantDisabledError } from './MerchantDisabledError';
+import { InvalidAmountError } from './InvalidAmountError';
+import { DuplicateInvoiceError } from './DuplicateInvoiceError';
+import { TransactionNotFoundError } from './TransactionNotFoundError';
+import { RateLimitedError } from './RateLimitedError';
+
+/**
+ * Maps a PayStation failure message to an error class
+ */
+interface ErrorCatalogEntry {
+  /** Phrase in PayStation's message that names the failure */
+  messagePattern: RegExp;
+  /** Creates the error */
+  create: (message: string, statusCode: string | undefined, details: PayStationErrorDetails) => PayStationError;
+}
+
+/**
+ * PayStation does not document its `statusCode` values, so failures are classified on the
+ * message alone (HTTP statuses are handled by the response parser). Each pattern names its
+ * failure precisely: callers act on these classes, e.g. by treating a DuplicateInvoiceError
+ * as an existing payment, so a vague message must stay a plain PayStationError.
+ */
+const ERROR_CATALOG: ErrorCatalogEntry[] = [
+  {
+    messagePattern: /\binvalid (?:merchant (?:id|credentials?|password)|credentials|password)\b/i,
+    create: (message, statusCode, details) => new AuthenticationError(message, statusCode, details)
+  },
+  {
+    messagePattern: /\bmerchant (?:account )?(?:is |has been )?(?:disabled|inactive|suspended|blocked)\b/i,
+    create: (message, statusCode, details) => new MerchantDisabledError(message, statusCode, details)
+  },
+  {
+    messagePattern: /\binvalid (?:payment |refund |transaction )?amount\b|\bamount (?:is invalid|is below the minimum|exceeds)\b/i,
+    create: (message, statusCode, details) => new InvalidAmountError(message, statusCode, details)
+  },
+  {
+    messagePattern: /\bduplicate invoice\b|\binvoice(?: number)? (?:already exists|has already been used|is already used)\b/i,
+    create: (message, statusCode, details) => new DuplicateInvoiceError(message, statusCode, details)
+  },
+  {
+    messagePattern: /\b(?:transaction|invoice|refund) not found\b|\bno (?:transaction|refund) found\b/i,
+    create: (message, statusCode, details) => new TransactionNotFoundError(message, statusCode, details)
+  },
+  {
+    messagePattern: /\btoo many requests\b|\brate limit exceeded\b/i,
+    create: (message, statusCode, details) => new RateLimitedError(message, statusCode, details)
+  }
+];
+
+/**
+ * Create the most specific error for a failed PayStation response
+ * @param message - Error message from PayStation
+ * @param statusCode - PayStation API status code, kept on the error (optional)
+ * @param details - Response context (optional)
+ * @returns A catalogued error subclass, or a PayStationError for unknown failures
+ */
+export function createApiError(
+  message: string,
+  statusCode?: string,
+  details: PayStationErrorDetails = {}
+): PayStationError {
+  const entry = ERROR_CATALOG.find((candidate) => candidate.messagePattern.test(message));
+
+  return entry
+    ? entry.create(message, statusCode, details)
+    : new PayStationError(message, statusCode, undefined, details);
+}
@@ -1,5 +1,20 @@
 // Export all error classes
 export { PayStationError } from './PayStationError';
+export type { PayStationErrorDetails, PayStationErrorJSON } from './PayStationError';
 export { ValidationError } from './ValidationError';
 export { AuthenticationError } from './AuthenticationError';
-export { NetworkError } from './NetworkError';
\ No newline at end of file
+export { NetworkError } from './NetworkError';
+export { TimeoutError } from './TimeoutError';
+export { MalformedResponseError } from './MalformedResponseError';
+export { CancelledError } from './CancelledError';
+export { CallbackVerificationError } from './CallbackVerificationError';
+export { IdempotencyConflictError } from './IdempotencyConflictError';
+export { ResponseValidationError } from './ResponseValidationError';
+export { DuplicateInvoiceError } from './DuplicateInvoiceError';
+export { TransactionNotFoundError } from './TransactionNotFoundError';
+export { InvalidAmountError } from './InvalidAmountError';
+export { MerchantDisabledError } from './MerchantDisabledError';
+export { RateLimitedError } from './RateLimitedError';
+export { CircuitOpenError } from './CircuitOpenError';
+export { createApiError } from './catalog';
+export type { CallbackVerificationReason } from './CallbackVerificationError';
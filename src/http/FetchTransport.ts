@@ -0,0 +1,134 @@
+import { HttpRequest, HttpResponse, FetchLike, Transport } from '../types/http';
+import { NetworkError } from '../errors/NetworkError';
+import { MalformedResponseError } from '../errors/MalformedResponseError';
+
+/**
+ * Transport that sends requests through a fetch implementation
+ * (SWR's universal fetch by default)
+ */
+export class FetchTransport implements Transport {
+  private fetcher: FetchLike;
+
+  constructor(customFetcher?: FetchLike) {
+    this.fetcher = customFetcher || this.createSWRFetcher();
+  }
+
+  /**
+   * Sends an HTTP request using fetch
+   * @param request - The HTTP request to send
+   * @returns Promise resolving to HTTP response
+   * @throws NetworkError for network-related issues
+   */
+  async send(request: HttpRequest): Promise<HttpResponse> {
+    try {
+      const requestInit: RequestInit = {
+        method: request.method,
+        headers: request.headers,
+      };
+
+      if (request.signal) {
+        requestInit.signal = request.signal;
+      }
+
+      // Add body for non-GET requests
+      if (request.body && request.method !== 'GET') {
+        requestInit.body = request.body;
+      }
+
+      const response = await this.fetcher(request.url, requestInit);
+
+      // Parse response data
+      let data: unknown;
+      const contentType = response.headers.get('content-type');
+      
+      if (contentType && contentType.includes('application/json')) {
+        try {
+          data = await response.json();
+        } catch (parseError) {
+          throw new MalformedResponseError(
+            'Failed to parse JSON response',
+            parseError as Error
+          );
+        }
+      } else {
+        data = await response.text();
+      }
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        data,
+        headers,
+      };
+    } catch (error) {
+      if (error instanceof NetworkError) {
+        throw error;
+      }
+
+      // Handle network errors (connection issues, timeouts, etc.)
+      if (error instanceof TypeError && error.message.includes('fetch')) {
+        throw new NetworkError(
+          'Network request failed - please check your internet connection',
+          error
+        );
+      }
+
+      // Handle timeout errors
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new NetworkError(
+          'Request timeout - the server took too long to respond',
+          error
+        );
+      }
+
+      // Generic network error
+      throw new NetworkError(
+        'An unexpected network error occurred',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Creates a universal fetcher using SWR's approach
+   * This works across browser, Node.js, and serverless environments
+   */
+  private createSWRFetcher(): FetchLike {
+    // SWR's universal fetch approach
+    // In browser environments, use native fetch
+    if (typeof window !== 'undefined' && window.fetch) {
+      return window.fetch.bind(window);
+    }
+
+    // In Node.js environments, try to use node-fetch or native fetch (Node 18+)
+    if (typeof global !== 'undefined') {
+      // Try native fetch first (Node.js 18+)
+      if (typeof fetch !== 'undefined') {
+        return fetch;
+      }
+
+      // Fallback to dynamic import of node-fetch for older Node.js versions
+      // This is handled by SWR internally, but we'll implement a basic version
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const { default: fetch } = require('node-fetch');
+        return fetch;
+      } catch {
+        // If node-fetch is not available, throw an error
+        throw new NetworkError(
+          'No fetch implementation available. Please install node-fetch for Node.js environments or use Node.js 18+'
+        );
+      }
+    }
+
+    // Fallback error
+    throw new NetworkError(
+      'Unsupported environment - no fetch implementation available'
+    );
+  }
+}
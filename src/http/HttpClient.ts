@@ -1,122 +1,204 @@
-import { HttpRequest, HttpResponse } from '../types/http';
+import { HttpRequest, HttpResponse, FetchLike, Transport, Middleware } from '../types/http';
+import { PayStationError } from '../errors/PayStationError';
 import { NetworkError } from '../errors/NetworkError';
+import { TimeoutError } from '../errors/TimeoutError';
+import { CancelledError } from '../errors/CancelledError';
+import { RetryPolicy } from './RetryPolicy';
+import { FetchTransport } from './FetchTransport';
+import { MiddlewarePipeline } from './MiddlewarePipeline';
+import { RateLimiter } from '../ratelimit/RateLimiter';
+import { CircuitBreaker } from '../circuit/CircuitBreaker';
+import { sleep } from '../utils/sleep';
 
 /**
- * HTTP client that uses SWR's universal fetch for cross-environment compatibility
+ * Options for the HTTP client
+ */
+export interface HttpClientOptions {
+  /** Transport used to send requests - takes precedence over the custom fetcher */
+  transport?: Transport;
+  /** Retry policy for transient failures - requests are sent once when omitted */
+  retryPolicy?: RetryPolicy;
+  /** Default timeout for each attempt in milliseconds - no timeout when omitted */
+  timeoutMs?: number;
+  /** Rate limiter every attempt waits for - requests are sent at once when omitted */
+  rateLimiter?: RateLimiter;
+  /** Circuit breaker every attempt passes through - circuits are never opened when omitted */
+  circuitBreaker?: CircuitBreaker;
+}
+
+/**
+ * HTTP client that sends requests through a transport (SWR's universal fetch by default)
+ * and applies middleware, timeouts, the circuit breaker, the rate limiter and the retry policy
  */
 export class HttpClient {
-  private fetcher: (url: string, options?: RequestInit) => Promise<Response>;
+  private readonly transport: Transport;
+  private readonly retryPolicy?: RetryPolicy;
+  private readonly timeoutMs?: number;
+  private readonly rateLimiter?: RateLimiter;
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly pipeline = new MiddlewarePipeline();
+
+  constructor(customFetcher?: FetchLike, options: HttpClientOptions = {}) {
+    this.transport = options.transport || new FetchTransport(customFetcher);
+    this.retryPolicy = options.retryPolicy;
+    this.timeoutMs = options.timeoutMs;
+    this.rateLimiter = options.rateLimiter;
+    this.circuitBreaker = options.circuitBreaker;
+  }
 
-  constructor(customFetcher?: (url: string, options?: RequestInit) => Promise<Response>) {
-    this.fetcher = customFetcher || this.createSWRFetcher();
+  /**
+   * Register a middleware around every request
+   * @param middleware - Middleware to add to the end of the chain
+   */
+  use(middleware: Middleware): void {
+    this.pipeline.use(middleware);
   }
 
   /**
-   * Makes an HTTP request using SWR's universal fetch
+   * Makes an HTTP request through the middleware chain
    * @param request - The HTTP request to make
    * @returns Promise resolving to HTTP response
    * @throws NetworkError for network-related issues
+   * @throws TimeoutError when an attempt exceeds its timeout
+   * @throws CancelledError when the request's signal is aborted
+   * @throws RateLimitedError when the rate limiter cannot send the request in time
+   * @throws CircuitOpenError when the endpoint's circuit is open
    */
-  async request(request: HttpRequest): Promise<HttpResponse> {
-    try {
-      const requestInit: RequestInit = {
-        method: request.method,
-        headers: request.headers,
-      };
-
-      // Add body for non-GET requests
-      if (request.body && request.method !== 'GET') {
-        requestInit.body = request.body;
+  request(request: HttpRequest): Promise<HttpResponse> {
+    return this.pipeline.execute(request, (current) => this.execute(current));
+  }
+
+  /**
+   * Sends a request, retrying transient failures according to the retry policy
+   * @param request - The HTTP request to send
+   * @returns Promise resolving to HTTP response
+   */
+  private async execute(request: HttpRequest): Promise<HttpResponse> {
+    const maxAttempts = this.retryPolicy ? this.retryPolicy.getMaxAttempts(request) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = attempt < maxAttempts;
+
+      if (request.signal?.aborted) {
+        throw new CancelledError('Request was cancelled');
       }
 
-      const response = await this.fetcher(request.url, requestInit);
-
-      // Parse response data
-      let data: unknown;
-      const contentType = response.headers.get('content-type');
-      
-      if (contentType && contentType.includes('application/json')) {
-        try {
-          data = await response.json();
-        } catch (parseError) {
-          throw new NetworkError(
-            'Failed to parse JSON response',
-            parseError as Error
-          );
+      try {
+        const response = await this.attempt(request);
+
+        if (canRetry && this.retryPolicy!.shouldRetryResponse(response)) {
+          await sleep(this.retryPolicy!.getDelay(attempt, response), request.signal);
+          continue;
+        }
+
+        return response;
+      } catch (error) {
+        if (canRetry && this.retryPolicy!.shouldRetryError(error)) {
+          await sleep(this.retryPolicy!.getDelay(attempt), request.signal);
+          continue;
         }
-      } else {
-        data = await response.text();
-      }
 
-      return {
-        status: response.status,
-        statusText: response.statusText,
-        data,
-      };
-    } catch (error) {
-      if (error instanceof NetworkError) {
         throw error;
       }
+    }
+  }
 
-      // Handle network errors (connection issues, timeouts, etc.)
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new NetworkError(
-          'Network request failed - please check your internet connection',
-          error
-        );
+  /**
+   * Sends one attempt through the circuit breaker and rate limiter
+   * @param request - The HTTP request to send
+   * @returns Promise resolving to HTTP response
+   * @throws CircuitOpenError when the endpoint's circuit is open
+   */
+  private async attempt(request: HttpRequest): Promise<HttpResponse> {
+    // Fail fast before the rate limiter spends a token on a request that cannot go out
+    const permit = this.circuitBreaker?.acquire(request);
+    let response: HttpResponse;
+
+    try {
+      if (this.rateLimiter) {
+        await this.rateLimiter.acquire(request);
+        // The caller may have given up while the request was held back
+        if (request.signal?.aborted) {
+          throw new CancelledError('Request was cancelled');
+        }
       }
 
-      // Handle timeout errors
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new NetworkError(
-          'Request timeout - the server took too long to respond',
-          error
-        );
+      response = await this.send(request);
+    } catch (error) {
+      if (permit) {
+        this.circuitBreaker!.record(permit, error instanceof NetworkError ? 'failure' : 'ignored');
       }
+      throw error;
+    }
 
-      // Generic network error
-      throw new NetworkError(
-        'An unexpected network error occurred',
-        error as Error
-      );
+    if (permit) {
+      this.circuitBreaker!.record(permit, response.status >= 500 ? 'failure' : 'success');
     }
+    await this.rateLimiter?.observe(request, response);
+    return response;
   }
 
   /**
-   * Creates a universal fetcher using SWR's approach
-   * This works across browser, Node.js, and serverless environments
+   * Sends a single attempt through the transport, enforcing the timeout
+   * @param request - The HTTP request to send
+   * @returns Promise resolving to HTTP response
+   * @throws NetworkError for network-related issues
    */
-  private createSWRFetcher(): (url: string, options?: RequestInit) => Promise<Response> {
-    // SWR's universal fetch approach
-    // In browser environments, use native fetch
-    if (typeof window !== 'undefined' && window.fetch) {
-      return window.fetch.bind(window);
-    }
+  private async send(request: HttpRequest): Promise<HttpResponse> {
+    const timeoutMs = request.timeoutMs ?? this.timeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+
+    // Forward cancellation from the caller's signal to this attempt
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const timer = timeoutMs !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+    try {
+      if (!request.signal && timer === undefined) {
+        return await this.transport.send(request);
+      }
 
-    // In Node.js environments, try to use node-fetch or native fetch (Node 18+)
-    if (typeof global !== 'undefined') {
-      // Try native fetch first (Node.js 18+)
-      if (typeof fetch !== 'undefined') {
-        return fetch;
+      // Race the abort so timeouts also hold for transports that ignore the signal
+      const aborted = new Promise<never>((_resolve, reject) => {
+        controller.signal.addEventListener('abort', () => reject(new Error('Request aborted')), { once: true });
+      });
+
+      return await Promise.race([
+        this.transport.send({ ...request, signal: controller.signal }),
+        aborted
+      ]);
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw new CancelledError('Request was cancelled', error as Error);
       }
 
-      // Fallback to dynamic import of node-fetch for older Node.js versions
-      // This is handled by SWR internally, but we'll implement a basic version
-      try {
-        // eslint-disable-next-line @typescript-eslint/no-var-requires
-        const { default: fetch } = require('node-fetch');
-        return fetch;
-      } catch {
-        // If node-fetch is not available, throw an error
-        throw new NetworkError(
-          'No fetch implementation available. Please install node-fetch for Node.js environments or use Node.js 18+'
+      if (timedOut) {
+        throw new TimeoutError(
+          `Request timeout - the server did not respond within ${timeoutMs}ms`,
+          timeoutMs!,
+          error as Error
         );
       }
-    }
 
-    // Fallback error
-    throw new NetworkError(
-      'Unsupported environment - no fetch implementation available'
-    );
+      if (error instanceof PayStationError) {
+        throw error;
+      }
+
+      // Custom transports may throw anything; surface it as a network failure
+      throw new NetworkError(
+        'An unexpected network error occurred',
+        error as Error
+      );
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
   }
-}
\ No newline at end of file
+}
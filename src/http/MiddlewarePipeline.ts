@@ -0,0 +1,42 @@
+import { HttpRequest, HttpResponse, Middleware, MiddlewareNext } from '../types/http';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Runs requests through registered middleware in onion order: the first
+ * middleware registered sees the request first and the response last
+ */
+export class MiddlewarePipeline {
+  private readonly middlewares: Middleware[] = [];
+
+  /**
+   * Register a middleware at the end of the chain
+   * @param middleware - Middleware to register
+   * @throws {ValidationError} When middleware is not a function
+   */
+  use(middleware: Middleware): void {
+    if (typeof middleware !== 'function') {
+      throw new ValidationError('Middleware must be a function');
+    }
+    this.middlewares.push(middleware);
+  }
+
+  /**
+   * Run a request through the chain
+   * @param request - Request built by the SDK
+   * @param handler - Sends the request once every middleware has called next
+   * @returns Promise resolving to the response returned through the chain
+   */
+  execute(request: HttpRequest, handler: MiddlewareNext): Promise<HttpResponse> {
+    // Snapshot the chain so middleware registered mid-request does not affect it
+    const chain = this.middlewares.slice();
+
+    const dispatch = async (index: number, current: HttpRequest): Promise<HttpResponse> => {
+      if (index === chain.length) {
+        return handler(current);
+      }
+      return chain[index](current, (next) => dispatch(index + 1, next));
+    };
+
+    return dispatch(0, request);
+  }
+}
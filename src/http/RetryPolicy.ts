@@ -0,0 +1,79 @@
+import { RetryConfig } from '../types/config';
+import { HttpRequest, HttpResponse } from '../types/http';
+import { NetworkError } from '../errors/NetworkError';
+import { parseRetryAfter } from '../utils/retryAfter';
+
+/**
+ * Decides whether a failed attempt should be retried and how long to wait
+ */
+export class RetryPolicy {
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly jitter: boolean;
+  private readonly retryableStatusCodes: number[];
+  private readonly retryOnNetworkError: boolean;
+  private readonly retryNonIdempotent: boolean;
+
+  constructor(config: RetryConfig = {}) {
+    this.maxAttempts = config.maxAttempts ?? 3;
+    this.baseDelayMs = config.baseDelayMs ?? 200;
+    this.maxDelayMs = config.maxDelayMs ?? 5000;
+    this.jitter = config.jitter ?? true;
+    this.retryableStatusCodes = config.retryableStatusCodes ?? [502, 503, 504];
+    this.retryOnNetworkError = config.retryOnNetworkError ?? true;
+    this.retryNonIdempotent = config.retryNonIdempotent ?? false;
+  }
+
+  /**
+   * Get the maximum number of attempts for a request
+   * @param request - Request about to be sent
+   * @returns Number of attempts allowed (1 when the request must not be retried)
+   */
+  getMaxAttempts(request: HttpRequest): number {
+    if (!request.idempotent && !this.retryNonIdempotent) {
+      return 1;
+    }
+    return this.maxAttempts;
+  }
+
+  /**
+   * Check whether a response should be retried
+   * @param response - Response received for the attempt
+   * @returns True if the status code is retryable and any Retry-After delay is within maxDelayMs
+   */
+  shouldRetryResponse(response: HttpResponse): boolean {
+    if (!this.retryableStatusCodes.includes(response.status)) {
+      return false;
+    }
+
+    // Hand a long server-requested pause back to the caller instead of blocking on it
+    const retryAfterMs = parseRetryAfter(response.headers?.['retry-after']);
+    return retryAfterMs === undefined || retryAfterMs <= this.maxDelayMs;
+  }
+
+  /**
+   * Check whether an error should be retried
+   * @param error - Error raised by the attempt
+   * @returns True if the error is a retryable network failure; unreadable responses are not
+   */
+  shouldRetryError(error: unknown): boolean {
+    return this.retryOnNetworkError && error instanceof NetworkError && error.retryable;
+  }
+
+  /**
+   * Get the delay before the next attempt
+   * @param attempt - Number of the attempt that just failed (starting at 1)
+   * @param response - Response of the failed attempt, whose Retry-After header takes precedence (optional)
+   * @returns Delay in milliseconds
+   */
+  getDelay(attempt: number, response?: HttpResponse): number {
+    const retryAfterMs = parseRetryAfter(response?.headers?.['retry-after']);
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs;
+    }
+
+    const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempt - 1));
+    return this.jitter ? Math.floor(Math.random() * backoff) : backoff;
+  }
+}
@@ -1 +1,5 @@
-export { HttpClient } from './HttpClient';
\ No newline at end of file
+export { HttpClient } from './HttpClient';
+export { RetryPolicy } from './RetryPolicy';
+export { FetchTransport } from './FetchTransport';
+export { MiddlewarePipeline } from './MiddlewarePipeline';
+export type { HttpClientOptions } from './HttpClient';
@@ -0,0 +1,84 @@
+import { IdempotencyStore } from '../types/idempotency';
+import { InitiatePaymentParams } from '../types/requests';
+import { InitiatePaymentResponse } from '../types/responses';
+import { IdempotencyConflictError } from '../errors/IdempotencyConflictError';
+import { fingerprint } from './fingerprint';
+
+/**
+ * Makes payment initiation idempotent per invoice number
+ * Identical retries reuse the stored response (or join a request still in flight),
+ * while reusing an invoice number with different parameters raises a conflict
+ */
+export class IdempotencyGuard {
+  private readonly inFlight = new Map<string, { fingerprint: string; promise: Promise<InitiatePaymentResponse> }>();
+
+  constructor(
+    private readonly store: IdempotencyStore,
+    private readonly ttlMs: number
+  ) {}
+
+  /**
+   * Runs a payment initiation unless an identical one already completed
+   * @param params - Payment parameters, keyed by their invoice number
+   * @param initiate - Sends the initiation to PayStation
+   * @returns The stored or newly created initiation response
+   * @throws {IdempotencyConflictError} When the invoice number was used with different parameters
+   */
+  async run(
+    params: InitiatePaymentParams,
+    initiate: () => Promise<InitiatePaymentResponse>
+  ): Promise<InitiatePaymentResponse> {
+    const key = `initiate-payment:${params.invoiceNumber}`;
+    const paramsFingerprint = fingerprint(params);
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.assertSameFingerprint(params.invoiceNumber, pending.fingerprint, paramsFingerprint);
+      return pending.promise;
+    }
+
+    const promise = this.initiateOnce(key, params.invoiceNumber, paramsFingerprint, initiate);
+    this.inFlight.set(key, { fingerprint: paramsFingerprint, promise });
+
+    try {
+      return await promise;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Returns the stored response for the key, or initiates and stores a new one
+   * @private
+   */
+  private async initiateOnce(
+    key: string,
+    invoiceNumber: string,
+    paramsFingerprint: string,
+    initiate: () => Promise<InitiatePaymentResponse>
+  ): Promise<InitiatePaymentResponse> {
+    const record = await this.store.get(key);
+    if (record) {
+      this.assertSameFingerprint(invoiceNumber, record.fingerprint, paramsFingerprint);
+      return record.response;
+    }
+
+    // Failed initiations are not stored, so they can be retried
+    const response = await initiate();
+    await this.store.set(key, { fingerprint: paramsFingerprint, response, createdAt: Date.now() }, this.ttlMs);
+    return response;
+  }
+
+  /**
+   * Throws when a stored fingerprint differs from the current one
+   * @private
+   */
+  private assertSameFingerprint(invoiceNumber: string, stored: string, current: string): void {
+    if (stored !== current) {
+      throw new IdempotencyConflictError(
+        `Invoice number ${invoiceNumber} was already used to initiate a payment with different parameters`,
+        invoiceNumber
+      );
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { IdempotencyRecord, IdempotencyStore } from '../types/idempotency';
+
+/**
+ * In-memory idempotency store
+ * Records live as long as the process, so use a shared store such as Redis
+ * when several instances initiate payments
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, { record: IdempotencyRecord; expiresAt: number }>();
+
+  async get(key: string): Promise<IdempotencyRecord | undefined> {
+    const entry = this.records.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return undefined;
+    }
+
+    return entry.record;
+  }
+
+  async set(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void> {
+    this.records.set(key, { record, expiresAt: Date.now() + ttlMs });
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Serializes a value as JSON with object keys sorted and undefined properties dropped,
+ * so equal values always produce the same string
+ * @param value - Value to serialize
+ * @returns Canonical JSON string
+ */
+export function canonicalJson(value: unknown): string {
+  if (value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return canonicalJson((value as { toJSON(): unknown }).toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Computes a 64-bit FNV-1a hash of a value's canonical JSON
+ * Used to compare payloads without keeping customer data in the store; not a cryptographic hash
+ * @param value - Value to hash
+ * @returns Hash as 16 hexadecimal characters
+ */
+export function fingerprint(value: unknown): string {
+  const input = canonicalJson(value);
+  // 64-bit FNV-1a split into two 32-bit halves, as ES2020 has no 64-bit integer multiply without BigInt
+  let high = 0xcbf29ce4;
+  let low = 0x84222325;
+
+  for (let i = 0; i < input.length; i++) {
+    low = (low ^ input.charCodeAt(i)) >>> 0;
+    // Multiply by the FNV prime 0x100000001b3 = 2^40 + 0x1b3
+    const lowProduct = low * 0x1b3;
+    const carry = Math.floor(lowProduct / 0x100000000);
+    high = (Math.imul(high, 0x1b3) + Math.imul(low, 0x100) + carry) >>> 0;
+    low = lowProduct >>> 0;
+  }
+
+  return high.toString(16).padStart(8, '0') + low.toString(16).padStart(8, '0');
+}
@@ -0,0 +1,3 @@
+export { IdempotencyGuard } from './IdempotencyGuard';
+export { MemoryIdempotencyStore } from './MemoryIdempotencyStore';
+export { canonicalJson, fingerprint } from './fingerprint';
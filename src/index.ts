@@ -4,20 +4,138 @@ export { PayStationSDK } from './PayStationSDK';
 // Export user-facing types
 export type {
   PayStationConfig,
+  RetryConfig,
   InitiatePaymentParams,
+  RequestOptions,
   InitiatePaymentResponse,
   TransactionStatusResponse,
   TransactionData,
   TransactionStatus,
-  ApiStatus
+  ApiStatus,
+  PaymentAmounts,
+  TransactionAmounts,
+  RefundParams,
+  RefundResponse,
+  RefundData,
+  RefundAmounts,
+  RefundStatus,
+  Currency,
+  RoundingMode,
+  MoneyJSON,
+  ValidationIssue,
+  ValidationIssueCode,
+  ResponseValidationMode,
+  PaymentParamsValidationOptions,
+  CheckoutItem,
+  CheckoutLineType,
+  ParsedCheckoutItem,
+  InvoiceNumberFormat,
+  InvoiceNumberOptions,
+  InvoiceNumberValidationOptions,
+  PaymentMetadata,
+  MetadataEncoding,
+  MetadataConfig,
+  MetadataFields,
+  MobileOperator,
+  PhoneNumber,
+  PhoneNumberOptions,
+  CallbackStatus,
+  CallbackInput,
+  CallbackPayload,
+  CallbackVerificationOptions,
+  VerifiedCallback,
+  TransactionReference,
+  WaitForTransactionOptions,
+  TransactionStatusBatchOptions,
+  TransactionStatusResult,
+  RateLimitConfig,
+  RateLimiterConfig,
+  RateLimitStore,
+  CircuitState,
+  CircuitStateChange,
+  CircuitBreakerConfig,
+  EndpointHealth,
+  HealthReport,
+  ReconciliationOrder,
+  ReconciliationOutcome,
+  ReconciliationEntry,
+  ReconciliationSummary,
+  ReconcileOptions,
+  ReconciliationClient,
+  ReconciliationReportJSON,
+  ReconciliationEntryJSON,
+  Transaction,
+  TransactionSource,
+  HttpRequest,
+  HttpResponse,
+  FetchLike,
+  Transport,
+  Middleware,
+  MiddlewareNext,
+  PayStationEndpoint,
+  Logger,
+  LogLevel,
+  PinoLogger,
+  IdempotencyConfig,
+  IdempotencyRecord,
+  IdempotencyStore
 } from './types';
 
 export { Environment, PaymentMethod } from './types';
 
+// Decimal-safe amounts
+export { Money } from './money';
+
+// Payment parameter checks for form validation, e.g. in the browser
+export { validatePaymentParams } from './request';
+
+// Structured checkout items
+export { serializeCheckoutItems, parseCheckoutItems, checkoutTotal } from './checkout';
+
+// Invoice number generation and validation
+export { InvoiceNumber } from './invoice';
+
+// Typed metadata packed into the optA/optB/optC pass-through fields
+export { MetadataCodec } from './metadata';
+
+// Bangladeshi mobile number parsing and E.164 normalization
+export { parsePhoneNumber, normalizePhoneNumber } from './utils';
+
+// Default transport, for wrapping or delegating from custom transports
+export { FetchTransport } from './http';
+
+// Redaction helpers for logging requests in custom middleware, and the pino adapter
+export { redactRequest, fromPino } from './logging';
+export type { RedactedRequest } from './logging';
+
+// Reconciliation of local orders against PayStation's records
+export { Reconciler, ReconciliationReport } from './reconciliation';
+
+// Default idempotency store, for single-process deployments and tests
+export { MemoryIdempotencyStore } from './idempotency';
+
+// Default rate limit store, for single-process deployments and tests
+export { MemoryRateLimitStore } from './ratelimit';
+
 // Export error classes
 export {
   PayStationError,
   ValidationError,
   AuthenticationError,
-  NetworkError
-} from './errors';
\ No newline at end of file
+  NetworkError,
+  TimeoutError,
+  MalformedResponseError,
+  CancelledError,
+  CallbackVerificationError,
+  IdempotencyConflictError,
+  ResponseValidationError,
+  MerchantDisabledError,
+  InvalidAmountError,
+  DuplicateInvoiceError,
+  TransactionNotFoundError,
+  RateLimitedError,
+  CircuitOpenError,
+  createApiError
+} from './errors';
+
+export type { CallbackVerificationReason, PayStationErrorDetails, PayStationErrorJSON } from './errors';
\ No newline at end of file
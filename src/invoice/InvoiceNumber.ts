@@ -0,0 +1,198 @@
+import { InvoiceNumberOptions, InvoiceNumberValidationOptions } from '../types/invoice';
+import { ValidationIssue } from '../types/validation';
+import { ValidationError } from '../errors/ValidationError';
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const ISO_7064_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Generates and validates invoice numbers
+ *
+ * Generated numbers start with a prefix and the time they were created, so numbers with the
+ * same prefix sort chronologically, and end with enough randomness that services generating
+ * numbers independently do not collide.
+ */
+export class InvoiceNumber {
+  /** Maximum length of generated invoice numbers and the limit validate() checks; a conservative choice, not a documented PayStation limit */
+  static readonly MAX_LENGTH = 50;
+
+  /** Characters allowed in generated invoice numbers and by validate(), which are safe in URLs, file names and CSV exports */
+  static readonly PATTERN = /^[A-Za-z0-9_-]+$/;
+
+  /**
+   * Generate a new invoice number
+   * @param options - Prefix, layout and checksum options (optional)
+   * @returns The invoice number, e.g. `INV-20251019083015123-7K2QX9`
+   * @throws {ValidationError} When the options are invalid or the number would be too long
+   */
+  static generate(options: InvoiceNumberOptions = {}): string {
+    const prefix = options.prefix ?? 'INV';
+    if (prefix !== '' && !InvoiceNumber.PATTERN.test(prefix)) {
+      throw new ValidationError("prefix may only contain letters, digits, '-' and '_'", 'prefix');
+    }
+
+    const date = options.date ?? new Date();
+    if (Number.isNaN(date.getTime())) {
+      throw new ValidationError('date must be a valid Date', 'date');
+    }
+
+    let body: string;
+    if (options.format === 'ulid') {
+      body = InvoiceNumber.ulid(date);
+    } else {
+      const randomLength = options.randomLength ?? 6;
+      if (!Number.isInteger(randomLength) || randomLength < 1) {
+        throw new ValidationError('randomLength must be a whole number of at least 1', 'randomLength');
+      }
+      body = `${date.toISOString().replace(/\D/g, '')}-${randomBase32(randomLength)}`;
+    }
+
+    const invoiceNumber = prefix ? `${prefix}-${body}` : body;
+    const result = options.checksum ? InvoiceNumber.withChecksum(invoiceNumber) : invoiceNumber;
+
+    if (result.length > InvoiceNumber.MAX_LENGTH) {
+      throw new ValidationError(
+        `Generated invoice number is ${result.length} characters; the limit is ${InvoiceNumber.MAX_LENGTH}. Use a shorter prefix`,
+        'prefix'
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Generate a ULID: 10 characters of millisecond time followed by 16 random characters,
+   * in Crockford's base32
+   * @param date - Time to encode (default: the current time)
+   * @returns The 26-character ULID
+   */
+  static ulid(date: Date = new Date()): string {
+    let time = date.getTime();
+    let encodedTime = '';
+    for (let i = 0; i < 10; i++) {
+      encodedTime = CROCKFORD_BASE32[time % 32] + encodedTime;
+      time = Math.floor(time / 32);
+    }
+    return encodedTime + randomBase32(16);
+  }
+
+  /**
+   * Check an invoice number against the length and character rules used by generate()
+   * @param value - Invoice number to check
+   * @param options - Validation options (optional)
+   * @returns Every problem found; empty when the invoice number is valid
+   */
+  static validate(value: unknown, options: InvoiceNumberValidationOptions = {}): ValidationIssue[] {
+    if (typeof value !== 'string') {
+      return [{ field: 'invoiceNumber', code: 'invalid_type', message: 'invoiceNumber must be a string' }];
+    }
+    if (value.trim().length === 0) {
+      return [{ field: 'invoiceNumber', code: 'empty', message: 'invoiceNumber cannot be empty or whitespace only' }];
+    }
+
+    const issues: ValidationIssue[] = [];
+    if (value.length > InvoiceNumber.MAX_LENGTH) {
+      issues.push({
+        field: 'invoiceNumber',
+        code: 'too_long',
+        message: `invoiceNumber cannot be longer than ${InvoiceNumber.MAX_LENGTH} characters`
+      });
+    }
+    if (!InvoiceNumber.PATTERN.test(value)) {
+      issues.push({
+        field: 'invoiceNumber',
+        code: 'invalid_format',
+        message: "invoiceNumber may only contain letters, digits, '-' and '_'"
+      });
+    } else if (options.checksum && !InvoiceNumber.hasValidChecksum(value)) {
+      issues.push({
+        field: 'invoiceNumber',
+        code: 'invalid_value',
+        message: 'invoiceNumber check character does not match; it may have been mistyped'
+      });
+    }
+    return issues;
+  }
+
+  /**
+   * Check whether an invoice number is valid
+   * @param value - Invoice number to check
+   * @param options - Validation options (optional)
+   * @returns True when validate() finds no problems
+   */
+  static isValid(value: unknown, options: InvoiceNumberValidationOptions = {}): boolean {
+    return InvoiceNumber.validate(value, options).length === 0;
+  }
+
+  /**
+   * Append an ISO 7064 MOD 37,36 check character, which catches any single mistyped
+   * character and most swapped neighbours
+   * @param value - Invoice number without a check character
+   * @returns The invoice number followed by its check character
+   * @throws {ValidationError} When the value has no letters or digits
+   */
+  static withChecksum(value: string): string {
+    return value + ISO_7064_ALPHABET[checkValue(InvoiceNumber.checkedCharacters(value))];
+  }
+
+  /**
+   * Verify the check character at the end of an invoice number, ignoring case, '-' and '_'
+   * @param value - Invoice number ending in a check character
+   * @returns True when the check character matches
+   */
+  static hasValidChecksum(value: string): boolean {
+    const characters = value.toUpperCase().replace(/[-_]/g, '');
+    if (characters.length < 2 || !/^[0-9A-Z]+$/.test(characters)) {
+      return false;
+    }
+    return ISO_7064_ALPHABET[checkValue(characters.slice(0, -1))] === characters.slice(-1);
+  }
+
+  /**
+   * Upper-cases the letters and digits covered by the check character
+   * @private
+   */
+  private static checkedCharacters(value: string): string {
+    const characters = value.toUpperCase().replace(/[-_]/g, '');
+    if (characters.length === 0 || !/^[0-9A-Z]+$/.test(characters)) {
+      throw new ValidationError("invoiceNumber may only contain letters, digits, '-' and '_'", 'invoiceNumber');
+    }
+    return characters;
+  }
+}
+
+/**
+ * Computes the ISO 7064 MOD 37,36 check value of upper-case letters and digits
+ * @private
+ */
+function checkValue(characters: string): number {
+  const modulus = ISO_7064_ALPHABET.length;
+  let product = modulus;
+  for (const character of characters) {
+    const sum = (product + ISO_7064_ALPHABET.indexOf(character)) % modulus || modulus;
+    product = (sum * 2) % (modulus + 1);
+  }
+  return (modulus + 1 - product) % modulus;
+}
+
+/**
+ * Generates random Crockford base32 characters, using the Web Crypto API when available
+ * @private
+ */
+function randomBase32(length: number): string {
+  const bytes = new Uint8Array(length);
+  const crypto = typeof globalThis.crypto?.getRandomValues === 'function' ? globalThis.crypto : undefined;
+  if (crypto) {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+
+  // 256 is a multiple of 32, so masking keeps every character equally likely
+  let result = '';
+  bytes.forEach((byte) => {
+    result += CROCKFORD_BASE32[byte & 31];
+  });
+  return result;
+}
@@ -0,0 +1 @@
+export { InvoiceNumber } from './InvoiceNumber';
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { Logger, LogLevel } from '../types/logging';
+import { HttpRequest, HttpResponse, Middleware } from '../types/http';
+import { redactRequest, redactFields } from './redact';
+
+/**
+ * Logs every PayStation call with its endpoint, duration and status codes,
+ * redacting credentials and customer contact details
+ */
+export class RequestLogger {
+  private static readonly LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+  private readonly logger: Logger;
+  private readonly level: LogLevel;
+
+  constructor(logger: Logger, level: LogLevel = 'info') {
+    this.logger = logger;
+    this.level = level;
+  }
+
+  /**
+   * Create a middleware that logs each request and its outcome
+   * @returns Logging middleware
+   */
+  middleware(): Middleware {
+    return async (request, next) => {
+      const started = Date.now();
+
+      this.log('debug', 'PayStation request', redactRequest(request) as unknown as Record<string, unknown>);
+
+      try {
+        const response = await next(request);
+        this.logResponse(request, response, Date.now() - started);
+        return response;
+      } catch (error) {
+        const err = error as Error;
+        this.log(err.name === 'CancelledError' ? 'info' : 'error', 'PayStation request failed', {
+          endpoint: request.endpoint,
+          method: request.method,
+          durationMs: Date.now() - started,
+          error: err.name,
+          message: err.message
+        });
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Log a completed response
+   * @private
+   */
+  private logResponse(request: HttpRequest, response: HttpResponse, durationMs: number): void {
+    const data = response.data && typeof response.data === 'object'
+      ? (response.data as Record<string, unknown>)
+      : undefined;
+    const failed = response.status >= 400 || data?.status === 'failed';
+
+    this.log(failed ? 'warn' : 'info', 'PayStation response', {
+      endpoint: request.endpoint,
+      method: request.method,
+      durationMs,
+      httpStatus: response.status,
+      statusCode: data?.statusCode,
+      status: data?.status
+    });
+
+    if (data) {
+      this.log('debug', 'PayStation response body', { endpoint: request.endpoint, body: redactFields(data) });
+    }
+  }
+
+  /**
+   * Pass a message to the logger when its level is enabled
+   * @private
+   */
+  private log(level: Exclude<LogLevel, 'silent'>, message: string, context: Record<string, unknown>): void {
+    const levels = RequestLogger.LEVELS;
+    if (levels.indexOf(level) < levels.indexOf(this.level)) {
+      return;
+    }
+    try {
+      this.logger[level](message, context);
+    } catch {
+      // A failing logger must never break a payment
+    }
+  }
+}
@@ -0,0 +1,16 @@
+import { Logger, PinoLogger } from '../types/logging';
+
+/**
+ * Adapt a pino logger, which takes the context object before the message
+ * @param pino - pino logger or child logger
+ * @returns Logger to pass as the `logger` option
+ */
+export function fromPino(pino: PinoLogger): Logger {
+  // Called as methods: pino's level functions read their bindings from `this`
+  return {
+    debug: (message, context) => pino.debug(context ?? {}, message),
+    info: (message, context) => pino.info(context ?? {}, message),
+    warn: (message, context) => pino.warn(context ?? {}, message),
+    error: (message, context) => pino.error(context ?? {}, message)
+  };
+}
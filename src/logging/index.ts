@@ -0,0 +1,4 @@
+export { RequestLogger } from './RequestLogger';
+export { fromPino } from './fromPino';
+export { redactRequest, redactFields, maskEmail, maskPhone } from './redact';
+export type { RedactedRequest } from './redact';
@@ -0,0 +1,93 @@
+import { HttpRequest } from '../types/http';
+
+const REDACTED = '[REDACTED]';
+
+const SECRET_FIELDS = ['password'];
+const EMAIL_FIELDS = ['customer_email', 'customerEmail'];
+const PHONE_FIELDS = ['customer_phone', 'customerPhone', 'payer_mobile_number', 'payerMobileNumber'];
+
+/**
+ * Request details that are safe to log
+ */
+export interface RedactedRequest {
+  method: HttpRequest['method'];
+  url: string;
+  endpoint?: HttpRequest['endpoint'];
+  body?: Record<string, unknown> | string;
+}
+
+/**
+ * Mask an email address, keeping the first character and the domain
+ * @param email - Email address to mask
+ * @returns Masked email, e.g. `j***@example.com`
+ */
+export function maskEmail(email: string): string {
+  const at = email.lastIndexOf('@');
+  if (at <= 0) {
+    return REDACTED;
+  }
+  return `${email[0]}***${email.slice(at)}`;
+}
+
+/**
+ * Mask a phone number, keeping only the last three digits
+ * @param phone - Phone number to mask
+ * @returns Masked phone number, e.g. `********678`
+ */
+export function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length <= 3) {
+    return REDACTED;
+  }
+  return `${'*'.repeat(digits.length - 3)}${digits.slice(-3)}`;
+}
+
+/**
+ * Redact credentials and mask customer contact details in a record
+ * @param record - Form fields or response data
+ * @returns Copy of the record that is safe to log
+ */
+export function redactFields(record: Record<string, unknown>): Record<string, unknown> {
+  const redacted: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    if (SECRET_FIELDS.includes(key)) {
+      redacted[key] = REDACTED;
+    } else if (EMAIL_FIELDS.includes(key) && typeof value === 'string') {
+      redacted[key] = maskEmail(value);
+    } else if (PHONE_FIELDS.includes(key) && typeof value === 'string') {
+      redacted[key] = maskPhone(value);
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      redacted[key] = redactFields(value as Record<string, unknown>);
+    } else {
+      redacted[key] = value;
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Build a loggable view of a request with the password removed and
+ * the customer's email and phone masked
+ * @param request - Request built by the SDK
+ * @returns Request details that are safe to log
+ */
+export function redactRequest(request: HttpRequest): RedactedRequest {
+  const redacted: RedactedRequest = {
+    method: request.method,
+    url: request.url,
+    endpoint: request.endpoint
+  };
+
+  if (request.body instanceof URLSearchParams) {
+    redacted.body = redactFields(Object.fromEntries(request.body));
+  } else if (typeof request.body === 'string') {
+    redacted.body = redactFields(Object.fromEntries(new URLSearchParams(request.body)));
+  } else if (request.body !== undefined) {
+    // FormData may carry files; only report that a body was present
+    redacted.body = REDACTED;
+  }
+
+  return redacted;
+}
@@ -0,0 +1,248 @@
+import { MetadataConfig, MetadataFields, PaymentMetadata } from '../types/metadata';
+import { ValidationIssueCode } from '../types/validation';
+import { ValidationError } from '../errors/ValidationError';
+import { hmacSha256, importHmacKey, verifyHmacSha256 } from './hmac';
+
+/**
+ * Packs payment metadata into PayStation's `optA`/`optB`/`optC` pass-through fields and reads it back
+ *
+ * The packed value is `m1.<base64url JSON>` (compact) or the JSON itself, followed by
+ * `.<signature>` when a secret is configured, split across the fields in order.
+ */
+export class MetadataCodec {
+  /** Maximum length of each pass-through field */
+  static readonly FIELD_LENGTH = 255;
+
+  /** Pass-through fields, in the order they are filled */
+  static readonly FIELDS: readonly (keyof MetadataFields)[] = ['optA', 'optB', 'optC'];
+
+  /** Maximum length of the packed metadata */
+  static readonly MAX_LENGTH = MetadataCodec.FIELD_LENGTH * MetadataCodec.FIELDS.length;
+
+  private static readonly COMPACT_PREFIX = 'm1.';
+
+  /** Length of a base64url HMAC-SHA256 signature */
+  private static readonly SIGNATURE_LENGTH = 43;
+
+  private readonly secret?: string;
+  private cryptoKey?: Promise<CryptoKey>;
+
+  /**
+   * @param config - Encoding and signing options (optional)
+   */
+  constructor(private readonly config: MetadataConfig = {}) {
+    this.secret = config.secret || undefined;
+  }
+
+  /**
+   * Encode metadata into a single string
+   * @param metadata - Metadata to encode
+   * @returns The packed value, signed when a secret is configured
+   * @throws {ValidationError} When the metadata is not a JSON-serializable object
+   */
+  async encode(metadata: PaymentMetadata): Promise<string> {
+    const payload = this.serialize(metadata);
+    return this.secret ? `${payload}.${await this.sign(payload)}` : payload;
+  }
+
+  /**
+   * Check that metadata can be packed, without signing it
+   * @param metadata - Metadata to check
+   * @throws {ValidationError} When the metadata is invalid or too large for the fields
+   */
+  check(metadata: PaymentMetadata): void {
+    const payload = this.serialize(metadata);
+    const length = payload.length + (this.secret ? MetadataCodec.SIGNATURE_LENGTH + 1 : 0);
+    if (length > MetadataCodec.MAX_LENGTH) {
+      throw invalid(
+        'too_long',
+        `metadata is ${length} characters when encoded; the limit is ${MetadataCodec.MAX_LENGTH}`
+      );
+    }
+  }
+
+  /**
+   * Pack metadata into the pass-through fields
+   * @param metadata - Metadata to pack
+   * @returns The fields to send; unused fields are omitted
+   * @throws {ValidationError} When the metadata is invalid or too large for the fields
+   */
+  async pack(metadata: PaymentMetadata): Promise<MetadataFields> {
+    this.check(metadata);
+    const encoded = await this.encode(metadata);
+
+    const fields: MetadataFields = {};
+    MetadataCodec.FIELDS.forEach((field, index) => {
+      const chunk = encoded.slice(index * MetadataCodec.FIELD_LENGTH, (index + 1) * MetadataCodec.FIELD_LENGTH);
+      if (chunk) {
+        fields[field] = chunk;
+      }
+    });
+    return fields;
+  }
+
+  /**
+   * Read metadata back from the pass-through fields
+   * @param fields - Pass-through fields as returned by PayStation
+   * @returns The metadata, or undefined when the fields do not hold packed metadata
+   * @throws {ValidationError} When a secret is configured and the signature is missing or does not match
+   */
+  async unpack(fields: MetadataFields): Promise<PaymentMetadata | undefined> {
+    const packed = this.split(fields);
+    if (!packed) {
+      return undefined;
+    }
+
+    if (this.secret && !(await this.verify(packed.payload, packed.signature))) {
+      throw invalid('invalid_value', 'metadata signature is missing or does not match');
+    }
+    return this.decode(packed.payload);
+  }
+
+  /**
+   * Read metadata from the pass-through fields without checking the signature
+   *
+   * For values that are verified some other way, such as callback parameters that are
+   * compared with the status lookup.
+   * @param fields - Pass-through fields
+   * @returns The metadata, or undefined when the fields do not hold packed metadata
+   */
+  read(fields: MetadataFields): PaymentMetadata | undefined {
+    const packed = this.split(fields);
+    return packed ? this.decode(packed.payload) : undefined;
+  }
+
+  /**
+   * Serializes metadata into the unsigned payload
+   * @private
+   */
+  private serialize(metadata: PaymentMetadata): string {
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      throw invalid('invalid_type', 'metadata must be an object');
+    }
+
+    let json: string;
+    try {
+      json = JSON.stringify(metadata);
+    } catch {
+      throw invalid('invalid_value', 'metadata must be JSON-serializable');
+    }
+
+    return this.config.encoding === 'json'
+      ? json
+      : `${MetadataCodec.COMPACT_PREFIX}${toBase64Url(utf8(json))}`;
+  }
+
+  /**
+   * Joins the fields and splits the packed value into payload and signature
+   * @private
+   */
+  private split(fields: MetadataFields): { payload: string; signature: string } | undefined {
+    const encoded = MetadataCodec.FIELDS.map((field) => fields[field] ?? '').join('');
+    const isCompact = encoded.startsWith(MetadataCodec.COMPACT_PREFIX);
+    if (!isCompact && !encoded.startsWith('{')) {
+      return undefined;
+    }
+
+    // JSON ends with '}', so anything after the last '.' past it is the signature
+    const separator = encoded.lastIndexOf('.');
+    const signed = isCompact ? separator >= MetadataCodec.COMPACT_PREFIX.length : !encoded.endsWith('}') && separator > 0;
+    return signed
+      ? { payload: encoded.slice(0, separator), signature: encoded.slice(separator + 1) }
+      : { payload: encoded, signature: '' };
+  }
+
+  /**
+   * Decodes a payload into metadata, or undefined when it does not hold a JSON object
+   * @private
+   */
+  private decode(payload: string): PaymentMetadata | undefined {
+    try {
+      const json = payload.startsWith(MetadataCodec.COMPACT_PREFIX)
+        ? fromUtf8(fromBase64Url(payload.slice(MetadataCodec.COMPACT_PREFIX.length)))
+        : payload;
+      const metadata = JSON.parse(json);
+      return metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Signs a payload with the configured secret
+   * @private
+   */
+  private async sign(payload: string): Promise<string> {
+    return toBase64Url(await hmacSha256(await this.importKey(), payload));
+  }
+
+  /**
+   * Checks a payload's signature against the configured secret
+   * @private
+   */
+  private async verify(payload: string, signature: string): Promise<boolean> {
+    let bytes: Uint8Array;
+    try {
+      bytes = fromBase64Url(signature);
+    } catch {
+      return false;
+    }
+    return bytes.length > 0 && verifyHmacSha256(await this.importKey(), bytes, payload);
+  }
+
+  /**
+   * Imports the configured secret once
+   * @private
+   */
+  private importKey(): Promise<CryptoKey> {
+    if (!this.cryptoKey) {
+      this.cryptoKey = importHmacKey(this.secret!);
+    }
+    return this.cryptoKey;
+  }
+}
+
+/**
+ * Creates a ValidationError for the metadata field
+ * @private
+ */
+function invalid(code: ValidationIssueCode, message: string): ValidationError {
+  return new ValidationError(message, 'metadata', [{ field: 'metadata', code, message }]);
+}
+
+/**
+ * Encodes a string as UTF-8
+ * @private
+ */
+function utf8(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+/**
+ * Decodes UTF-8 bytes, rejecting invalid sequences
+ * @private
+ */
+function fromUtf8(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
+
+/**
+ * Encodes bytes as unpadded base64url
+ * @private
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes unpadded base64url
+ * @private
+ */
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,34 @@
+/**
+ * Imports an HMAC-SHA256 key through the Web Crypto API, available in browsers, Node.js and edge runtimes
+ * @param secret - Secret key
+ * @returns Key usable for signing and verifying
+ * @throws {Error} When the runtime has no Web Crypto API
+ */
+export function importHmacKey(secret: string): Promise<CryptoKey> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    return Promise.reject(new Error('Signing metadata requires the Web Crypto API (crypto.subtle)'));
+  }
+  return subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/**
+ * Computes an HMAC-SHA256
+ * @param key - Key from importHmacKey
+ * @param message - Message to authenticate, encoded as UTF-8
+ * @returns 32-byte authentication code
+ */
+export async function hmacSha256(key: CryptoKey, message: string): Promise<Uint8Array> {
+  return new Uint8Array(await globalThis.crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message)));
+}
+
+/**
+ * Checks an HMAC-SHA256 in constant time
+ * @param key - Key from importHmacKey
+ * @param signature - Authentication code to check
+ * @param message - Message it should authenticate, encoded as UTF-8
+ * @returns Whether the signature matches
+ */
+export function verifyHmacSha256(key: CryptoKey, signature: Uint8Array, message: string): Promise<boolean> {
+  return globalThis.crypto.subtle.verify('HMAC', key, new Uint8Array(signature), new TextEncoder().encode(message));
+}
@@ -0,0 +1 @@
+export { MetadataCodec } from './MetadataCodec';
\ No newline at end of file
@@ -0,0 +1,278 @@
+import { Currency, MoneyJSON, RoundingMode } from '../types/money';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Immutable monetary amount stored as an integer number of minor units (e.g. poisha or cents)
+ * 
+ * Use Money instead of plain numbers to avoid floating-point errors such as
+ * `100.1 + 0.2 === 100.30000000000001`. Decimal input is parsed from its string form
+ * and rounded to the currency's precision with an explicit rounding mode.
+ * 
+ * @example
+ * ```typescript
+ * const subtotal = Money.of('100.10', 'BDT').add(Money.of(0.2, 'BDT'));
+ * subtotal.toDecimalString(); // "100.30"
+ * subtotal.format('en-US');   // "BDT 100.30"
+ * ```
+ */
+export class Money {
+  /** Number of decimal places per supported currency */
+  static readonly PRECISION: Readonly<Record<Currency, number>> = {
+    BDT: 2,
+    USD: 2
+  };
+
+  private static readonly MAX_EXPONENT = 400;
+
+  private static readonly DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+  private constructor(
+    /** Amount in minor units of the currency */
+    readonly minorUnits: number,
+    /** Currency code */
+    readonly currency: Currency
+  ) {}
+
+  /**
+   * Create a Money value from a decimal amount
+   * @param amount - Decimal amount as a number or string, e.g. `100.5` or `"100.50"`
+   * @param currency - Currency code (default: 'BDT')
+   * @param rounding - Rounding applied beyond the currency's precision (default: 'half-up')
+   * @returns The Money value
+   * @throws {ValidationError} When the amount is not a finite decimal or the currency is unsupported
+   */
+  static of(amount: number | string, currency: string = 'BDT', rounding: RoundingMode = 'half-up'): Money {
+    const code = Money.toCurrency(currency);
+
+    if (typeof amount === 'number' && !Number.isFinite(amount)) {
+      throw new ValidationError(`Amount must be a finite number, got ${amount}`, 'amount');
+    }
+
+    const match = typeof amount === 'number' || typeof amount === 'string'
+      ? String(amount).trim().match(Money.DECIMAL_PATTERN)
+      : null;
+    if (!match || (!match[2] && !match[3])) {
+      throw new ValidationError(`Amount must be a decimal number, got ${String(amount)}`, 'amount');
+    }
+
+    const [, sign, integerDigits = '', fractionDigits = '', exponent = '0'] = match;
+    const digits = integerDigits + fractionDigits;
+
+    if (Math.abs(Number(exponent)) > Money.MAX_EXPONENT) {
+      throw new ValidationError(`Amount ${String(amount)} is out of range`, 'amount');
+    }
+
+    // Position of the decimal point within `digits` once scaled to minor units
+    const cut = integerDigits.length + Number(exponent) + Money.PRECISION[code];
+    const kept = cut <= 0 ? '0' : digits.slice(0, cut).padEnd(cut, '0');
+    const rest = cut >= digits.length ? '' : cut <= 0 ? '0'.repeat(-cut) + digits : digits.slice(cut);
+
+    let units = Number(kept);
+    if (Money.roundsAwayFromZero(units, rest, rounding)) {
+      units += 1;
+    }
+
+    if (!Number.isSafeInteger(units)) {
+      throw new ValidationError(`Amount ${String(amount)} is too large`, 'amount');
+    }
+
+    return new Money(sign === '-' && units !== 0 ? -units : units, code);
+  }
+
+  /**
+   * Create a Money value from an integer number of minor units
+   * @param minorUnits - Amount in minor units, e.g. `10050` for 100.50
+   * @param currency - Currency code (default: 'BDT')
+   * @returns The Money value
+   * @throws {ValidationError} When minorUnits is not a safe integer or the currency is unsupported
+   */
+  static fromMinorUnits(minorUnits: number, currency: string = 'BDT'): Money {
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new ValidationError(`Minor units must be a safe integer, got ${minorUnits}`, 'minorUnits');
+    }
+    return new Money(minorUnits === 0 ? 0 : minorUnits, Money.toCurrency(currency));
+  }
+
+  /**
+   * Create a Money value from its JSON representation
+   * @param json - Object produced by {@link Money.toJSON}
+   * @returns The Money value
+   * @throws {ValidationError} When the amount or currency is invalid
+   */
+  static fromJSON(json: MoneyJSON): Money {
+    return Money.of(json.amount, json.currency, 'down');
+  }
+
+  /**
+   * Check whether a currency code is supported
+   * @param currency - Currency code to check
+   * @returns True if Money can represent amounts in the currency
+   */
+  static isSupportedCurrency(currency: string): currency is Currency {
+    return Object.prototype.hasOwnProperty.call(Money.PRECISION, currency);
+  }
+
+  /**
+   * Add another amount in the same currency
+   * @param other - Amount to add
+   * @returns The sum
+   * @throws {ValidationError} When the currencies differ
+   */
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinorUnits(this.minorUnits + other.minorUnits, this.currency);
+  }
+
+  /**
+   * Subtract another amount in the same currency
+   * @param other - Amount to subtract
+   * @returns The difference
+   * @throws {ValidationError} When the currencies differ
+   */
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinorUnits(this.minorUnits - other.minorUnits, this.currency);
+  }
+
+  /**
+   * Multiply by an integer quantity
+   * @param quantity - Integer multiplier, e.g. an item quantity
+   * @returns The product
+   * @throws {ValidationError} When quantity is not an integer
+   */
+  multiply(quantity: number): Money {
+    if (!Number.isInteger(quantity)) {
+      throw new ValidationError(`Quantity must be an integer, got ${quantity}`, 'quantity');
+    }
+    return Money.fromMinorUnits(this.minorUnits * quantity, this.currency);
+  }
+
+  /**
+   * Compare with another amount in the same currency
+   * @param other - Amount to compare with
+   * @returns Negative, zero or positive when this amount is smaller, equal or larger
+   * @throws {ValidationError} When the currencies differ
+   */
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return Math.sign(this.minorUnits - other.minorUnits);
+  }
+
+  /**
+   * Check whether another amount has the same currency and value
+   * @param other - Amount to compare with
+   * @returns True if both amounts are equal
+   */
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minorUnits === other.minorUnits;
+  }
+
+  isZero(): boolean {
+    return this.minorUnits === 0;
+  }
+
+  isPositive(): boolean {
+    return this.minorUnits > 0;
+  }
+
+  isNegative(): boolean {
+    return this.minorUnits < 0;
+  }
+
+  /**
+   * Format the amount as a plain decimal with the currency's precision
+   * @returns Decimal string such as "100.50", as sent to PayStation
+   */
+  toDecimalString(): string {
+    const precision = Money.PRECISION[this.currency];
+    const digits = String(Math.abs(this.minorUnits)).padStart(precision + 1, '0');
+    const integerPart = digits.slice(0, digits.length - precision);
+    const fractionPart = digits.slice(digits.length - precision);
+    const sign = this.minorUnits < 0 ? '-' : '';
+    return precision > 0 ? `${sign}${integerPart}.${fractionPart}` : `${sign}${integerPart}`;
+  }
+
+  /**
+   * Convert to a JavaScript number, e.g. for charts; avoid for further arithmetic
+   * @returns The decimal amount as a number
+   */
+  toNumber(): number {
+    return Number(this.toDecimalString());
+  }
+
+  /**
+   * Format the amount for display with the currency symbol or code
+   * @param locale - BCP 47 locale passed to Intl.NumberFormat, e.g. 'en-US' or 'bn-BD' (optional)
+   * @returns Localized currency string, e.g. "BDT 100.50" or "৳১০০.৫০"
+   */
+  format(locale?: string): string {
+    const precision = Money.PRECISION[this.currency];
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: this.currency,
+      minimumFractionDigits: precision,
+      maximumFractionDigits: precision
+    }).format(this.toNumber());
+  }
+
+  toJSON(): MoneyJSON {
+    return { amount: this.toDecimalString(), currency: this.currency };
+  }
+
+  toString(): string {
+    return `${this.toDecimalString()} ${this.currency}`;
+  }
+
+  /**
+   * Normalize and validate a currency code
+   * @private
+   */
+  private static toCurrency(currency: string): Currency {
+    const code = typeof currency === 'string' ? currency.trim().toUpperCase() : '';
+    if (!Money.isSupportedCurrency(code)) {
+      throw new ValidationError(
+        `Unsupported currency: ${String(currency)}. Must be one of: ${Object.keys(Money.PRECISION).join(', ')}`,
+        'currency'
+      );
+    }
+    return code;
+  }
+
+  /**
+   * Decide whether to round the kept minor units away from zero given the discarded digits
+   * @private
+   */
+  private static roundsAwayFromZero(units: number, rest: string, rounding: RoundingMode): boolean {
+    if (!/[1-9]/.test(rest)) {
+      return false;
+    }
+
+    const first = rest[0];
+    const tail = /[1-9]/.test(rest.slice(1));
+
+    switch (rounding) {
+      case 'up':
+        return true;
+      case 'down':
+        return false;
+      case 'half-even':
+        return first > '5' || (first === '5' && (tail || units % 2 === 1));
+      case 'half-up':
+      default:
+        return first >= '5';
+    }
+  }
+
+  /**
+   * Throw when another amount has a different currency
+   * @private
+   */
+  private assertSameCurrency(other: Money): void {
+    if (this.currency !== other.currency) {
+      throw new ValidationError(
+        `Currency mismatch: cannot combine ${this.currency} with ${other.currency}`,
+        'currency'
+      );
+    }
+  }
+}
@@ -0,0 +1 @@
+export { Money } from './Money';
@@ -0,0 +1,151 @@
+import { WaitForTransactionOptions } from '../types/polling';
+import { RequestOptions } from '../types/requests';
+import { TransactionData, TransactionStatus, TransactionStatusResponse } from '../types/responses';
+import { ValidationError } from '../errors/ValidationError';
+import { TimeoutError } from '../errors/TimeoutError';
+import { CancelledError } from '../errors/CancelledError';
+import { PayStationError } from '../errors/PayStationError';
+import { sleep } from '../utils/sleep';
+
+/**
+ * Status lookup used by the poller
+ */
+export type TransactionLookup = (options: RequestOptions) => Promise<TransactionStatusResponse>;
+
+/**
+ * Polls a status lookup until the transaction reaches a terminal state
+ */
+export class TransactionPoller {
+  private static readonly TERMINAL_STATUSES: readonly TransactionStatus[] = ['success', 'failed', 'refund'];
+
+  /**
+   * Check whether a transaction status is terminal
+   * @param status - Status to check
+   * @returns True for success, failed and refund
+   */
+  static isTerminal(status: TransactionStatus): boolean {
+    return TransactionPoller.TERMINAL_STATUSES.includes(status);
+  }
+
+  /**
+   * Poll until the transaction is terminal
+   *
+   * Each lookup is bounded by the time left, and a lookup that fails with a retryable
+   * error (e.g. a NetworkError) is retried at the next poll instead of ending the wait.
+   * @param lookup - Function that fetches the current transaction status
+   * @param options - Polling options
+   * @returns Transaction data in its terminal state
+   * @throws {TimeoutError} When the transaction is not terminal within maxDurationMs
+   * @throws {CancelledError} When polling is cancelled through the signal
+   */
+  async wait(lookup: TransactionLookup, options: WaitForTransactionOptions = {}): Promise<TransactionData> {
+    this.validateOptions(options);
+
+    const backoffFactor = options.backoffFactor ?? 1.5;
+    const maxIntervalMs = options.maxIntervalMs ?? 15000;
+    const maxDurationMs = options.maxDurationMs ?? 300000;
+    const deadline = Date.now() + maxDurationMs;
+
+    let intervalMs = options.intervalMs ?? 2000;
+    let previousStatus: TransactionStatus | undefined;
+    let lastError: Error | undefined;
+
+    for (;;) {
+      try {
+        const transaction = (await this.lookupBefore(deadline, lookup, options)).data;
+        lastError = undefined;
+
+        if (transaction) {
+          if (transaction.transactionStatus !== previousStatus) {
+            options.onStatusChange?.(transaction, previousStatus);
+            previousStatus = transaction.transactionStatus;
+          }
+
+          if (TransactionPoller.isTerminal(transaction.transactionStatus)) {
+            return transaction;
+          }
+        }
+      } catch (error) {
+        if (options.signal?.aborted) {
+          throw error;
+        }
+        // Without a caller abort, a cancelled lookup was stopped by the deadline
+        if (error instanceof CancelledError) {
+          throw this.timeout(maxDurationMs, lastError ?? error);
+        }
+        if (!(error instanceof PayStationError && error.retryable)) {
+          throw error;
+        }
+        lastError = error;
+      }
+
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        throw this.timeout(maxDurationMs, lastError);
+      }
+
+      await sleep(Math.min(intervalMs, remainingMs), options.signal);
+      intervalMs = Math.min(maxIntervalMs, intervalMs * backoffFactor);
+    }
+  }
+
+  /**
+   * Runs one lookup, aborting it when the caller's signal aborts or the deadline passes
+   * @private
+   */
+  private async lookupBefore(
+    deadline: number,
+    lookup: TransactionLookup,
+    options: WaitForTransactionOptions
+  ): Promise<TransactionStatusResponse> {
+    const remainingMs = Math.max(0, deadline - Date.now());
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (options.signal?.aborted) {
+      controller.abort();
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(onAbort, remainingMs);
+
+    try {
+      return await lookup({
+        signal: controller.signal,
+        timeoutMs: options.requestTimeoutMs !== undefined ? Math.min(options.requestTimeoutMs, remainingMs) : undefined
+      });
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Creates the error for a transaction that did not settle in time
+   * @private
+   */
+  private timeout(maxDurationMs: number, lastError?: Error): TimeoutError {
+    return new TimeoutError(
+      `Transaction did not reach a terminal state within ${maxDurationMs}ms`,
+      maxDurationMs,
+      lastError
+    );
+  }
+
+  /**
+   * Validate polling options
+   * @private
+   */
+  private validateOptions(options: WaitForTransactionOptions): void {
+    const positive: (keyof WaitForTransactionOptions)[] = ['intervalMs', 'maxIntervalMs', 'maxDurationMs'];
+
+    for (const key of positive) {
+      const value = options[key];
+      if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+        throw new ValidationError(`${key} must be a positive number`, key);
+      }
+    }
+
+    if (options.backoffFactor !== undefined && !(options.backoffFactor >= 1)) {
+      throw new ValidationError('backoffFactor must be at least 1', 'backoffFactor');
+    }
+  }
+}
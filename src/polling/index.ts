@@ -0,0 +1,2 @@
+export { TransactionPoller } from './TransactionPoller';
+export type { TransactionLookup } from './TransactionPoller';
@@ -0,0 +1,49 @@
+import { RateLimitConfig, RateLimitStore } from '../types/ratelimit';
+import { TokenBucket } from './TokenBucket';
+
+/**
+ * In-memory rate limit store
+ * Limits apply per process, so use a shared store such as Redis when several
+ * instances call PayStation with the same merchant account
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, TokenBucket>();
+  private readonly pausedUntil = new Map<string, number>();
+
+  async reserve(key: string, limit: RateLimitConfig | undefined, maxWaitMs: number): Promise<number | undefined> {
+    const pausedMs = Math.max(0, (this.pausedUntil.get(key) ?? 0) - Date.now());
+    if (pausedMs > maxWaitMs) {
+      return undefined;
+    }
+    if (!limit) {
+      return pausedMs;
+    }
+
+    const waitMs = this.bucket(key, limit).reserve(maxWaitMs);
+    return waitMs === undefined ? undefined : Math.max(waitMs, pausedMs);
+  }
+
+  async release(key: string, limit: RateLimitConfig | undefined): Promise<void> {
+    if (limit) {
+      this.bucket(key, limit).release();
+    }
+  }
+
+  async pause(key: string, until: number): Promise<void> {
+    // Never shorten a pause that is already in place
+    this.pausedUntil.set(key, Math.max(until, this.pausedUntil.get(key) ?? 0));
+  }
+
+  /**
+   * Get the bucket for a key, creating it on first use
+   * @private
+   */
+  private bucket(key: string, limit: RateLimitConfig): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(limit);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+}
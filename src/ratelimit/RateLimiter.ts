@@ -0,0 +1,159 @@
+import { RateLimitConfig, RateLimiterConfig, RateLimitStore } from '../types/ratelimit';
+import { HttpRequest, HttpResponse } from '../types/http';
+import { ValidationError } from '../errors/ValidationError';
+import { RateLimitedError } from '../errors/RateLimitedError';
+import { sleep } from '../utils/sleep';
+import { parseRetryAfter } from '../utils/retryAfter';
+import { TokenBucket } from './TokenBucket';
+import { MemoryRateLimitStore } from './MemoryRateLimitStore';
+
+/**
+ * Holds PayStation requests back so they stay within per-endpoint rate limits
+ *
+ * Every attempt, retries included, reserves a slot in its endpoint's bucket and waits
+ * for it. Requests that would queue behind too many others, or wait longer than
+ * `maxWaitMs`, fail at once with a `RateLimitedError` instead of piling up. When
+ * PayStation answers 429, the endpoint is paused for the Retry-After delay.
+ */
+export class RateLimiter {
+  private static readonly DEFAULT_MAX_QUEUE_SIZE = 100;
+  private static readonly DEFAULT_MAX_WAIT_MS = 30000;
+
+  private readonly store: RateLimitStore;
+  private readonly maxQueueSize: number;
+  private readonly maxWaitMs: number;
+  private readonly respectRetryAfter: boolean;
+  private readonly waiting = new Map<string, number>();
+
+  /**
+   * @param config - Limits and queueing options
+   * @param keyPrefix - Prefix of the store keys, e.g. one per merchant (default: 'paystation')
+   * @throws {ValidationError} When the configuration is invalid
+   */
+  constructor(private readonly config: RateLimiterConfig, private readonly keyPrefix: string = 'paystation') {
+    RateLimiter.validate(config);
+
+    this.store = config.store || new MemoryRateLimitStore();
+    this.maxQueueSize = config.maxQueueSize ?? RateLimiter.DEFAULT_MAX_QUEUE_SIZE;
+    this.maxWaitMs = config.maxWaitMs ?? RateLimiter.DEFAULT_MAX_WAIT_MS;
+    this.respectRetryAfter = config.respectRetryAfter ?? true;
+  }
+
+  /**
+   * Validate a rate limiter configuration
+   * @param config - Configuration to check
+   * @throws {ValidationError} When a limit, queue option or the store is invalid
+   */
+  static validate(config: RateLimiterConfig): void {
+    if (!config || typeof config !== 'object') {
+      throw new ValidationError('rateLimit must be an object', 'rateLimit');
+    }
+
+    if (config.limit !== undefined || config.intervalMs !== undefined) {
+      TokenBucket.validate({ limit: config.limit!, intervalMs: config.intervalMs });
+    }
+
+    if (config.endpoints !== undefined) {
+      if (!config.endpoints || typeof config.endpoints !== 'object') {
+        throw new ValidationError('rateLimit.endpoints must be an object', 'rateLimit.endpoints');
+      }
+      for (const [endpoint, limit] of Object.entries(config.endpoints)) {
+        TokenBucket.validate(limit!, `rateLimit.endpoints.${endpoint}`);
+      }
+    }
+
+    if (config.maxQueueSize !== undefined && !(Number.isInteger(config.maxQueueSize) && config.maxQueueSize >= 0)) {
+      throw new ValidationError('rateLimit.maxQueueSize must be a non-negative whole number', 'rateLimit.maxQueueSize');
+    }
+
+    if (config.maxWaitMs !== undefined && !(typeof config.maxWaitMs === 'number' && config.maxWaitMs >= 0)) {
+      throw new ValidationError('rateLimit.maxWaitMs must be a non-negative number', 'rateLimit.maxWaitMs');
+    }
+
+    const store = config.store;
+    if (store !== undefined &&
+        (!store || (['reserve', 'release', 'pause'] as const).some(
+          (method) => typeof (store as Partial<RateLimitStore>)[method] !== 'function'
+        ))) {
+      throw new ValidationError('rateLimit.store must implement reserve, release and pause', 'rateLimit.store');
+    }
+  }
+
+  /**
+   * Wait until the request may be sent
+   * @param request - Request about to be sent
+   * @throws {RateLimitedError} When the queue is full or the wait would exceed maxWaitMs
+   * @throws {CancelledError} When the request's signal is aborted while waiting
+   */
+  async acquire(request: HttpRequest): Promise<void> {
+    const endpoint = request.endpoint ?? 'default';
+    const key = this.key(request);
+    const limit = this.limitFor(request);
+
+    const waitMs = await this.store.reserve(key, limit, this.maxWaitMs);
+    if (waitMs === undefined) {
+      throw new RateLimitedError(`Rate limit for ${endpoint} would hold the request back longer than ${this.maxWaitMs}ms`);
+    }
+    if (waitMs === 0) {
+      return;
+    }
+
+    // Only requests that actually have to wait take a place in the queue
+    const queued = this.waiting.get(key) ?? 0;
+    if (queued >= this.maxQueueSize) {
+      await this.store.release(key, limit);
+      throw new RateLimitedError(`Rate limit queue for ${endpoint} is full (${queued} requests waiting)`);
+    }
+
+    this.waiting.set(key, queued + 1);
+    try {
+      await sleep(waitMs, request.signal);
+    } catch (error) {
+      await this.store.release(key, limit);
+      throw error;
+    } finally {
+      const remaining = (this.waiting.get(key) ?? 1) - 1;
+      if (remaining > 0) {
+        this.waiting.set(key, remaining);
+      } else {
+        this.waiting.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Pause the request's endpoint when PayStation asks for it with a 429 and Retry-After
+   * @param request - Request that was sent
+   * @param response - Response received for it
+   */
+  async observe(request: HttpRequest, response: HttpResponse): Promise<void> {
+    if (!this.respectRetryAfter || response.status !== 429) {
+      return;
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers?.['retry-after']);
+    if (retryAfterMs !== undefined) {
+      await this.store.pause(this.key(request), Date.now() + retryAfterMs);
+    }
+  }
+
+  /**
+   * Get the store key for a request's endpoint
+   * @private
+   */
+  private key(request: HttpRequest): string {
+    return `${this.keyPrefix}:${request.endpoint ?? 'default'}`;
+  }
+
+  /**
+   * Get the limit for a request's endpoint
+   * @private
+   */
+  private limitFor(request: HttpRequest): RateLimitConfig | undefined {
+    const endpointLimit = request.endpoint ? this.config.endpoints?.[request.endpoint] : undefined;
+    if (endpointLimit) {
+      return endpointLimit;
+    }
+    return this.config.limit !== undefined ? { limit: this.config.limit, intervalMs: this.config.intervalMs } : undefined;
+  }
+}
@@ -0,0 +1,104 @@
+import { RateLimitConfig } from '../types/ratelimit';
+import { ValidationError } from '../errors/ValidationError';
+import { sleep } from '../utils/sleep';
+
+/**
+ * Token bucket rate limiter
+ *
+ * The bucket holds up to `limit` tokens and refills continuously at `limit` tokens per
+ * `intervalMs`. Each request takes one token, waiting for it when the bucket is empty,
+ * so bursts of up to `limit` requests go out at once and the long-run rate never
+ * exceeds the configured one.
+ */
+export class TokenBucket {
+  private readonly capacity: number;
+  private readonly tokensPerMs: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  /**
+   * @param config - Rate limit to enforce
+   * @param now - Clock returning the current time in milliseconds (default: Date.now)
+   * @throws {ValidationError} When the rate limit is invalid
+   */
+  constructor(config: RateLimitConfig, private readonly now: () => number = Date.now) {
+    TokenBucket.validate(config);
+
+    this.capacity = config.limit;
+    this.tokensPerMs = config.limit / (config.intervalMs ?? 1000);
+    this.tokens = this.capacity;
+    this.updatedAt = this.now();
+  }
+
+  /**
+   * Validate a rate limit
+   * @param config - Rate limit to check
+   * @param field - Name of the option for errors (default: 'rateLimit')
+   * @throws {ValidationError} When the limit is not a positive whole number or the interval is not positive
+   */
+  static validate(config: RateLimitConfig, field: string = 'rateLimit'): void {
+    if (!config || typeof config !== 'object') {
+      throw new ValidationError(`${field} must be an object`, field);
+    }
+    if (!Number.isInteger(config.limit) || config.limit < 1) {
+      throw new ValidationError(`${field}.limit must be a whole number of at least 1`, `${field}.limit`);
+    }
+    if (config.intervalMs !== undefined && !(typeof config.intervalMs === 'number' && config.intervalMs > 0)) {
+      throw new ValidationError(`${field}.intervalMs must be a positive number`, `${field}.intervalMs`);
+    }
+  }
+
+  /**
+   * Take a token, waiting until one is available
+   * @param signal - Signal that stops waiting when aborted (optional)
+   * @throws {CancelledError} When the signal is aborted while waiting
+   */
+  async take(signal?: AbortSignal): Promise<void> {
+    // Reserve the token up front so concurrent callers queue behind each other
+    const waitMs = this.reserve()!;
+    if (waitMs === 0) {
+      return;
+    }
+
+    try {
+      await sleep(waitMs, signal);
+    } catch (error) {
+      this.release();
+      throw error;
+    }
+  }
+
+  /**
+   * Reserve a token without waiting for it
+   * @param maxWaitMs - Longest acceptable wait in milliseconds (default: no limit)
+   * @returns Milliseconds until the reserved token is available, or undefined when that
+   * would exceed maxWaitMs, in which case nothing is reserved
+   */
+  reserve(maxWaitMs: number = Infinity): number | undefined {
+    this.refill();
+    const waitMs = this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.tokensPerMs);
+    if (waitMs > maxWaitMs) {
+      return undefined;
+    }
+
+    this.tokens -= 1;
+    return waitMs;
+  }
+
+  /**
+   * Give back a reserved token that was not used
+   */
+  release(): void {
+    this.tokens = Math.min(this.capacity, this.tokens + 1);
+  }
+
+  /**
+   * Adds the tokens accrued since the last update
+   * @private
+   */
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.tokensPerMs);
+    this.updatedAt = now;
+  }
+}
@@ -0,0 +1,3 @@
+export { TokenBucket } from './TokenBucket';
+export { RateLimiter } from './RateLimiter';
+export { MemoryRateLimitStore } from './MemoryRateLimitStore';
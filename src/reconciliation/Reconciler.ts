@@ -0,0 +1,281 @@
+import {
+  ReconciliationClient,
+  ReconciliationEntry,
+  ReconciliationOrder,
+  ReconcileOptions
+} from '../types/reconciliation';
+import { TransactionStatusResult } from '../types/batch';
+import { TransactionStatus } from '../types/responses';
+import { ValidationIssue } from '../types/validation';
+import { Money } from '../money/Money';
+import { ValidationError } from '../errors/ValidationError';
+import { TransactionNotFoundError } from '../errors/TransactionNotFoundError';
+import { checkRequiredString } from '../request/validatePaymentParams';
+import { TransactionStatusBatch } from '../batch/TransactionStatusBatch';
+import { parsePayStationDate } from '../utils/date';
+import { ReconciliationReport } from './ReconciliationReport';
+
+const TRANSACTION_STATUSES: readonly TransactionStatus[] = ['processing', 'success', 'failed', 'refund'];
+
+/**
+ * Order checked and ready to compare
+ */
+interface ResolvedOrder {
+  order: ReconciliationOrder;
+  expectedAmount: Money;
+}
+
+/**
+ * Compares local order records against PayStation's transaction records
+ *
+ * Every order is looked up on the status endpoints (v2 when the order has a transaction
+ * ID, v1 otherwise) and classified; lookups run concurrently and a failed lookup is
+ * reported on its order rather than stopping the run.
+ *
+ * @example
+ * ```typescript
+ * const report = await new Reconciler(paystation).reconcile(orders, { concurrency: 4 });
+ * for (const entry of report.discrepancies) {
+ *   console.warn(entry.invoiceNumber, entry.outcome, entry.message);
+ * }
+ * await writeFile('reconciliation.csv', report.toCSV());
+ * ```
+ */
+export class Reconciler {
+  private static readonly DEFAULT_STALE_AFTER_MS = 30 * 60 * 1000;
+
+  private readonly batch = new TransactionStatusBatch();
+
+  /**
+   * @param client - SDK instance (or anything with the same status lookups) to query
+   */
+  constructor(private readonly client: ReconciliationClient) {}
+
+  /**
+   * Look up every order and compare it with PayStation's record
+   * @param orders - Local orders; each invoice number may appear once
+   * @param options - Stale threshold, concurrency, rate limit and per-request options (optional)
+   * @returns Report with one entry per order, in input order
+   * @throws {ValidationError} When an order or option is invalid, listing every problem found
+   * @throws {CancelledError} When the run is cancelled through the signal
+   */
+  async reconcile(orders: readonly ReconciliationOrder[], options: ReconcileOptions = {}): Promise<ReconciliationReport> {
+    const resolved = this.resolveOrders(orders);
+    const { staleAfterMs = Reconciler.DEFAULT_STALE_AFTER_MS, now = new Date(), ...batchOptions } = options;
+    if (typeof staleAfterMs !== 'number' || !(staleAfterMs >= 0)) {
+      throw new ValidationError('staleAfterMs must be a non-negative number', 'staleAfterMs');
+    }
+
+    const byInvoice = new Map(resolved.map(({ order }) => [order.invoiceNumber, order]));
+    const results = await this.batch.collect(
+      Array.from(byInvoice.keys()),
+      (invoiceNumber, requestOptions) => {
+        const order = byInvoice.get(invoiceNumber)!;
+        return order.transactionId
+          ? this.client.getTransactionStatusById(order.transactionId, requestOptions)
+          : this.client.getTransactionStatus(invoiceNumber, requestOptions);
+      },
+      batchOptions
+    );
+
+    const entries = resolved.map((candidate) =>
+      this.classify(candidate, results.get(candidate.order.invoiceNumber)!, staleAfterMs, now)
+    );
+    return new ReconciliationReport(entries, now);
+  }
+
+  /**
+   * Classify one order against its lookup result
+   * @private
+   */
+  private classify(
+    { order, expectedAmount }: ResolvedOrder,
+    result: TransactionStatusResult,
+    staleAfterMs: number,
+    now: Date
+  ): ReconciliationEntry {
+    const entry: ReconciliationEntry = {
+      invoiceNumber: order.invoiceNumber,
+      outcome: 'matched',
+      message: '',
+      expectedStatus: order.expectedStatus,
+      actualStatus: null,
+      expectedAmount,
+      actualAmount: null,
+      requestedAmount: null,
+      transactionId: order.transactionId ?? null,
+      orderedAt: order.createdAt ?? null,
+      error: null
+    };
+
+    if (!result.ok) {
+      const missing = result.error instanceof TransactionNotFoundError;
+      return {
+        ...entry,
+        outcome: missing ? 'missing' : 'lookup_failed',
+        message: missing ? 'PayStation has no transaction for this invoice' : `Lookup failed: ${result.error.message}`,
+        error: result.error
+      };
+    }
+
+    const data = result.response.data;
+    if (!data) {
+      return { ...entry, outcome: 'missing', message: 'PayStation has no transaction for this invoice' };
+    }
+
+    const { amounts } = data;
+    const actual: ReconciliationEntry = {
+      ...entry,
+      actualStatus: data.transactionStatus,
+      actualAmount: amounts.transactionAmount ?? amounts.paymentAmount ?? null,
+      requestedAmount: amounts.requestAmount ?? amounts.paymentAmount ?? null,
+      transactionId: data.transactionId ?? entry.transactionId,
+      orderedAt: entry.orderedAt ?? parsePayStationDate(data.orderDateTime)
+    };
+
+    if (actual.actualStatus === 'processing' && actual.orderedAt &&
+        now.getTime() - actual.orderedAt.getTime() > staleAfterMs) {
+      const minutes = Math.floor((now.getTime() - actual.orderedAt.getTime()) / 60000);
+      return { ...actual, outcome: 'stale_processing', message: `Payment still processing after ${minutes} minutes` };
+    }
+
+    if (actual.actualStatus !== order.expectedStatus) {
+      return {
+        ...actual,
+        outcome: 'status_mismatch',
+        message: `Expected status ${order.expectedStatus}, PayStation has ${actual.actualStatus}`
+      };
+    }
+
+    const amountProblem = this.compareAmounts(expectedAmount, actual.actualAmount, actual.requestedAmount);
+    if (amountProblem) {
+      return { ...actual, outcome: 'amount_mismatch', message: amountProblem };
+    }
+
+    return { ...actual, message: 'Status and amount match' };
+  }
+
+  /**
+   * Describe how the recorded amounts differ from the expected one
+   * @returns The difference, or undefined when the amounts agree
+   * @private
+   */
+  private compareAmounts(expected: Money, actual: Money | null, requested: Money | null): string | undefined {
+    const recorded = actual ?? requested;
+    if (!recorded) {
+      return 'PayStation reported no amount';
+    }
+    if (!recorded.equals(expected)) {
+      return `Expected ${expected}, PayStation has ${recorded}`;
+    }
+    if (actual && requested && !actual.equals(requested)) {
+      return `PayStation captured ${actual} of the requested ${requested}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Validate every order, collecting all problems before any lookup
+   * @private
+   */
+  private resolveOrders(orders: readonly ReconciliationOrder[]): ResolvedOrder[] {
+    if (!Array.isArray(orders)) {
+      throw new ValidationError('orders must be an array', 'orders');
+    }
+
+    const issues: ValidationIssue[] = [];
+    const resolved: ResolvedOrder[] = [];
+    const seen = new Set<string>();
+
+    orders.forEach((order, index) => {
+      const field = `orders[${index}]`;
+      if (!order || typeof order !== 'object') {
+        issues.push({ field, code: 'invalid_type', message: `${field} must be an object` });
+        return;
+      }
+
+      const before = issues.length;
+      const invoiceIssue = checkRequiredString(order.invoiceNumber, `${field}.invoiceNumber`);
+      if (invoiceIssue) {
+        issues.push(invoiceIssue);
+      } else if (seen.has(order.invoiceNumber)) {
+        issues.push({
+          field: `${field}.invoiceNumber`,
+          code: 'conflict',
+          message: `${field}.invoiceNumber ${order.invoiceNumber} appears more than once`
+        });
+      } else {
+        seen.add(order.invoiceNumber);
+      }
+
+      if (!TRANSACTION_STATUSES.includes(order.expectedStatus)) {
+        issues.push({
+          field: `${field}.expectedStatus`,
+          code: 'invalid_enum',
+          message: `${field}.expectedStatus must be one of: ${TRANSACTION_STATUSES.join(', ')}`
+        });
+      }
+
+      if (order.transactionId !== undefined) {
+        const transactionIdIssue = checkRequiredString(order.transactionId, `${field}.transactionId`);
+        if (transactionIdIssue) {
+          issues.push(transactionIdIssue);
+        }
+      }
+
+      if (order.createdAt !== undefined && !(order.createdAt instanceof Date && !isNaN(order.createdAt.getTime()))) {
+        issues.push({ field: `${field}.createdAt`, code: 'invalid_type', message: `${field}.createdAt must be a valid Date` });
+      }
+
+      const expectedAmount = this.resolveAmount(order, `${field}.expectedAmount`, issues);
+      if (expectedAmount && issues.length === before) {
+        resolved.push({ order, expectedAmount });
+      }
+    });
+
+    if (issues.length > 0) {
+      throw new ValidationError(
+        `Invalid reconciliation orders: ${issues.map((problem) => problem.message).join('; ')}`,
+        issues[0].field,
+        issues
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * Convert the expected amount to Money in the order's currency
+   * @private
+   */
+  private resolveAmount(order: ReconciliationOrder, field: string, issues: ValidationIssue[]): Money | undefined {
+    const { expectedAmount, currency } = order;
+
+    if (expectedAmount instanceof Money) {
+      if (currency !== undefined && currency !== expectedAmount.currency) {
+        const currencyField = `${field.slice(0, field.lastIndexOf('.'))}.currency`;
+        issues.push({
+          field: currencyField,
+          code: 'currency_mismatch',
+          message: `${currencyField} ${currency} does not match the ${expectedAmount.currency} expected amount`
+        });
+        return undefined;
+      }
+      return expectedAmount;
+    }
+
+    if (typeof expectedAmount !== 'number' || !Number.isFinite(expectedAmount)) {
+      issues.push({ field, code: 'invalid_type', message: `${field} must be a finite number or Money` });
+      return undefined;
+    }
+
+    try {
+      return Money.of(expectedAmount, currency ?? 'BDT');
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      issues.push({ field, code: 'invalid_value', message: error.message.replace(/^Amount\b/, field) });
+      return undefined;
+    }
+  }
+}
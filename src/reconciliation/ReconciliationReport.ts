@@ -0,0 +1,146 @@
+import {
+  ReconciliationEntry,
+  ReconciliationEntryJSON,
+  ReconciliationOutcome,
+  ReconciliationReportJSON,
+  ReconciliationSummary
+} from '../types/reconciliation';
+
+const OUTCOMES: readonly ReconciliationOutcome[] = [
+  'matched',
+  'amount_mismatch',
+  'status_mismatch',
+  'missing',
+  'stale_processing',
+  'lookup_failed'
+];
+
+const CSV_COLUMNS = [
+  'invoice_number',
+  'outcome',
+  'expected_status',
+  'actual_status',
+  'expected_amount',
+  'actual_amount',
+  'requested_amount',
+  'currency',
+  'transaction_id',
+  'ordered_at',
+  'message'
+] as const;
+
+/**
+ * Result of a reconciliation run, exportable to JSON and CSV
+ */
+export class ReconciliationReport {
+  /** Number of entries per outcome */
+  readonly summary: ReconciliationSummary;
+
+  /**
+   * @param entries - One entry per order, in input order
+   * @param generatedAt - Time the report was made at
+   */
+  constructor(
+    readonly entries: readonly ReconciliationEntry[],
+    readonly generatedAt: Date
+  ) {
+    const summary = Object.fromEntries(OUTCOMES.map((outcome) => [outcome, 0])) as ReconciliationSummary;
+    for (const entry of entries) {
+      summary[entry.outcome]++;
+    }
+    this.summary = summary;
+  }
+
+  /**
+   * Entries that need attention: everything except `matched`
+   */
+  get discrepancies(): ReconciliationEntry[] {
+    return this.entries.filter((entry) => entry.outcome !== 'matched');
+  }
+
+  /**
+   * Get the entries with one outcome
+   * @param outcome - Outcome to filter by
+   * @returns Matching entries, in input order
+   */
+  byOutcome(outcome: ReconciliationOutcome): ReconciliationEntry[] {
+    return this.entries.filter((entry) => entry.outcome === outcome);
+  }
+
+  /**
+   * Convert the report to plain JSON
+   * @returns The report with amounts as decimal strings and dates in ISO 8601
+   */
+  toJSON(): ReconciliationReportJSON {
+    return {
+      generatedAt: this.generatedAt.toISOString(),
+      summary: { ...this.summary },
+      entries: this.entries.map((entry) => this.entryToJSON(entry))
+    };
+  }
+
+  /**
+   * Convert the report to CSV (RFC 4180) with a header row
+   *
+   * Cells that a spreadsheet would read as a formula are prefixed with a single quote.
+   *
+   * @returns CSV text, lines separated by CRLF
+   */
+  toCSV(): string {
+    const rows = this.entries.map((entry) => {
+      const json = this.entryToJSON(entry);
+      return [
+        json.invoiceNumber,
+        json.outcome,
+        json.expectedStatus,
+        json.actualStatus,
+        json.expectedAmount,
+        json.actualAmount,
+        json.requestedAmount,
+        json.currency,
+        json.transactionId,
+        json.orderedAt,
+        json.message
+      ];
+    });
+
+    return [CSV_COLUMNS, ...rows]
+      .map((row) => row.map((cell) => this.csvCell(cell)).join(','))
+      .join('\r\n');
+  }
+
+  /**
+   * Convert one entry to plain JSON
+   * @private
+   */
+  private entryToJSON(entry: ReconciliationEntry): ReconciliationEntryJSON {
+    return {
+      invoiceNumber: entry.invoiceNumber,
+      outcome: entry.outcome,
+      message: entry.message,
+      expectedStatus: entry.expectedStatus,
+      actualStatus: entry.actualStatus,
+      expectedAmount: entry.expectedAmount.toDecimalString(),
+      actualAmount: entry.actualAmount?.toDecimalString() ?? null,
+      requestedAmount: entry.requestedAmount?.toDecimalString() ?? null,
+      currency: entry.expectedAmount.currency,
+      transactionId: entry.transactionId,
+      orderedAt: entry.orderedAt?.toISOString() ?? null,
+      error: entry.error ? { code: entry.error.code, message: entry.error.message } : null
+    };
+  }
+
+  /**
+   * Quote a CSV cell when needed and neutralise spreadsheet formulas
+   * @private
+   */
+  private csvCell(value: string | null): string {
+    if (value === null) {
+      return '';
+    }
+
+    // Amounts such as -5.00 stay numeric; any other leading formula character is escaped
+    const text = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,2 @@
+export { Reconciler } from './Reconciler';
+export { ReconciliationReport } from './ReconciliationReport';
@@ -1,7 +1,17 @@
 import { ConfigManager } from '../config/ConfigManager';
-import { InitiatePaymentParams } from '../types/requests';
+import { InitiatePaymentParams, RequestOptions } from '../types/requests';
 import { HttpRequest } from '../types/http';
+import { Currency } from '../types/money';
 import { ValidationError } from '../errors/ValidationError';
+import { Money } from '../money/Money';
+import { PaymentParamsValidationOptions, ValidationIssue } from '../types/validation';
+import { RefundParams } from '../types/refund';
+import { TransactionReference } from '../types/polling';
+import { Transaction } from '../types/transaction';
+import { normalizePhoneNumber } from '../utils/phone';
+import { serializeCheckoutItems } from '../checkout/checkoutItems';
+import { MetadataCodec } from '../metadata/MetadataCodec';
+import { validatePaymentParams, checkRequiredString, resolveCurrency, phoneOptions } from './validatePaymentParams';
 
 /**
  * Request builder for PayStation API endpoints
@@ -9,40 +19,45 @@ import { ValidationError } from '../errors/ValidationError';
  */
 export class RequestBuilder {
   private readonly configManager: ConfigManager;
+  private readonly metadataCodec: MetadataCodec;
 
-  constructor(configManager: ConfigManager) {
+  constructor(configManager: ConfigManager, metadataCodec: MetadataCodec = new MetadataCodec(configManager.getMetadataConfig())) {
     this.configManager = configManager;
+    this.metadataCodec = metadataCodec;
   }
 
   /**
    * Build request for payment initiation
    * @param params - Payment initiation parameters
-   * @returns Formatted HTTP request
+   * @param options - Per-call request options (optional)
+   * @returns Promise resolving to the formatted HTTP request
    * @throws {ValidationError} When parameters are invalid
    */
-  buildInitiatePaymentRequest(params: InitiatePaymentParams): HttpRequest {
-    this.validateInitiatePaymentParams(params);
+  async buildInitiatePaymentRequest(params: InitiatePaymentParams, options: RequestOptions = {}): Promise<HttpRequest> {
+    const validationOptions = this.getValidationOptions();
+    this.validateInitiatePaymentParams(params, validationOptions);
 
-    const baseUrl = this.configManager.getBaseUrl();
-    const url = `${baseUrl}/initiate-payment`;
+    const url = this.configManager.getEndpointUrl('initiate-payment');
+    const currency = this.resolveCurrency(params);
+    const paymentAmount = this.toMoney(params.paymentAmount, currency, 'paymentAmount');
 
     // Build form data for the request
     const formData = new URLSearchParams();
     formData.append('merchant_id', this.configManager.getMerchantId());
     formData.append('password', this.configManager.getPassword());
     formData.append('invoice_number', params.invoiceNumber);
-    formData.append('payment_amount', params.paymentAmount.toString());
+    formData.append('payment_amount', paymentAmount.toDecimalString());
     formData.append('customer_name', params.customerName);
-    formData.append('customer_phone', params.customerPhone);
+    formData.append('customer_phone', normalizePhoneNumber(params.customerPhone, phoneOptions(validationOptions)));
     formData.append('customer_email', params.customerEmail);
     formData.append('callback_url', params.callbackUrl);
 
     // Add optional parameters if provided
-    if (params.currency) {
-      formData.append('currency', params.currency);
+    if (params.currency || params.paymentAmount instanceof Money) {
+      formData.append('currency', currency);
     }
     if (params.payWithCharge !== undefined) {
-      formData.append('pay_with_charge', params.payWithCharge.toString());
+      formData.append('pay_with_charge', this.toMoney(params.payWithCharge, currency, 'payWithCharge').toDecimalString());
     }
     if (params.reference) {
       formData.append('reference', params.reference);
@@ -50,17 +65,20 @@ export class RequestBuilder {
     if (params.customerAddress) {
       formData.append('customer_address', params.customerAddress);
     }
-    if (params.checkoutItems) {
+    if (Array.isArray(params.checkoutItems)) {
+      formData.append('checkout_items', serializeCheckoutItems(params.checkoutItems, currency, validationOptions.amountRounding));
+    } else if (params.checkoutItems) {
       formData.append('checkout_items', params.checkoutItems);
     }
-    if (params.optA) {
-      formData.append('opt_a', params.optA);
+    const optFields = params.metadata !== undefined ? await this.metadataCodec.pack(params.metadata) : params;
+    if (optFields.optA) {
+      formData.append('opt_a', optFields.optA);
     }
-    if (params.optB) {
-      formData.append('opt_b', params.optB);
+    if (optFields.optB) {
+      formData.append('opt_b', optFields.optB);
     }
-    if (params.optC) {
-      formData.append('opt_c', params.optC);
+    if (optFields.optC) {
+      formData.append('opt_c', optFields.optC);
     }
     if (params.emi !== undefined) {
       formData.append('emi', params.emi.toString());
@@ -68,26 +86,29 @@ export class RequestBuilder {
 
     return {
       url,
+      endpoint: 'initiate-payment',
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
         'Accept': 'application/json'
       },
-      body: formData
+      body: formData,
+      idempotent: false,
+      ...this.buildRequestOptions(options)
     };
   }
 
   /**
    * Build request for transaction status check by invoice number
    * @param invoiceNumber - Invoice number to check
+   * @param options - Per-call request options (optional)
    * @returns Formatted HTTP request
    * @throws {ValidationError} When invoice number is invalid
    */
-  buildTransactionStatusRequest(invoiceNumber: string): HttpRequest {
+  buildTransactionStatusRequest(invoiceNumber: string, options: RequestOptions = {}): HttpRequest {
     this.validateInvoiceNumber(invoiceNumber);
 
-    const baseUrl = this.configManager.getBaseUrl();
-    const url = `${baseUrl}/transaction-status`;
+    const url = this.configManager.getEndpointUrl('transaction-status');
 
     const formData = new URLSearchParams();
     formData.append('merchant_id', this.configManager.getMerchantId());
@@ -96,26 +117,29 @@ export class RequestBuilder {
 
     return {
       url,
+      endpoint: 'transaction-status',
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
         'Accept': 'application/json'
       },
-      body: formData
+      body: formData,
+      idempotent: true,
+      ...this.buildRequestOptions(options)
     };
   }
 
   /**
    * Build request for transaction status check by transaction ID
    * @param transactionId - Transaction ID to check
+   * @param options - Per-call request options (optional)
    * @returns Formatted HTTP request
    * @throws {ValidationError} When transaction ID is invalid
    */
-  buildTransactionStatusByIdRequest(transactionId: string): HttpRequest {
+  buildTransactionStatusByIdRequest(transactionId: string, options: RequestOptions = {}): HttpRequest {
     this.validateTransactionId(transactionId);
 
-    const baseUrl = this.configManager.getBaseUrl();
-    const url = `${baseUrl}/v2/transaction-status`;
+    const url = this.configManager.getEndpointUrl('v2/transaction-status');
 
     const formData = new URLSearchParams();
     formData.append('merchant_id', this.configManager.getMerchantId());
@@ -124,68 +148,243 @@ export class RequestBuilder {
 
     return {
       url,
+      endpoint: 'v2/transaction-status',
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
         'Accept': 'application/json'
       },
-      body: formData
+      body: formData,
+      idempotent: true,
+      ...this.buildRequestOptions(options)
     };
   }
 
   /**
-   * Validate payment initiation parameters
-   * @param params - Parameters to validate
-   * @throws {ValidationError} When parameters are invalid
+   * Check refund parameters before the refunded transaction is looked up
+   * @param params - Refund parameters to check
+   * @returns Reference of the transaction to refund
+   * @throws {ValidationError} When parameters are invalid, with every problem in `issues`
    */
-  private validateInitiatePaymentParams(params: InitiatePaymentParams): void {
-    if (!params) {
-      throw new ValidationError('Payment parameters are required');
+  resolveRefundReference(params: RefundParams): TransactionReference {
+    if (!params || typeof params !== 'object') {
+      throw new ValidationError('Refund parameters are required', '', [
+        { field: '', code: 'required', message: 'Refund parameters are required' }
+      ]);
     }
 
-    // Validate required string fields
-    this.validateRequiredString(params.invoiceNumber, 'invoiceNumber');
-    this.validateRequiredString(params.customerName, 'customerName');
-    this.validateRequiredString(params.customerPhone, 'customerPhone');
-    this.validateRequiredString(params.customerEmail, 'customerEmail');
-    this.validateRequiredString(params.callbackUrl, 'callbackUrl');
+    const issues: ValidationIssue[] = [];
+    const { transactionId, invoiceNumber } = params as { transactionId?: unknown; invoiceNumber?: unknown };
+    if (transactionId !== undefined && invoiceNumber !== undefined) {
+      issues.push({ field: 'invoiceNumber', code: 'conflict', message: 'Pass either transactionId or invoiceNumber, not both' });
+    } else if (transactionId === undefined && invoiceNumber === undefined) {
+      issues.push({ field: 'transactionId', code: 'required', message: 'transactionId or invoiceNumber is required' });
+    } else {
+      const referenceIssue = transactionId !== undefined
+        ? checkRequiredString(transactionId, 'transactionId')
+        : checkRequiredString(invoiceNumber, 'invoiceNumber');
+      if (referenceIssue) {
+        issues.push(referenceIssue);
+      }
+    }
 
-    // Validate payment amount
-    if (typeof params.paymentAmount !== 'number') {
-      throw new ValidationError('paymentAmount must be a number');
+    const { amount } = params;
+    if (amount !== undefined) {
+      if (!(amount instanceof Money) && typeof amount !== 'number') {
+        issues.push({ field: 'amount', code: 'invalid_type', message: 'amount must be a number or Money' });
+      } else if (typeof amount === 'number' && !Number.isFinite(amount)) {
+        issues.push({ field: 'amount', code: 'invalid_value', message: 'amount must be a finite number' });
+      } else if (amount instanceof Money ? !amount.isPositive() : amount <= 0) {
+        issues.push({ field: 'amount', code: 'too_small', message: 'amount must be greater than 0' });
+      }
     }
-    if (params.paymentAmount <= 0) {
-      throw new ValidationError('paymentAmount must be greater than 0');
+
+    const reasonIssue = checkRequiredString(params.reason, 'reason');
+    if (reasonIssue) {
+      issues.push(reasonIssue);
     }
 
-    // Validate optional numeric fields
-    if (params.payWithCharge !== undefined) {
-      if (typeof params.payWithCharge !== 'number') {
-        throw new ValidationError('payWithCharge must be a number');
-      }
-      if (params.payWithCharge < 0) {
-        throw new ValidationError('payWithCharge cannot be negative');
-      }
+    this.throwIssues(issues, 'Invalid refund parameters');
+    return transactionId !== undefined ? { transactionId: transactionId as string } : { invoiceNumber: invoiceNumber as string };
+  }
+
+  /**
+   * Build request for refunding a payment
+   * @param params - Refund parameters, already checked with resolveRefundReference()
+   * @param transaction - The transaction to refund, as PayStation reports it
+   * @param options - Per-call request options (optional)
+   * @returns Formatted HTTP request
+   * @throws {ValidationError} When the transaction cannot be refunded, the amount exceeds the captured amount, or an amount is given for a partly refunded transaction
+   */
+  buildRefundRequest(params: RefundParams, transaction: Transaction, options: RequestOptions = {}): HttpRequest {
+    const referenceField = params.transactionId !== undefined ? 'transactionId' : 'invoiceNumber';
+    if (transaction.status !== 'success' && transaction.status !== 'refund') {
+      const message = `Transaction ${transaction.transactionId} is ${transaction.status} and cannot be refunded`;
+      throw new ValidationError(message, referenceField, [{ field: referenceField, code: 'invalid_value', message }]);
     }
 
-    if (params.emi !== undefined) {
-      if (typeof params.emi !== 'number') {
-        throw new ValidationError('emi must be a number');
+    const url = this.configManager.getEndpointUrl('refund');
+
+    const formData = new URLSearchParams();
+    formData.append('merchant_id', this.configManager.getMerchantId());
+    formData.append('password', this.configManager.getPassword());
+    formData.append('trx_id', transaction.transactionId);
+    formData.append('invoice_number', transaction.invoiceNumber);
+
+    // Without an amount PayStation refunds whatever is left of the captured amount
+    if (params.amount !== undefined) {
+      // The status data does not say how much earlier refunds took, so the amount left is unknown
+      if (transaction.status === 'refund') {
+        const message = `Transaction ${transaction.transactionId} is already partly refunded and PayStation does not report the amount left; leave out amount to refund the rest`;
+        throw new ValidationError(message, 'amount', [{ field: 'amount', code: 'invalid_value', message }]);
       }
-      if (params.emi < 0) {
-        throw new ValidationError('emi cannot be negative');
+
+      const captured = transaction.amount;
+      if (captured && params.amount instanceof Money && params.amount.currency !== captured.currency) {
+        const message = `amount must be in ${captured.currency}, got ${params.amount.currency}`;
+        throw new ValidationError(message, 'amount', [{ field: 'amount', code: 'currency_mismatch', message }]);
+      }
+
+      const amount = this.toMoney(params.amount, captured?.currency ?? 'BDT', 'amount');
+      if (captured && amount.compare(captured) > 0) {
+        const message = `amount ${amount.toDecimalString()} exceeds the captured amount ${captured.toDecimalString()}`;
+        throw new ValidationError(message, 'amount', [{ field: 'amount', code: 'too_large', message }]);
       }
+      formData.append('refund_amount', amount.toDecimalString());
+    }
+    formData.append('reason', params.reason.trim());
+
+    return {
+      url,
+      endpoint: 'refund',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json'
+      },
+      body: formData,
+      idempotent: false,
+      ...this.buildRequestOptions(options)
+    };
+  }
+
+  /**
+   * Build request for refund status check
+   * @param refundId - PayStation refund ID to check
+   * @param options - Per-call request options (optional)
+   * @returns Formatted HTTP request
+   * @throws {ValidationError} When refund ID is invalid
+   */
+  buildRefundStatusRequest(refundId: string, options: RequestOptions = {}): HttpRequest {
+    this.validateRequiredString(refundId, 'refundId');
+
+    const url = this.configManager.getEndpointUrl('refund-status');
+
+    const formData = new URLSearchParams();
+    formData.append('merchant_id', this.configManager.getMerchantId());
+    formData.append('password', this.configManager.getPassword());
+    formData.append('refund_id', refundId);
+
+    return {
+      url,
+      endpoint: 'refund-status',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json'
+      },
+      body: formData,
+      idempotent: true,
+      ...this.buildRequestOptions(options)
+    };
+  }
+
+  /**
+   * Validate per-call request options and pick the fields carried by the request
+   * @param options - Request options to apply
+   * @returns Signal and timeout to merge into the request
+   * @throws {ValidationError} When options are invalid
+   */
+  private buildRequestOptions(options: RequestOptions): Pick<HttpRequest, 'signal' | 'timeoutMs'> {
+    const { signal, timeoutMs } = options;
+
+    if (timeoutMs !== undefined && !(typeof timeoutMs === 'number' && timeoutMs > 0)) {
+      throw new ValidationError('timeoutMs must be a positive number', 'timeoutMs');
     }
 
-    // Validate email format
-    if (!this.isValidEmail(params.customerEmail)) {
-      throw new ValidationError('customerEmail must be a valid email address');
+    return { signal, timeoutMs };
+  }
+
+  /**
+   * Get the payment parameter validation options from the configuration
+   * @returns Validation options
+   */
+  getValidationOptions(): PaymentParamsValidationOptions {
+    return {
+      amountRounding: this.configManager.getAmountRounding(),
+      allowInternationalPhone: this.configManager.getAllowInternationalPhone(),
+      strictInvoiceNumbers: this.configManager.getStrictInvoiceNumbers(),
+      metadata: this.configManager.getMetadataConfig()
+    };
+  }
+
+  /**
+   * Validate payment initiation parameters
+   * @param params - Parameters to validate
+   * @param options - Validation options
+   * @throws {ValidationError} When parameters are invalid, with every problem in `issues`
+   */
+  private validateInitiatePaymentParams(params: InitiatePaymentParams, options: PaymentParamsValidationOptions): void {
+    this.throwIssues(validatePaymentParams(params, options), 'Invalid payment parameters');
+  }
+
+  /**
+   * Throw a single ValidationError listing every issue, if there are any
+   * @param issues - Problems found
+   * @param summary - Message prefix used when there is more than one problem
+   * @throws {ValidationError} When there are issues
+   */
+  private throwIssues(issues: ValidationIssue[], summary: string): void {
+    if (issues.length === 0) {
+      return;
+    }
+
+    const message = issues.length === 1
+      ? issues[0].message
+      : `${summary}: ${issues.map((issue) => issue.message).join('; ')}`;
+    throw new ValidationError(message, issues[0].field, issues);
+  }
+
+  /**
+   * Resolve the payment currency from the params and a Money payment amount
+   * @param params - Payment initiation parameters
+   * @returns The currency code
+   * @throws {ValidationError} When the currency is unsupported or conflicts with the amount
+   */
+  resolveCurrency(params: InitiatePaymentParams): Currency {
+    return resolveCurrency(params);
+  }
+
+  /**
+   * Convert an amount to Money in the payment currency, rounding numbers with the configured mode
+   * @param amount - Number or Money amount
+   * @param currency - Payment currency
+   * @param fieldName - Name of the field for error messages
+   * @returns The amount as Money
+   * @throws {ValidationError} When the amount is invalid or in another currency
+   */
+  private toMoney(amount: number | Money, currency: Currency, fieldName: string): Money {
+    if (amount instanceof Money) {
+      if (amount.currency !== currency) {
+        throw new ValidationError(`${fieldName} must be in ${currency}, got ${amount.currency}`, fieldName);
+      }
+      return amount;
     }
 
-    // Validate URL format
-    if (!this.isValidUrl(params.callbackUrl)) {
-      throw new ValidationError('callbackUrl must be a valid URL');
+    if (!Number.isFinite(amount)) {
+      throw new ValidationError(`${fieldName} must be a finite number`, fieldName);
     }
+    return Money.of(amount, currency, this.configManager.getAmountRounding());
   }
 
   /**
@@ -213,35 +412,9 @@ export class RequestBuilder {
    * @throws {ValidationError} When field is invalid
    */
   private validateRequiredString(value: string, fieldName: string): void {
-    if (typeof value !== 'string') {
-      throw new ValidationError(`${fieldName} is required and must be a string`);
-    }
-    if (value.trim().length === 0) {
-      throw new ValidationError(`${fieldName} cannot be empty or whitespace only`);
-    }
-  }
-
-  /**
-   * Validate email format
-   * @param email - Email to validate
-   * @returns True if email is valid
-   */
-  private isValidEmail(email: string): boolean {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-  }
-
-  /**
-   * Validate URL format (only HTTP/HTTPS allowed for callbacks)
-   * @param url - URL to validate
-   * @returns True if URL is valid
-   */
-  private isValidUrl(url: string): boolean {
-    try {
-      const parsedUrl = new URL(url);
-      return parsedUrl.protocol === 'http:' || parsedUrl.protocol === 'https:';
-    } catch {
-      return false;
+    const issue = checkRequiredString(value, fieldName);
+    if (issue) {
+      throw new ValidationError(issue.message, fieldName, [issue]);
     }
   }
-}
\ No newline at end of file
+}
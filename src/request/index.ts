@@ -1 +1,2 @@
-export { RequestBuilder } from './RequestBuilder';
\ No newline at end of file
+export { RequestBuilder } from './RequestBuilder';
+export { validatePaymentParams } from './validatePaymentParams';
\ No newline at end of file
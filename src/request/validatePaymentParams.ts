@@ -0,0 +1,337 @@
+import { InitiatePaymentParams } from '../types/requests';
+import { Currency, RoundingMode } from '../types/money';
+import { PaymentParamsValidationOptions, ValidationIssue, ValidationIssueCode } from '../types/validation';
+import { PhoneNumberOptions } from '../types/phone';
+import { CheckoutItem, CheckoutLineType } from '../types/checkout';
+import { ValidationError } from '../errors/ValidationError';
+import { Money } from '../money/Money';
+import { parsePhoneNumber, phoneMessage } from '../utils/phone';
+import { CHECKOUT_LINE_TYPES, checkoutTotal } from '../checkout/checkoutItems';
+import { MetadataCodec } from '../metadata/MetadataCodec';
+import { InvoiceNumber } from '../invoice/InvoiceNumber';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Check payment initiation parameters and report every problem at once
+ *
+ * Runs the same checks as `initiatePayment()` without making a request or needing
+ * credentials, so it can validate a checkout form in the browser.
+ *
+ * @param params - Payment initiation parameters to check
+ * @param options - Validation options (optional)
+ * @returns Every problem found, in field order; empty when the parameters are valid
+ */
+export function validatePaymentParams(
+  params: InitiatePaymentParams,
+  options: PaymentParamsValidationOptions = {}
+): ValidationIssue[] {
+  if (!params || typeof params !== 'object') {
+    return [issue('', 'required', 'Payment parameters are required')];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const collect = (found: ValidationIssue | undefined): boolean => {
+    if (found) {
+      issues.push(found);
+    }
+    return !found;
+  };
+
+  // PayStation does not document its invoice number limits, so the stricter rules are opt-in
+  if (collect(checkRequiredString(params.invoiceNumber, 'invoiceNumber')) && options.strictInvoiceNumbers) {
+    issues.push(...InvoiceNumber.validate(params.invoiceNumber));
+  }
+
+  // Validate currency and amounts
+  const currency = checkCurrency(params, issues);
+  const rounding = options.amountRounding ?? 'half-up';
+
+  const paymentAmount = checkAmount(params.paymentAmount, 'paymentAmount', currency, rounding, issues);
+  if (paymentAmount && !paymentAmount.isPositive()) {
+    issues.push(issue('paymentAmount', 'too_small', 'paymentAmount must be greater than 0'));
+  }
+
+  if (params.payWithCharge !== undefined) {
+    const payWithCharge = checkAmount(params.payWithCharge, 'payWithCharge', currency, rounding, issues);
+    if (payWithCharge && payWithCharge.isNegative()) {
+      issues.push(issue('payWithCharge', 'too_small', 'payWithCharge cannot be negative'));
+    }
+  }
+
+  // Validate customer details
+  collect(checkRequiredString(params.customerName, 'customerName'));
+  const phone = phoneOptions(options);
+  if (collect(checkRequiredString(params.customerPhone, 'customerPhone')) &&
+      !parsePhoneNumber(params.customerPhone, phone)) {
+    issues.push(issue('customerPhone', 'invalid_format', phoneMessage('customerPhone', phone)));
+  }
+
+  if (collect(checkRequiredString(params.customerEmail, 'customerEmail')) &&
+      !EMAIL_PATTERN.test(params.customerEmail)) {
+    issues.push(issue('customerEmail', 'invalid_format', 'customerEmail must be a valid email address'));
+  }
+
+  if (collect(checkRequiredString(params.callbackUrl, 'callbackUrl')) && !isHttpUrl(params.callbackUrl)) {
+    issues.push(issue('callbackUrl', 'invalid_format', 'callbackUrl must be a valid URL'));
+  }
+
+  if (params.checkoutItems !== undefined) {
+    checkCheckoutItems(params.checkoutItems, paymentAmount, currency, rounding, issues);
+  }
+
+  if (params.metadata !== undefined) {
+    checkMetadata(params, options, issues);
+  }
+
+  if (params.emi !== undefined) {
+    if (typeof params.emi !== 'number') {
+      issues.push(issue('emi', 'invalid_type', 'emi must be a number'));
+    } else if (params.emi < 0) {
+      issues.push(issue('emi', 'too_small', 'emi cannot be negative'));
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check a required string field
+ * @param value - Value to check
+ * @param field - Name of the field for issues
+ * @returns The problem found, or undefined when the value is a non-empty string
+ */
+export function checkRequiredString(value: unknown, field: string): ValidationIssue | undefined {
+  if (value === undefined || value === null) {
+    return issue(field, 'required', `${field} is required and must be a string`);
+  }
+  if (typeof value !== 'string') {
+    return issue(field, 'invalid_type', `${field} is required and must be a string`);
+  }
+  if (value.trim().length === 0) {
+    return issue(field, 'empty', `${field} cannot be empty or whitespace only`);
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the payment currency, recording unsupported or conflicting currencies
+ * @returns The currency, or undefined when it is invalid
+ * @private
+ */
+function checkCurrency(params: InitiatePaymentParams, issues: ValidationIssue[]): Currency | undefined {
+  try {
+    return resolveCurrency(params);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) {
+      throw error;
+    }
+    issues.push(...error.issues);
+    return undefined;
+  }
+}
+
+/**
+ * Resolve the payment currency from the params and a Money payment amount
+ * @param params - Payment initiation parameters
+ * @returns The currency code
+ * @throws {ValidationError} When the currency is unsupported or conflicts with the amount
+ */
+export function resolveCurrency(params: InitiatePaymentParams): Currency {
+  const amountCurrency = params.paymentAmount instanceof Money ? params.paymentAmount.currency : undefined;
+
+  if (params.currency === undefined || params.currency === '') {
+    return amountCurrency ?? 'BDT';
+  }
+
+  const currency = typeof params.currency === 'string' ? params.currency.trim().toUpperCase() : '';
+  if (!Money.isSupportedCurrency(currency)) {
+    const message = `Unsupported currency: ${params.currency}. Must be one of: ${Object.keys(Money.PRECISION).join(', ')}`;
+    throw new ValidationError(message, 'currency', [issue('currency', 'invalid_enum', message)]);
+  }
+  if (amountCurrency && amountCurrency !== currency) {
+    const message = `currency ${currency} does not match the paymentAmount currency ${amountCurrency}`;
+    throw new ValidationError(message, 'currency', [issue('currency', 'currency_mismatch', message)]);
+  }
+  return currency;
+}
+
+/**
+ * Convert an amount to Money, recording why it cannot be converted
+ * @returns The amount as Money, or undefined when it is invalid
+ * @private
+ */
+function checkAmount(
+  amount: unknown,
+  field: string,
+  currency: Currency | undefined,
+  rounding: RoundingMode,
+  issues: ValidationIssue[]
+): Money | undefined {
+  if (amount === undefined || amount === null) {
+    issues.push(issue(field, 'required', `${field} is required`));
+    return undefined;
+  }
+
+  if (amount instanceof Money) {
+    if (currency && amount.currency !== currency) {
+      issues.push(issue(field, 'currency_mismatch', `${field} must be in ${currency}, got ${amount.currency}`));
+      return undefined;
+    }
+    return amount;
+  }
+
+  if (typeof amount !== 'number') {
+    issues.push(issue(field, 'invalid_type', `${field} must be a number or Money`));
+    return undefined;
+  }
+
+  if (!Number.isFinite(amount)) {
+    issues.push(issue(field, 'invalid_value', `${field} must be a finite number`));
+    return undefined;
+  }
+
+  try {
+    // Check the shape against BDT when the currency itself is invalid
+    return Money.of(amount, currency ?? 'BDT', rounding);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) {
+      throw error;
+    }
+    issues.push(issue(field, 'invalid_value', error.message.replace(/^Amount\b/, field)));
+    return undefined;
+  }
+}
+
+/**
+ * Check checkout lines and that their total matches the payment amount
+ * @private
+ */
+function checkCheckoutItems(
+  checkoutItems: unknown,
+  paymentAmount: Money | undefined,
+  currency: Currency | undefined,
+  rounding: RoundingMode,
+  issues: ValidationIssue[]
+): void {
+  if (typeof checkoutItems === 'string') {
+    return;
+  }
+  if (!Array.isArray(checkoutItems)) {
+    issues.push(issue('checkoutItems', 'invalid_type', 'checkoutItems must be a string or an array of items'));
+    return;
+  }
+  if (checkoutItems.length === 0) {
+    issues.push(issue('checkoutItems', 'empty', 'checkoutItems cannot be empty'));
+    return;
+  }
+
+  const issueCount = issues.length;
+
+  checkoutItems.forEach((item: unknown, index) => {
+    const field = `checkoutItems[${index}]`;
+    if (!item || typeof item !== 'object') {
+      issues.push(issue(field, 'invalid_type', `${field} must be an object`));
+      return;
+    }
+
+    const { type, name, quantity, unitPrice, sku } = item as Record<string, unknown>;
+
+    if (type !== undefined && !CHECKOUT_LINE_TYPES.includes(type as CheckoutLineType)) {
+      issues.push(issue(`${field}.type`, 'invalid_enum', `${field}.type must be one of: ${CHECKOUT_LINE_TYPES.join(', ')}`));
+    }
+
+    const nameIssue = checkRequiredString(name, `${field}.name`);
+    if (nameIssue) {
+      issues.push(nameIssue);
+    }
+
+    if (quantity !== undefined) {
+      if (typeof quantity !== 'number') {
+        issues.push(issue(`${field}.quantity`, 'invalid_type', `${field}.quantity must be a number`));
+      } else if (!Number.isInteger(quantity)) {
+        issues.push(issue(`${field}.quantity`, 'invalid_value', `${field}.quantity must be a whole number`));
+      } else if (quantity < 1) {
+        issues.push(issue(`${field}.quantity`, 'too_small', `${field}.quantity must be at least 1`));
+      }
+    }
+
+    const price = checkAmount(unitPrice, `${field}.unitPrice`, currency, rounding, issues);
+    if (price && price.isNegative()) {
+      issues.push(issue(`${field}.unitPrice`, 'too_small', `${field}.unitPrice cannot be negative`));
+    }
+
+    if (sku !== undefined && typeof sku !== 'string') {
+      issues.push(issue(`${field}.sku`, 'invalid_type', `${field}.sku must be a string`));
+    }
+  });
+
+  // The total can only be compared once every line and the amount are valid
+  if (issues.length > issueCount || !paymentAmount || !currency) {
+    return;
+  }
+
+  const total = checkoutTotal(checkoutItems as CheckoutItem[], currency, rounding);
+  if (!total.equals(paymentAmount)) {
+    issues.push(issue(
+      'checkoutItems',
+      'total_mismatch',
+      `checkoutItems total ${total.toDecimalString()} does not match paymentAmount ${paymentAmount.toDecimalString()}`
+    ));
+  }
+}
+
+/**
+ * Check that metadata fits into the pass-through fields and that they are not also set directly
+ * @private
+ */
+function checkMetadata(
+  params: InitiatePaymentParams,
+  options: PaymentParamsValidationOptions,
+  issues: ValidationIssue[]
+): void {
+  for (const field of MetadataCodec.FIELDS) {
+    if (params[field] !== undefined) {
+      issues.push(issue(field, 'conflict', `${field} cannot be combined with metadata, which is packed into it`));
+    }
+  }
+
+  try {
+    new MetadataCodec(options.metadata).check(params.metadata!);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) {
+      throw error;
+    }
+    issues.push(...error.issues);
+  }
+}
+
+/**
+ * Phone parsing options for the customer phone
+ * @param options - Validation options
+ * @returns Options for parsePhoneNumber()
+ */
+export function phoneOptions(options: PaymentParamsValidationOptions): PhoneNumberOptions {
+  return { allowInternational: options.allowInternationalPhone ?? false };
+}
+
+/**
+ * Checks that a URL is absolute HTTP/HTTPS (only these are allowed for callbacks)
+ * @private
+ */
+function isHttpUrl(url: string): boolean {
+  try {
+    const parsedUrl = new URL(url);
+    return parsedUrl.protocol === 'http:' || parsedUrl.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates an issue
+ * @private
+ */
+function issue(field: string, code: ValidationIssueCode, message: string): ValidationIssue {
+  return { field, code, message };
+}
@@ -1,116 +1,202 @@
 import { HttpResponse } from '../types/http';
-import { InitiatePaymentResponse, TransactionStatusResponse } from '../types/responses';
-import { PayStationError, ValidationError, AuthenticationError } from '../errors';
+import { InitiatePaymentResponse, TransactionStatusResponse, TransactionAmounts } from '../types/responses';
+import { Currency } from '../types/money';
+import { Money } from '../money/Money';
+import { ResponseValidationMode } from '../types/validation';
+import {
+  ValidationError,
+  AuthenticationError,
+  ResponseValidationError,
+  RateLimitedError,
+  createApiError
+} from '../errors';
+import type { PayStationErrorDetails } from '../errors';
+import { parseRetryAfter } from '../utils/retryAfter';
+import { parseCheckoutItems } from '../checkout/checkoutItems';
+import { MetadataCodec } from '../metadata/MetadataCodec';
+import { MetadataFields, PaymentMetadata } from '../types/metadata';
+import { parse, ParseResult } from '../schema/schema';
+import { RefundResponse } from '../types/refund';
+import { envelopeSchema, initiatePaymentResponseSchema, refundDataSchema, transactionDataSchema } from './schemas';
 
 /**
  * Parses and validates API responses from PayStation
  */
 export class ResponseParser {
+  /**
+   * @param mode - How strictly responses are validated (default: 'strict')
+   * @param metadataCodec - Decodes metadata from the pass-through fields (default: compact, unsigned)
+   */
+  constructor(
+    private readonly mode: ResponseValidationMode = 'strict',
+    private readonly metadataCodec: MetadataCodec = new MetadataCodec()
+  ) {}
+
   /**
    * Parses initiate payment response from PayStation API
    * @param response - HTTP response from the API
    * @returns Parsed and typed initiate payment response
-   * @throws PayStationError when API returns error status
-   * @throws ValidationError when response format is invalid
+   * @throws PayStationError (or a catalogued subclass such as DuplicateInvoiceError) when API returns error status
+   * @throws ResponseValidationError when response format is invalid
    */
   parseInitiatePaymentResponse(response: HttpResponse): InitiatePaymentResponse {
     // First validate that we have a valid response structure
     this.validateResponseStructure(response);
     
-    const data = response.data as any;
+    // Check if API returned an error status
+    this.parseEnvelope(response);
     
-    // Validate required fields
-    if (!data.statusCode || !data.status || !data.message) {
-      throw new ValidationError('Invalid response format: missing required fields (statusCode, status, message)');
-    }
+    // Validate every field of the successful response
+    return this.validate(parse(initiatePaymentResponseSchema, response.data, this.mode));
+  }
+
+  /**
+   * Parses transaction status response from PayStation API
+   * @param response - HTTP response from the API
+   * @returns Promise resolving to the parsed and typed transaction status response
+   * @throws PayStationError (or a catalogued subclass such as DuplicateInvoiceError) when API returns error status
+   * @throws ResponseValidationError when response format is invalid or signed metadata was altered
+   */
+  async parseTransactionStatusResponse(response: HttpResponse): Promise<TransactionStatusResponse> {
+    // First validate that we have a valid response structure
+    this.validateResponseStructure(response);
     
     // Check if API returned an error status
-    if (data.status === 'failed') {
-      throw new PayStationError(data.message, data.statusCode);
-    }
+    this.parseEnvelope(response);
     
-    // Parse successful response
-    const parsedResponse: InitiatePaymentResponse = {
-      statusCode: String(data.statusCode),
-      status: data.status,
-      message: String(data.message)
-    };
+    const { data, ...envelope } = response.data as Record<string, unknown>;
     
-    // Add optional fields if present
-    if (data.paymentAmount !== undefined) {
-      parsedResponse.paymentAmount = String(data.paymentAmount);
-    }
+    // Validate the envelope and the transaction data together so all issues are reported at once
+    const envelopeResult = parse(envelopeSchema, envelope, this.mode);
+    const dataResult = data === undefined || data === null
+      ? undefined
+      : parse(transactionDataSchema, data, this.mode, 'data');
     
-    if (data.invoiceNumber !== undefined) {
-      parsedResponse.invoiceNumber = String(data.invoiceNumber);
-    }
+    const parsedResponse: TransactionStatusResponse = this.validate({
+      value: envelopeResult.value,
+      issues: [...envelopeResult.issues, ...(dataResult?.issues ?? [])]
+    });
     
-    if (data.paymentUrl !== undefined) {
-      parsedResponse.paymentUrl = String(data.paymentUrl);
+    if (dataResult) {
+      const transaction = dataResult.value!;
+      const currency = this.parseCurrency(data as Record<string, unknown>);
+      parsedResponse.data = {
+        ...transaction,
+        amounts: this.parseTransactionAmounts(data as Record<string, unknown>, currency)
+      };
+      
+      const items = parseCheckoutItems(transaction.checkoutItems, currency);
+      if (items) {
+        parsedResponse.data.items = items;
+      }
+      
+      const metadata = await this.parseMetadata(transaction);
+      if (metadata) {
+        parsedResponse.data.metadata = metadata;
+      }
     }
     
     return parsedResponse;
-  }  
-/**
-   * Parses transaction status response from PayStation API
+  }
+
+  /**
+   * Parses refund and refund status responses from PayStation API
    * @param response - HTTP response from the API
-   * @returns Parsed and typed transaction status response
-   * @throws PayStationError when API returns error status
-   * @throws ValidationError when response format is invalid
+   * @returns Parsed and typed refund response
+   * @throws PayStationError (or a catalogued subclass such as InvalidAmountError) when API returns error status
+   * @throws ResponseValidationError when response format is invalid
    */
-  parseTransactionStatusResponse(response: HttpResponse): TransactionStatusResponse {
+  parseRefundResponse(response: HttpResponse): RefundResponse {
     // First validate that we have a valid response structure
     this.validateResponseStructure(response);
     
-    const data = response.data as any;
+    // Check if API returned an error status
+    this.parseEnvelope(response);
     
-    // Validate required fields
-    if (!data.statusCode || !data.status || !data.message) {
-      throw new ValidationError('Invalid response format: missing required fields (statusCode, status, message)');
-    }
+    const { data, ...envelope } = response.data as Record<string, unknown>;
     
-    // Check if API returned an error status
-    if (data.status === 'failed') {
-      throw new PayStationError(data.message, data.statusCode);
-    }
+    // Validate the envelope and the refund data together so all issues are reported at once
+    const envelopeResult = parse(envelopeSchema, envelope, this.mode);
+    const dataResult = data === undefined || data === null
+      ? undefined
+      : parse(refundDataSchema, data, this.mode, 'data');
     
-    // Parse successful response
-    const parsedResponse: TransactionStatusResponse = {
-      statusCode: String(data.statusCode),
-      status: data.status,
-      message: String(data.message)
-    };
+    const parsedResponse: RefundResponse = this.validate({
+      value: envelopeResult.value,
+      issues: [...envelopeResult.issues, ...(dataResult?.issues ?? [])]
+    });
     
-    // Parse transaction data if present
-    if (data.data) {
-      parsedResponse.data = this.parseTransactionData(data.data);
+    if (dataResult) {
+      const refundAmount = this.parseMoney(dataResult.value!.refundAmount, this.parseCurrency(data as Record<string, unknown>));
+      parsedResponse.data = {
+        ...dataResult.value!,
+        amounts: refundAmount ? { refundAmount } : {}
+      };
     }
     
     return parsedResponse;
   }
 
+  /**
+   * Adds the Money amounts to an initiate payment response
+   * Kept separate from parsing so stored responses stay plain JSON
+   * @param response - Parsed initiate payment response
+   * @param currency - Currency the payment was requested in
+   * @returns The response with `amounts` set
+   */
+  withAmounts(response: InitiatePaymentResponse, currency: Currency): InitiatePaymentResponse {
+    return {
+      ...response,
+      amounts: {
+        paymentAmount: this.parseMoney(response.paymentAmount, currency)
+      }
+    };
+  }
+
   /**
    * Parses error response and throws appropriate error type
    * @param response - HTTP response containing error
    * @throws AuthenticationError for 401/403 status codes
-   * @throws ValidationError for 400 status codes
-   * @throws PayStationError for other error responses
+   * @throws RateLimitedError for 429 status codes
+   * @throws ValidationError for 400 status codes without a catalogued message
+   * @throws PayStationError (or a catalogued subclass) for other error responses
    */
   parseErrorResponse(response: HttpResponse): never {
+    const details = this.extractErrorDetails(response);
+    const statusCode = this.extractStatusCode(response);
+    
     // Map HTTP status codes to appropriate error types
     if (response.status === 401 || response.status === 403) {
       const message = this.extractErrorMessage(response) || 'Authentication failed';
-      throw new AuthenticationError(message, String(response.status));
+      // A catalogued message such as a disabled merchant is more specific than the HTTP status
+      const error = createApiError(message, statusCode, details);
+      throw error instanceof AuthenticationError
+        ? error
+        : new AuthenticationError(message, String(response.status), details);
+    }
+    
+    if (response.status === 429) {
+      const message = this.extractErrorMessage(response) || 'Too many requests';
+      throw new RateLimitedError(
+        message,
+        statusCode ?? String(response.status),
+        details,
+        parseRetryAfter(response.headers?.['retry-after'])
+      );
     }
     
     if (response.status === 400) {
       const message = this.extractErrorMessage(response) || 'Invalid request parameters';
-      throw new ValidationError(message);
+      const error = createApiError(message, statusCode, details);
+      throw error.code !== 'PAYSTATION_ERROR' ? error : new ValidationError(message);
     }
     
-    // For other HTTP errors, throw generic PayStationError
+    // For other HTTP errors, throw the catalogued error or a generic PayStationError
     const message = this.extractErrorMessage(response) || `HTTP ${response.status}: ${response.statusText}`;
-    throw new PayStationError(message, String(response.status));
+    throw createApiError(message, statusCode ?? String(response.status), {
+      ...details,
+      retryable: response.status >= 500
+    });
   }  /**
    
 * Validates basic response structure
@@ -131,58 +217,124 @@ export class ResponseParser {
   }
 
   /**
-   * Parses transaction data from API response
+   * Checks the status envelope and throws PayStation's error for failed responses
    * @private
    */
-  private parseTransactionData(data: any): any {
-    if (!data || typeof data !== 'object') {
-      throw new ValidationError('Invalid transaction data format');
-    }
+  private parseEnvelope(response: HttpResponse): void {
+    const envelope = this.validate(parse(envelopeSchema, response.data, 'lenient'));
     
-    // Validate required fields for transaction data
-    if (!data.invoiceNumber || !data.transactionStatus || !data.transactionId) {
-      throw new ValidationError('Invalid transaction data: missing required fields');
+    if (envelope.status === 'failed') {
+      throw createApiError(envelope.message, envelope.statusCode, this.extractErrorDetails(response));
     }
-    
-    const transactionData: any = {
-      invoiceNumber: String(data.invoiceNumber),
-      transactionStatus: data.transactionStatus,
-      transactionId: String(data.transactionId),
-      paymentAmount: String(data.paymentAmount || ''),
-      orderDateTime: String(data.orderDateTime || '')
-    };
-    
-    // Add optional fields if present
-    if (data.payerMobileNumber !== undefined) {
-      transactionData.payerMobileNumber = String(data.payerMobileNumber);
+  }
+
+  /**
+   * Returns the parsed value or throws every issue found
+   * @private
+   */
+  private validate<T>(result: ParseResult<T>): T {
+    if (result.issues.length > 0) {
+      throw new ResponseValidationError(
+        `Invalid response format: ${result.issues.map((issue) => issue.message).join('; ')}`,
+        result.issues
+      );
     }
-    
-    if (data.paymentMethod !== undefined) {
-      transactionData.paymentMethod = data.paymentMethod;
+    return result.value!;
+  }
+
+  /**
+   * Exposes every transaction amount as Money, whichever type PayStation used
+   * @private
+   */
+  private parseTransactionAmounts(data: Record<string, unknown>, currency: Currency): TransactionAmounts {
+    const amounts: TransactionAmounts = {};
+    const paymentAmount = this.parseMoney(data.paymentAmount, currency);
+    const transactionAmount = this.parseMoney(data.transactionAmount, currency);
+    const requestAmount = this.parseMoney(data.requestAmount, currency);
+    if (paymentAmount) {
+      amounts.paymentAmount = paymentAmount;
     }
-    
-    if (data.reference !== undefined) {
-      transactionData.reference = String(data.reference);
+    if (transactionAmount) {
+      amounts.transactionAmount = transactionAmount;
     }
-    
-    if (data.checkoutItems !== undefined) {
-      transactionData.checkoutItems = String(data.checkoutItems);
+    if (requestAmount) {
+      amounts.requestAmount = requestAmount;
     }
     
-    // Handle v2 API fields
-    if (data.transactionAmount !== undefined) {
-      transactionData.transactionAmount = Number(data.transactionAmount);
+    return amounts;
+  }
+
+  /**
+   * Decodes metadata from the pass-through fields, rejecting signatures that do not match
+   * @private
+   */
+  private async parseMetadata(fields: MetadataFields): Promise<PaymentMetadata | undefined> {
+    try {
+      return await this.metadataCodec.unpack(fields);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      throw new ResponseValidationError(
+        `Invalid response format: ${error.message}`,
+        error.issues.map((issue) => ({ ...issue, field: 'data.metadata' }))
+      );
     }
-    
-    if (data.transactionDate !== undefined) {
-      transactionData.transactionDate = String(data.transactionDate);
+  }
+
+  /**
+   * Reads the transaction currency, which is BDT unless PayStation reports another
+   * @private
+   */
+  private parseCurrency(data: Record<string, unknown>): Currency {
+    return typeof data.currency === 'string' && Money.isSupportedCurrency(data.currency.toUpperCase())
+      ? data.currency.toUpperCase() as Currency
+      : 'BDT';
+  }
+
+  /**
+   * Parses an amount returned as a string or number, ignoring empty or invalid values
+   * @private
+   */
+  private parseMoney(value: unknown, currency: Currency): Money | undefined {
+    if ((typeof value !== 'string' && typeof value !== 'number') || String(value).trim().length === 0) {
+      return undefined;
     }
-    
-    if (data.requestAmount !== undefined) {
-      transactionData.requestAmount = String(data.requestAmount);
+    try {
+      return Money.of(value, currency);
+    } catch {
+      return undefined;
     }
+  }
+
+  /**
+   * Collects the response context attached to errors
+   * @private
+   */
+  private extractErrorDetails(response: HttpResponse): PayStationErrorDetails {
+    const headers = response.headers || {};
+    const data = response.data as Record<string, unknown> | null;
+    const bodyRequestId = data && typeof data === 'object' ? data.requestId ?? data.request_id : undefined;
+    const requestId = headers['x-request-id'] || headers['x-correlation-id'] ||
+      (typeof bodyRequestId === 'string' ? bodyRequestId : undefined);
     
-    return transactionData;
+    return {
+      httpStatus: response.status,
+      requestId,
+      response: response.data
+    };
+  }
+
+  /**
+   * Extracts PayStation's status code from an error response body
+   * @private
+   */
+  private extractStatusCode(response: HttpResponse): string | undefined {
+    const data = response.data as Record<string, unknown> | null;
+    if (data && typeof data === 'object' && (typeof data.statusCode === 'string' || typeof data.statusCode === 'number')) {
+      return String(data.statusCode);
+    }
+    return undefined;
   }
 
   /**
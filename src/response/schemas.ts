@@ -0,0 +1,74 @@
+import {
+  ApiStatus,
+  InitiatePaymentResponse,
+  PaymentMethod,
+  TransactionData,
+  TransactionStatus,
+  TransactionStatusResponse
+} from '../types/responses';
+import { RefundData, RefundStatus } from '../types/refund';
+import { number, object, oneOf, optional, string } from '../schema/schema';
+
+const API_STATUSES: readonly ApiStatus[] = ['success', 'failed'];
+
+const TRANSACTION_STATUSES: readonly TransactionStatus[] = ['processing', 'success', 'failed', 'refund'];
+
+const REFUND_STATUSES: readonly RefundStatus[] = ['pending', 'processing', 'success', 'failed'];
+
+/**
+ * Fields shared by every PayStation response, checked before anything else so that
+ * error responses are reported as PayStation errors; also the full transaction status
+ * and refund responses apart from `data`, which is parsed with {@link transactionDataSchema}
+ * or {@link refundDataSchema}
+ */
+export const envelopeSchema = object<Omit<TransactionStatusResponse, 'data' | 'raw'>>({
+  statusCode: string(),
+  status: oneOf(API_STATUSES),
+  message: string()
+});
+
+/**
+ * Successful /initiate-payment response
+ */
+export const initiatePaymentResponseSchema = object<Omit<InitiatePaymentResponse, 'amounts' | 'raw'>>({
+  statusCode: string(),
+  status: oneOf(API_STATUSES),
+  message: string(),
+  paymentAmount: optional(string()),
+  invoiceNumber: optional(string()),
+  paymentUrl: optional(string())
+});
+
+/**
+ * Transaction returned by /transaction-status and /v2/transaction-status
+ */
+export const transactionDataSchema = object<Omit<TransactionData, 'amounts' | 'items' | 'metadata' | 'raw'>>({
+  invoiceNumber: string(),
+  transactionStatus: oneOf(TRANSACTION_STATUSES),
+  transactionId: string(),
+  paymentAmount: optional(string()),
+  orderDateTime: optional(string()),
+  payerMobileNumber: optional(string()),
+  paymentMethod: optional(oneOf(Object.values(PaymentMethod))),
+  reference: optional(string()),
+  checkoutItems: optional(string()),
+  optA: optional(string()),
+  optB: optional(string()),
+  optC: optional(string()),
+  transactionAmount: optional(number()),
+  transactionDate: optional(string()),
+  requestAmount: optional(string())
+});
+
+/**
+ * Refund returned by /refund and /refund-status
+ */
+export const refundDataSchema = object<Omit<RefundData, 'amounts' | 'raw'>>({
+  refundId: string(),
+  refundStatus: oneOf(REFUND_STATUSES),
+  transactionId: string(),
+  invoiceNumber: string(),
+  refundAmount: string(),
+  reason: optional(string()),
+  refundDate: optional(string())
+});
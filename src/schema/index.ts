@@ -0,0 +1,2 @@
+export { string, number, oneOf, optional, object, parse } from './schema';
+export type { Schema, SchemaContext, ObjectShape, ParseResult } from './schema';
@@ -0,0 +1,196 @@
+import { ResponseValidationMode, ValidationIssue } from '../types/validation';
+
+/**
+ * State shared while parsing one value
+ */
+export interface SchemaContext {
+  /** Validation mode */
+  mode: ResponseValidationMode;
+  /** Problems found so far */
+  issues: ValidationIssue[];
+}
+
+/**
+ * Parses and validates an unknown value into T, recording problems in the context
+ */
+export interface Schema<T> {
+  /** Whether the value may be missing */
+  readonly optional: boolean;
+  /**
+   * Parse a value
+   * @param value - Value to parse
+   * @param path - Path of the value, used in issues
+   * @param context - Parsing context
+   * @returns The parsed value, or undefined when it is missing or invalid
+   */
+  parse(value: unknown, path: string, context: SchemaContext): T | undefined;
+}
+
+/**
+ * Schemas for every property of T; optional properties need optional schemas
+ */
+export type ObjectShape<T> = {
+  [K in keyof T]-?: Schema<T[K]>;
+};
+
+/**
+ * Result of parsing a value against a schema
+ */
+export interface ParseResult<T> {
+  /** Parsed value, present when there are no issues */
+  value?: T;
+  /** Problems found */
+  issues: ValidationIssue[];
+}
+
+/**
+ * String field; numbers are accepted and converted, as PayStation is not consistent about either
+ */
+export function string(): Schema<string> {
+  return required((value, path, context) => {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return String(value);
+    }
+    return invalid(context, path, 'invalid_type', `${path} must be a string`);
+  });
+}
+
+/**
+ * Number field; numeric strings are accepted and converted
+ */
+export function number(): Schema<number> {
+  return required((value, path, context) => {
+    const parsed = typeof value === 'string' && value.trim().length > 0 ? Number(value) : value;
+    if (typeof parsed === 'number' && Number.isFinite(parsed)) {
+      return parsed;
+    }
+    return invalid(context, path, 'invalid_type', `${path} must be a number`);
+  });
+}
+
+/**
+ * Field restricted to a fixed set of string values
+ * @param values - Allowed values
+ */
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return required((value, path, context) => {
+    if (typeof value === 'string' && (values as readonly string[]).includes(value)) {
+      return value as T;
+    }
+    return invalid(context, path, 'invalid_enum', `${path} must be one of: ${values.join(', ')}`);
+  });
+}
+
+/**
+ * Makes a field optional; missing and null values are skipped
+ * In lenient mode, an invalid value is dropped instead of reported
+ * @param schema - Schema for the value when present
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    optional: true,
+    parse(value, path, context) {
+      if (value === undefined || value === null) {
+        return undefined;
+      }
+
+      if (context.mode === 'strict') {
+        return schema.parse(value, path, context);
+      }
+
+      const nested: SchemaContext = { mode: context.mode, issues: [] };
+      const parsed = schema.parse(value, path, nested);
+      return nested.issues.length > 0 ? undefined : parsed;
+    }
+  };
+}
+
+/**
+ * Object with known properties
+ * Unknown properties are dropped in strict mode and kept under `raw` in lenient mode
+ * @param shape - Schemas for each property
+ */
+export function object<T>(shape: ObjectShape<T>): Schema<T & { raw?: Record<string, unknown> }> {
+  return required((value, path, context) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return invalid(context, path, 'invalid_type', `${path || 'value'} must be an object`);
+    }
+
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    const issueCount = context.issues.length;
+
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const fieldSchema = shape[key] as Schema<unknown>;
+
+      if (input[key] === undefined || input[key] === null) {
+        if (!fieldSchema.optional) {
+          context.issues.push({ field: fieldPath, code: 'required', message: `${fieldPath} is required` });
+        }
+        continue;
+      }
+
+      const parsed = fieldSchema.parse(input[key], fieldPath, context);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    }
+
+    if (context.mode === 'lenient') {
+      const raw: Record<string, unknown> = {};
+      for (const key of Object.keys(input)) {
+        if (!(key in shape)) {
+          raw[key] = input[key];
+        }
+      }
+      result.raw = raw;
+    }
+
+    return context.issues.length > issueCount ? undefined : result as T & { raw?: Record<string, unknown> };
+  });
+}
+
+/**
+ * Parse a value against a schema, collecting every issue
+ * @param schema - Schema to apply
+ * @param value - Value to parse
+ * @param mode - Validation mode
+ * @param path - Path of the value, prefixed to every issue (optional)
+ * @returns The parsed value and any issues
+ */
+export function parse<T>(
+  schema: Schema<T>,
+  value: unknown,
+  mode: ResponseValidationMode,
+  path: string = ''
+): ParseResult<T> {
+  const context: SchemaContext = { mode, issues: [] };
+  const parsed = schema.parse(value, path, context);
+  return context.issues.length > 0 ? { issues: context.issues } : { value: parsed, issues: [] };
+}
+
+/**
+ * Wraps a parse function as a required schema
+ * @private
+ */
+function required<T>(parseValue: Schema<T>['parse']): Schema<T> {
+  return { optional: false, parse: parseValue };
+}
+
+/**
+ * Records an issue and returns undefined
+ * @private
+ */
+function invalid(
+  context: SchemaContext,
+  path: string,
+  code: ValidationIssue['code'],
+  message: string
+): undefined {
+  context.issues.push({ field: path, code, message });
+  return undefined;
+}
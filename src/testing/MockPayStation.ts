@@ -0,0 +1,644 @@
+import {
+  MockPayStationOptions,
+  MockFailure,
+  MockFailureOptions,
+  MockCheckoutOutcome,
+  MockTransaction,
+  MockRefund,
+  MockCall,
+  MockServerHandle
+} from '../types/testing';
+import { TransactionStatus, PaymentMethod } from '../types/responses';
+import { RefundStatus } from '../types/refund';
+import { FetchLike } from '../types/http';
+
+interface ScriptedFailure {
+  failure: MockFailure;
+  endpoint?: string;
+  remaining: number;
+}
+
+const CALLBACK_STATUS: Record<MockCheckoutOutcome, string> = {
+  success: 'Successful',
+  failed: 'Failed',
+  cancelled: 'Canceled'
+};
+
+/**
+ * In-process PayStation mock implementing the hosted checkout API
+ *
+ * The mock answers `/initiate-payment`, `/transaction-status`,
+ * `/v2/transaction-status`, `/refund` and `/refund-status` under any host
+ * and path prefix, serves a fake
+ * hosted checkout page at `/checkout/:invoiceNumber`, and can be scripted
+ * to fail. Use {@link MockPayStation.fetch} as the SDK's `fetch` option, or
+ * {@link MockPayStation.listen} to serve it over HTTP.
+ */
+export class MockPayStation {
+  /** Fetch implementation backed by the mock; pass it as the SDK's `fetch` option */
+  readonly fetch: FetchLike;
+  /** API calls received so far, with the password removed */
+  readonly calls: MockCall[] = [];
+
+  private readonly options: MockPayStationOptions;
+  private readonly transactions = new Map<string, MockTransaction>();
+  private readonly refunds = new Map<string, MockRefund>();
+  private readonly failures: ScriptedFailure[] = [];
+  private latencyMs: number;
+  private sequence = 0;
+  private responseSequence = 0;
+
+  constructor(options: MockPayStationOptions = {}) {
+    this.options = options;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.fetch = (url, init) => this.handle(new Request(url, init));
+  }
+
+  /**
+   * Handle a web-standard request
+   * @param request - Incoming request
+   * @returns Mock response
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const checkout = url.pathname.match(/\/checkout\/([^/]+)(?:\/(success|failed|cancelled))?$/);
+
+    if (checkout && request.method === 'GET') {
+      return this.handleCheckout(
+        decodeURIComponent(checkout[1]),
+        checkout[2] as MockCheckoutOutcome | undefined,
+        url
+      );
+    }
+
+    const endpoint = this.matchEndpoint(url.pathname);
+    if (!endpoint || request.method !== 'POST') {
+      return this.json(404, { message: `No mock route for ${request.method} ${url.pathname}` });
+    }
+
+    const params = Object.fromEntries(new URLSearchParams(await request.text()));
+    const { password: _password, ...loggable } = params;
+    this.calls.push({ endpoint, params: loggable });
+
+    const scripted = this.takeFailure(endpoint);
+    if (scripted) {
+      if (scripted.type === 'network') {
+        throw new TypeError('fetch failed');
+      }
+      if (scripted.type === 'http') {
+        return this.json(scripted.status, { message: scripted.message || `HTTP ${scripted.status}` });
+      }
+      if (scripted.type === 'malformed-json') {
+        return new Response('{"statusCode": "200", "status": ', {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+      await this.delay(scripted.delayMs, request.signal);
+    }
+
+    await this.delay(this.latencyMs, request.signal);
+
+    if (!this.isAuthorized(params)) {
+      return this.json(401, { message: 'Invalid merchant credentials' });
+    }
+
+    switch (endpoint) {
+      case 'initiate-payment':
+        return this.initiatePayment(params, url);
+      case 'transaction-status':
+        return this.transactionStatus(params);
+      case 'refund':
+        return this.refund(params);
+      case 'refund-status':
+        return this.refundStatus(params);
+      default:
+        return this.transactionStatusById(params);
+    }
+  }
+
+  /**
+   * Make the next matching requests fail
+   * @param failure - Failure to return
+   * @param options - Which requests to fail and how many (optional)
+   * @returns The mock, for chaining
+   */
+  failNext(failure: MockFailure, options: MockFailureOptions = {}): this {
+    this.failures.push({ failure, endpoint: options.endpoint, remaining: options.times ?? 1 });
+    return this;
+  }
+
+  /**
+   * Set the delay added to every API response
+   * @param latencyMs - Delay in milliseconds
+   * @returns The mock, for chaining
+   */
+  setLatency(latencyMs: number): this {
+    this.latencyMs = latencyMs;
+    return this;
+  }
+
+  /**
+   * Complete the hosted checkout for an invoice as the customer would
+   * @param invoiceNumber - Invoice to complete
+   * @param outcome - Outcome chosen on the checkout page
+   * @param paymentMethod - Payment method used (default: bKash)
+   * @returns Callback URL PayStation would redirect the customer to
+   * @throws {Error} When the invoice was never initiated
+   */
+  completePayment(
+    invoiceNumber: string,
+    outcome: MockCheckoutOutcome,
+    paymentMethod: PaymentMethod = PaymentMethod.BKASH
+  ): string {
+    const transaction = this.requireTransaction(invoiceNumber);
+
+    transaction.transactionStatus = outcome === 'success' ? 'success' : 'failed';
+    transaction.paymentMethod = paymentMethod;
+    transaction.transactionDate = this.formatDate(new Date());
+
+    const callback = new URL(transaction.callbackUrl);
+    callback.searchParams.set('status', CALLBACK_STATUS[outcome]);
+    callback.searchParams.set('invoice_number', transaction.invoiceNumber);
+    callback.searchParams.set('trx_id', transaction.transactionId);
+    const passThrough = { opt_a: transaction.optA, opt_b: transaction.optB, opt_c: transaction.optC };
+    for (const [key, value] of Object.entries(passThrough)) {
+      if (value) {
+        callback.searchParams.set(key, value);
+      }
+    }
+    return callback.toString();
+  }
+
+  /**
+   * Force the status of a transaction, e.g. to simulate a refund
+   * @param invoiceNumber - Invoice to update
+   * @param status - New transaction status
+   * @throws {Error} When the invoice was never initiated
+   */
+  setTransactionStatus(invoiceNumber: string, status: TransactionStatus): void {
+    this.requireTransaction(invoiceNumber).transactionStatus = status;
+  }
+
+  /**
+   * Get a stored transaction
+   * @param invoiceNumber - Invoice to look up
+   * @returns The transaction, or undefined when it was never initiated
+   */
+  getTransaction(invoiceNumber: string): MockTransaction | undefined {
+    return this.transactions.get(invoiceNumber);
+  }
+
+  /**
+   * Force the status of a refund, e.g. to simulate PayStation completing it
+   * @param refundId - Refund to update
+   * @param status - New refund status
+   * @throws {Error} When the refund was never requested
+   */
+  setRefundStatus(refundId: string, status: RefundStatus): void {
+    const refund = this.refunds.get(refundId);
+    if (!refund) {
+      throw new Error(`Mock PayStation has no refund ${refundId}`);
+    }
+    refund.refundStatus = status;
+  }
+
+  /**
+   * Get a stored refund
+   * @param refundId - Refund to look up
+   * @returns The refund, or undefined when it was never requested
+   */
+  getRefund(refundId: string): MockRefund | undefined {
+    return this.refunds.get(refundId);
+  }
+
+  /**
+   * Clear transactions, refunds, scripted failures and recorded calls
+   */
+  reset(): void {
+    this.transactions.clear();
+    this.refunds.clear();
+    this.failures.length = 0;
+    this.calls.length = 0;
+    this.latencyMs = this.options.latencyMs ?? 0;
+  }
+
+  /**
+   * Serve the mock over HTTP on a local port (Node.js only)
+   * @param port - Port to listen on (default: a random free port)
+   * @returns Handle with the server's base URL
+   */
+  async listen(port = 0): Promise<MockServerHandle> {
+    const http = await import('node:http');
+
+    const server = http.createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+      }
+
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (typeof value === 'string') {
+          headers.set(name, value);
+        }
+      }
+
+      try {
+        const response = await this.handle(new Request(`http://${req.headers.host}${req.url}`, {
+          method: req.method,
+          headers,
+          body: req.method === 'GET' || req.method === 'HEAD' ? undefined : Buffer.concat(chunks)
+        }));
+
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+          responseHeaders[name] = value;
+        });
+
+        res.writeHead(response.status, responseHeaders);
+        res.end(await response.text());
+      } catch {
+        // Scripted network failures drop the connection
+        res.destroy();
+      }
+    });
+
+    await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+    const address = server.address() as { port: number };
+
+    return {
+      url: `http://127.0.0.1:${address.port}`,
+      close: () => new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      })
+    };
+  }
+
+  /**
+   * Handle POST /initiate-payment
+   * @private
+   */
+  private initiatePayment(params: Record<string, string>, url: URL): Response {
+    const required = ['invoice_number', 'payment_amount', 'customer_name', 'customer_phone', 'customer_email', 'callback_url'];
+    const missing = required.filter((field) => !params[field]);
+    if (missing.length > 0) {
+      return this.failed('400', `Missing required fields: ${missing.join(', ')}`);
+    }
+
+    if (!(Number(params.payment_amount) > 0)) {
+      return this.failed('400', 'Invalid payment amount');
+    }
+
+    if (this.transactions.has(params.invoice_number)) {
+      return this.failed('409', 'Duplicate invoice number');
+    }
+
+    const transaction: MockTransaction = {
+      invoiceNumber: params.invoice_number,
+      transactionId: `TXN${Date.now()}${String(++this.sequence).padStart(4, '0')}`,
+      transactionStatus: 'processing',
+      paymentAmount: params.payment_amount,
+      currency: params.currency,
+      customerName: params.customer_name,
+      customerPhone: params.customer_phone,
+      customerEmail: params.customer_email,
+      callbackUrl: params.callback_url,
+      reference: params.reference,
+      checkoutItems: params.checkout_items,
+      optA: params.opt_a,
+      optB: params.opt_b,
+      optC: params.opt_c,
+      orderDateTime: this.formatDate(new Date())
+    };
+    this.transactions.set(transaction.invoiceNumber, transaction);
+
+    const prefix = url.pathname.slice(0, -'/initiate-payment'.length);
+
+    return this.json(200, {
+      statusCode: '200',
+      status: 'success',
+      message: 'Payment Link Created Successfully',
+      paymentAmount: transaction.paymentAmount,
+      invoiceNumber: transaction.invoiceNumber,
+      paymentUrl: `${url.origin}${prefix}/checkout/${encodeURIComponent(transaction.invoiceNumber)}`
+    });
+  }
+
+  /**
+   * Handle POST /transaction-status
+   * @private
+   */
+  private transactionStatus(params: Record<string, string>): Response {
+    const transaction = this.transactions.get(params.invoice_number);
+    if (!transaction) {
+      return this.failed('404', 'Transaction not found');
+    }
+
+    return this.json(200, {
+      statusCode: '200',
+      status: 'success',
+      message: 'Transaction found',
+      data: this.compact({
+        invoiceNumber: transaction.invoiceNumber,
+        transactionStatus: transaction.transactionStatus,
+        transactionId: transaction.transactionId,
+        paymentAmount: transaction.paymentAmount,
+        orderDateTime: transaction.orderDateTime,
+        payerMobileNumber: transaction.paymentMethod ? transaction.customerPhone : undefined,
+        paymentMethod: transaction.paymentMethod,
+        reference: transaction.reference,
+        checkoutItems: transaction.checkoutItems,
+        optA: transaction.optA,
+        optB: transaction.optB,
+        optC: transaction.optC
+      })
+    });
+  }
+
+  /**
+   * Handle POST /v2/transaction-status
+   * @private
+   */
+  private transactionStatusById(params: Record<string, string>): Response {
+    const transaction = Array.from(this.transactions.values())
+      .find((candidate) => candidate.transactionId === params.trx_id);
+    if (!transaction) {
+      return this.failed('404', 'Transaction not found');
+    }
+
+    return this.json(200, {
+      statusCode: '200',
+      status: 'success',
+      message: 'Transaction found',
+      data: this.compact({
+        invoiceNumber: transaction.invoiceNumber,
+        transactionStatus: transaction.transactionStatus,
+        transactionId: transaction.transactionId,
+        transactionAmount: Number(transaction.paymentAmount),
+        transactionDate: transaction.transactionDate,
+        requestAmount: transaction.paymentAmount,
+        paymentMethod: transaction.paymentMethod,
+        payerMobileNumber: transaction.paymentMethod ? transaction.customerPhone : undefined
+      })
+    });
+  }
+
+  /**
+   * Handle POST /refund
+   * @private
+   */
+  private refund(params: Record<string, string>): Response {
+    const transaction = Array.from(this.transactions.values()).find((candidate) => params.trx_id
+      ? candidate.transactionId === params.trx_id
+      : candidate.invoiceNumber === params.invoice_number);
+    if (!transaction) {
+      return this.failed('404', 'Transaction not found');
+    }
+    if (transaction.transactionStatus !== 'success' && transaction.transactionStatus !== 'refund') {
+      return this.failed('400', 'Transaction is not refundable');
+    }
+    if (!params.reason) {
+      return this.failed('400', 'Missing required fields: reason');
+    }
+
+    // Work in minor units so repeated partial refunds add up exactly
+    const refunded = Array.from(this.refunds.values())
+      .filter((refund) => refund.transactionId === transaction.transactionId && refund.refundStatus !== 'failed')
+      .reduce((sum, refund) => sum + Math.round(Number(refund.refundAmount) * 100), 0);
+    const remaining = Math.round(Number(transaction.paymentAmount) * 100) - refunded;
+    const requested = params.refund_amount ? Math.round(Number(params.refund_amount) * 100) : remaining;
+    if (!(requested > 0) || requested > remaining) {
+      return this.failed('400', 'Refund amount exceeds the refundable amount');
+    }
+
+    const refund: MockRefund = {
+      refundId: `RF${Date.now()}${String(++this.sequence).padStart(4, '0')}`,
+      refundStatus: 'pending',
+      invoiceNumber: transaction.invoiceNumber,
+      transactionId: transaction.transactionId,
+      refundAmount: (requested / 100).toFixed(2),
+      reason: params.reason,
+      refundDate: this.formatDate(new Date())
+    };
+    this.refunds.set(refund.refundId, refund);
+    if (requested === remaining) {
+      transaction.transactionStatus = 'refund';
+    }
+
+    return this.json(200, {
+      statusCode: '200',
+      status: 'success',
+      message: 'Refund request accepted',
+      data: { ...refund }
+    });
+  }
+
+  /**
+   * Handle POST /refund-status
+   * @private
+   */
+  private refundStatus(params: Record<string, string>): Response {
+    const refund = this.refunds.get(params.refund_id);
+    if (!refund) {
+      return this.failed('404', 'Refund not found');
+    }
+
+    return this.json(200, {
+      statusCode: '200',
+      status: 'success',
+      message: 'Refund found',
+      data: { ...refund }
+    });
+  }
+
+  /**
+   * Serve the fake hosted checkout page, or complete it when an outcome is chosen
+   * @private
+   */
+  private handleCheckout(invoiceNumber: string, outcome: MockCheckoutOutcome | undefined, url: URL): Response {
+    const transaction = this.transactions.get(invoiceNumber);
+    if (!transaction) {
+      return new Response('Checkout session not found', { status: 404 });
+    }
+
+    if (outcome) {
+      return new Response(null, {
+        status: 302,
+        headers: { Location: this.completePayment(invoiceNumber, outcome) }
+      });
+    }
+
+    const base = url.pathname.replace(/\/$/, '');
+    const escape = (value: string) => value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+    const html = `<!DOCTYPE html>
+<html>
+  <head><title>PayStation Mock Checkout</title></head>
+  <body>
+    <h1>Mock Checkout</h1>
+    <p>Invoice: ${escape(transaction.invoiceNumber)}</p>
+    <p>Amount: ${escape(transaction.paymentAmount)} ${escape(transaction.currency || 'BDT')}</p>
+    <a id="pay-success" href="${base}/success">Pay</a>
+    <a id="pay-failed" href="${base}/failed">Fail payment</a>
+    <a id="pay-cancelled" href="${base}/cancelled">Cancel</a>
+  </body>
+</html>`;
+
+    return new Response(html, { status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+  }
+
+  /**
+   * Map a request path to an API endpoint
+   * @private
+   */
+  private matchEndpoint(pathname: string): string | undefined {
+    if (pathname.endsWith('/refund-status')) {
+      return 'refund-status';
+    }
+    if (pathname.endsWith('/refund')) {
+      return 'refund';
+    }
+    if (pathname.endsWith('/v2/transaction-status')) {
+      return 'v2/transaction-status';
+    }
+    if (pathname.endsWith('/transaction-status')) {
+      return 'transaction-status';
+    }
+    if (pathname.endsWith('/initiate-payment')) {
+      return 'initiate-payment';
+    }
+    return undefined;
+  }
+
+  /**
+   * Consume the next scripted failure matching the endpoint
+   * @private
+   */
+  private takeFailure(endpoint: string): MockFailure | undefined {
+    const index = this.failures.findIndex((entry) => !entry.endpoint || entry.endpoint === endpoint);
+    if (index < 0) {
+      return undefined;
+    }
+
+    const entry = this.failures[index];
+    entry.remaining -= 1;
+    if (entry.remaining <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return entry.failure;
+  }
+
+  /**
+   * Check the request's credentials against the configured ones
+   * @private
+   */
+  private isAuthorized(params: Record<string, string>): boolean {
+    if (!params.merchant_id || !params.password) {
+      return false;
+    }
+    if (this.options.merchantId !== undefined && params.merchant_id !== this.options.merchantId) {
+      return false;
+    }
+    return this.options.password === undefined || params.password === this.options.password;
+  }
+
+  /**
+   * Wait, rejecting like fetch when the signal aborts
+   * @private
+   */
+  private delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('The operation was aborted.', 'AbortError'));
+    }
+    if (ms <= 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      };
+
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Look up a transaction or throw
+   * @private
+   */
+  private requireTransaction(invoiceNumber: string): MockTransaction {
+    const transaction = this.transactions.get(invoiceNumber);
+    if (!transaction) {
+      throw new Error(`Mock PayStation has no transaction for invoice ${invoiceNumber}`);
+    }
+    return transaction;
+  }
+
+  /**
+   * Build a PayStation API failure response
+   * @private
+   */
+  private failed(statusCode: string, message: string): Response {
+    return this.json(200, { statusCode, status: 'failed', message });
+  }
+
+  /**
+   * Build a JSON response
+   * @private
+   */
+  private json(status: number, body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Request-Id': `mock-${++this.responseSequence}`
+      }
+    });
+  }
+
+  /**
+   * Drop undefined fields from a response object
+   * @private
+   */
+  private compact(record: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined));
+  }
+
+  /**
+   * Format a date the way PayStation does (Asia/Dhaka, YYYY-MM-DD HH:mm:ss)
+   * @private
+   */
+  private formatDate(date: Date): string {
+    const dhaka = new Date(date.getTime() + 6 * 60 * 60 * 1000);
+    return dhaka.toISOString().slice(0, 19).replace('T', ' ');
+  }
+}
+
+/**
+ * Create an in-process PayStation mock for offline integration tests
+ * @param options - Mock options (optional)
+ * @returns Mock PayStation instance
+ *
+ * @example
+ * ```typescript
+ * import { createMockPayStation } from 'paystation/testing';
+ *
+ * const mock = createMockPayStation();
+ * const paystation = new PayStationSDK({ ...config, fetch: mock.fetch });
+ *
+ * await paystation.initiatePayment(params);
+ * const callbackUrl = mock.completePayment(params.invoiceNumber, 'success');
+ * const result = await paystation.handleCallback(callbackUrl);
+ * ```
+ */
+export function createMockPayStation(options: MockPayStationOptions = {}): MockPayStation {
+  return new MockPayStation(options);
+}
@@ -0,0 +1,12 @@
+export { MockPayStation, createMockPayStation } from './MockPayStation';
+
+export type {
+  MockPayStationOptions,
+  MockFailure,
+  MockFailureOptions,
+  MockCheckoutOutcome,
+  MockTransaction,
+  MockRefund,
+  MockCall,
+  MockServerHandle
+} from '../types/testing';
@@ -0,0 +1,37 @@
+import { TransactionData } from '../types/responses';
+import { Transaction, TransactionSource } from '../types/transaction';
+import { parsePayStationDate } from '../utils/date';
+
+/**
+ * Maps the v1 and v2 transaction status payloads onto one Transaction model
+ */
+export class TransactionNormalizer {
+  /**
+   * Normalize parsed transaction data
+   * @param data - Transaction data parsed from the status response
+   * @param raw - Transaction object exactly as returned by PayStation
+   * @param source - Endpoint the transaction was read from
+   * @returns The normalized transaction
+   */
+  normalize(data: TransactionData, raw: Record<string, unknown>, source: TransactionSource): Transaction {
+    const { amounts } = data;
+
+    return {
+      invoiceNumber: data.invoiceNumber,
+      transactionId: data.transactionId,
+      status: data.transactionStatus,
+      amount: amounts.transactionAmount ?? amounts.paymentAmount ?? null,
+      requestedAmount: amounts.requestAmount ?? amounts.paymentAmount ?? null,
+      orderedAt: parsePayStationDate(data.orderDateTime),
+      transactedAt: parsePayStationDate(data.transactionDate),
+      paymentMethod: data.paymentMethod ?? null,
+      payerMobileNumber: data.payerMobileNumber ?? null,
+      reference: data.reference ?? null,
+      checkoutItems: data.checkoutItems ?? null,
+      items: data.items ?? null,
+      metadata: data.metadata ?? null,
+      source,
+      raw
+    };
+  }
+}
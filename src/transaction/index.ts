@@ -0,0 +1 @@
+export { TransactionNormalizer } from './TransactionNormalizer';
@@ -0,0 +1,83 @@
+import type { PayStationSDK } from '../PayStationSDK';
+import type { Money } from '../money/Money';
+import { InitiatePaymentParams } from './requests';
+import { InitiatePaymentResponse } from './responses';
+import { CallbackPayload, VerifiedCallback } from './callback';
+
+/**
+ * Framework-neutral response produced by the adapter routes
+ */
+export type RouteOutcome =
+  | {
+      /** Redirect the client */
+      type: 'redirect';
+      /** Redirect target */
+      location: string;
+      /** HTTP status code (defaults to 303) */
+      status?: number;
+    }
+  | {
+      /** Respond with a JSON body */
+      type: 'json';
+      /** Response body */
+      body: unknown;
+      /** HTTP status code (defaults to 200) */
+      status?: number;
+    };
+
+/**
+ * Hook result: return an outcome to override the default response
+ */
+export type RouteHookResult = RouteOutcome | void | Promise<RouteOutcome | void>;
+
+/**
+ * Options for the initiate-and-redirect route
+ */
+export interface InitiateRouteOptions<TContext> {
+  /** SDK instance used to initiate payments */
+  sdk: PayStationSDK;
+  /** Builds payment parameters from the incoming request */
+  getPaymentParams: (context: TContext) => InitiatePaymentParams | Promise<InitiatePaymentParams>;
+  /** Called after PayStation returns a payment URL; defaults to redirecting to it (optional) */
+  onInitiated?: (response: InitiatePaymentResponse, context: TContext) => RouteHookResult;
+  /** Called when payment initiation fails; defaults to a JSON error (optional) */
+  onError?: (error: unknown, context: TContext) => RouteHookResult;
+}
+
+/**
+ * Why a callback did not end in a successful payment
+ */
+export type CallbackFailureReason =
+  | 'payment_failed'
+  | 'payment_pending'
+  | 'verification_failed'
+  | 'error';
+
+/**
+ * Details passed to the callback route's failure hook
+ */
+export interface CallbackFailure {
+  /** Why the callback did not succeed */
+  reason: CallbackFailureReason;
+  /** Verified callback, when verification itself succeeded (optional) */
+  result?: VerifiedCallback;
+  /** Error raised while parsing or verifying the callback (optional) */
+  error?: unknown;
+}
+
+/**
+ * Options for the verified callback route
+ */
+export interface CallbackRouteOptions<TContext> {
+  /** SDK instance used to verify callbacks */
+  sdk: PayStationSDK;
+  /** Returns the amount your order expects for the invoice, enabling the amount check (optional) */
+  getExpectedAmount?: (
+    payload: CallbackPayload,
+    context: TContext
+  ) => number | Money | undefined | Promise<number | Money | undefined>;
+  /** Called when PayStation confirms the payment succeeded; errors it throws reach the framework unchanged (optional) */
+  onSuccess?: (result: VerifiedCallback, context: TContext) => RouteHookResult;
+  /** Called when the payment failed, is still pending or could not be verified (optional) */
+  onFailure?: (failure: CallbackFailure, context: TContext) => RouteHookResult;
+}
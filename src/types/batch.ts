@@ -0,0 +1,35 @@
+import type { PayStationError } from '../errors/PayStationError';
+import type { PaymentMetadata } from './metadata';
+import type { RateLimitConfig } from './ratelimit';
+import type { RequestOptions } from './requests';
+import type { TransactionStatusResponse } from './responses';
+
+/**
+ * Options for looking up many transactions at once
+ */
+export interface TransactionStatusBatchOptions extends RequestOptions {
+  /** Maximum number of lookups in flight at once (default: 5) */
+  concurrency?: number;
+  /** Maximum rate at which lookups are started (optional) */
+  rateLimit?: RateLimitConfig;
+}
+
+/**
+ * Outcome of one lookup in a batch; failed lookups do not stop the others
+ * @typeParam TMetadata - Shape of the custom `metadata`
+ */
+export type TransactionStatusResult<TMetadata extends PaymentMetadata = PaymentMetadata> =
+  | {
+      /** Invoice number that was looked up */
+      invoiceNumber: string;
+      ok: true;
+      /** Status response from PayStation */
+      response: TransactionStatusResponse<TMetadata>;
+    }
+  | {
+      /** Invoice number that was looked up */
+      invoiceNumber: string;
+      ok: false;
+      /** Why the lookup failed, e.g. a TransactionNotFoundError */
+      error: PayStationError;
+    };
@@ -0,0 +1,59 @@
+import { TransactionData, TransactionStatus } from './responses';
+import { RequestOptions } from './requests';
+import type { Money } from '../money/Money';
+import type { PaymentMetadata } from './metadata';
+
+/**
+ * Status values PayStation appends to the callback URL
+ */
+export type CallbackStatus = 'Successful' | 'Failed' | 'Canceled';
+
+/**
+ * Input accepted by the callback handler: a full callback URL, a raw query
+ * string, parsed search params or a framework query object
+ */
+export type CallbackInput =
+  | string
+  | URL
+  | URLSearchParams
+  | Record<string, string | string[] | undefined>;
+
+/**
+ * Parameters PayStation sends back to the callback URL
+ * @typeParam TMetadata - Shape of the custom `metadata`
+ */
+export interface CallbackPayload<TMetadata extends PaymentMetadata = PaymentMetadata> {
+  /** Status reported by the redirect (untrusted until verified) */
+  status: CallbackStatus | string;
+  /** Invoice number of the transaction */
+  invoiceNumber: string;
+  /** PayStation transaction ID (optional) */
+  transactionId?: string;
+  /** Payment amount, when included in the redirect (optional) */
+  paymentAmount?: string;
+  /** Metadata decoded from opt_a/opt_b/opt_c, when included in the redirect (untrusted until verified against the status response) */
+  metadata?: TMetadata;
+  /** All query parameters exactly as received */
+  raw: Record<string, string>;
+}
+
+/**
+ * Options for verifying a callback
+ */
+export interface CallbackVerificationOptions extends RequestOptions {
+  /** Amount the merchant expects for this invoice; cross-checked against the status response (optional) */
+  expectedAmount?: number | Money;
+}
+
+/**
+ * Callback that has been verified against PayStation's status endpoint
+ * @typeParam TMetadata - Shape of the custom `metadata`
+ */
+export interface VerifiedCallback<TMetadata extends PaymentMetadata = PaymentMetadata> {
+  /** Parsed callback parameters */
+  payload: CallbackPayload<TMetadata>;
+  /** Transaction status as reported by PayStation's status endpoint */
+  status: TransactionStatus;
+  /** Transaction data from the status endpoint */
+  transaction: TransactionData<TMetadata>;
+}
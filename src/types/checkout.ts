@@ -0,0 +1,40 @@
+import type { Money } from '../money/Money';
+
+/**
+ * Kind of checkout line; discount lines are subtracted from the total, all others are added
+ */
+export type CheckoutLineType = 'item' | 'shipping' | 'tax' | 'discount';
+
+/**
+ * A checkout line passed to payment initiation
+ */
+export interface CheckoutItem {
+  /** Kind of line (default: 'item') */
+  type?: CheckoutLineType;
+  /** Name shown to the customer */
+  name: string;
+  /** Number of units, a positive integer (default: 1) */
+  quantity?: number;
+  /** Price of one unit in the payment currency; a positive amount for discounts */
+  unitPrice: number | Money;
+  /** Stock keeping unit (optional) */
+  sku?: string;
+}
+
+/**
+ * A checkout line read back from PayStation
+ */
+export interface ParsedCheckoutItem {
+  /** Kind of line */
+  type: CheckoutLineType;
+  /** Name shown to the customer */
+  name: string;
+  /** Number of units */
+  quantity: number;
+  /** Price of one unit */
+  unitPrice: Money;
+  /** Price of all units; positive for discounts too */
+  total: Money;
+  /** Stock keeping unit (optional) */
+  sku?: string;
+}
@@ -0,0 +1,65 @@
+import { PayStationEndpoint } from './http';
+
+/**
+ * State of an endpoint's circuit
+ * - `closed`: requests are sent normally
+ * - `open`: requests fail at once with a `CircuitOpenError` until the cool-down ends
+ * - `half-open`: a limited number of trial requests decide whether to close or reopen
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Change of an endpoint's circuit state
+ */
+export interface CircuitStateChange {
+  /** Endpoint whose circuit changed */
+  endpoint: PayStationEndpoint;
+  /** Previous state */
+  from: CircuitState;
+  /** New state */
+  to: CircuitState;
+  /** Consecutive failures counted when the change happened */
+  failures: number;
+  /** Time of the change */
+  at: Date;
+}
+
+/**
+ * Circuit breaker around the PayStation endpoints
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open an endpoint's circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long a circuit stays open before trial requests are let through, in milliseconds (default: 30000) */
+  cooldownMs?: number;
+  /** Trial requests allowed at once while half-open; the circuit closes once they all succeed (default: 1) */
+  halfOpenMaxRequests?: number;
+  /** Called on every state change, e.g. to alert when an endpoint opens (optional) */
+  onStateChange?: (change: CircuitStateChange) => void;
+}
+
+/**
+ * Circuit state of one endpoint
+ */
+export interface EndpointHealth {
+  /** Current circuit state */
+  state: CircuitState;
+  /** Consecutive failures since the last success */
+  failures: number;
+  /** When the circuit last opened, or null when it is closed */
+  openedAt: Date | null;
+  /** When an open circuit lets trial requests through, or null when it is not open */
+  retryAt: Date | null;
+}
+
+/**
+ * Health of the SDK's connection to PayStation
+ */
+export interface HealthReport {
+  /** True when every endpoint's circuit is closed */
+  healthy: boolean;
+  /** Whether the circuit breaker is configured; without it every circuit is always closed */
+  circuitBreaker: boolean;
+  /** Circuit state per endpoint */
+  endpoints: Record<PayStationEndpoint, EndpointHealth>;
+}
@@ -1,3 +1,12 @@
+import { FetchLike, Transport, PayStationEndpoint } from './http';
+import { Logger, LogLevel } from './logging';
+import { IdempotencyConfig } from './idempotency';
+import { RateLimiterConfig } from './ratelimit';
+import { CircuitBreakerConfig } from './circuit';
+import { RoundingMode } from './money';
+import { ResponseValidationMode } from './validation';
+import { MetadataConfig } from './metadata';
+
 /**
  * PayStation SDK configuration interface
  */
@@ -8,6 +17,60 @@ export interface PayStationConfig {
   password: string;
   /** Environment to use - defaults to sandbox */
   environment: Environment;
+  /** Base URL overriding the environment's PayStation URL; required for `Environment.CUSTOM` (optional) */
+  baseUrl?: string;
+  /** Per-endpoint path overrides appended to the base URL, e.g. `{ 'initiate-payment': '/v1/checkout' }` (optional) */
+  paths?: Partial<Record<PayStationEndpoint, string>>;
+  /** Allow `Environment.LIVE` with a `baseUrl` outside paystation.com.bd, e.g. an egress proxy (default: false) */
+  allowLiveOnCustomHost?: boolean;
+  /** Default timeout for each request attempt in milliseconds - no timeout when omitted (optional) */
+  timeoutMs?: number;
+  /** Retry policy for transient failures - disabled when omitted (optional) */
+  retry?: RetryConfig;
+  /** Fetch implementation used for requests - defaults to the global fetch (optional) */
+  fetch?: FetchLike;
+  /** Transport that sends requests instead of fetch, e.g. a recorded-fixture transport in tests (optional) */
+  transport?: Transport;
+  /** Logger for request/response events; credentials and contact details are redacted (optional) */
+  logger?: Logger;
+  /** Minimum level passed to the logger (default: 'info') */
+  logLevel?: LogLevel;
+  /** Rounding applied to number amounts with more decimal places than the currency allows (default: 'half-up') */
+  amountRounding?: RoundingMode;
+  /** Accept `customerPhone` numbers outside Bangladesh, for card payments; wallets need Bangladeshi numbers (default: false) */
+  allowInternationalPhone?: boolean;
+  /** Check `invoiceNumber` against the `InvoiceNumber` length and character rules before initiating a payment (default: false) */
+  strictInvoiceNumbers?: boolean;
+  /** How strictly PayStation responses are validated (default: 'strict') */
+  responseValidation?: ResponseValidationMode;
+  /** Encoding and signing of `metadata` packed into optA/optB/optC (default: compact, unsigned) */
+  metadata?: MetadataConfig;
+  /** Reuse initiation results for identical retries with the same invoice number - disabled when omitted (optional) */
+  idempotency?: IdempotencyConfig;
+  /** Client-side rate limits per endpoint, to stay within PayStation's throttling - disabled when omitted (optional) */
+  rateLimit?: RateLimiterConfig;
+  /** Fail fast with a `CircuitOpenError` while an endpoint keeps failing - disabled when omitted (optional) */
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+/**
+ * Retry policy for transient HTTP and network failures
+ */
+export interface RetryConfig {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Base delay for exponential backoff in milliseconds (default: 200) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 5000) */
+  maxDelayMs?: number;
+  /** Randomize each delay between 0 and the backoff value (default: true) */
+  jitter?: boolean;
+  /** HTTP status codes that trigger a retry (default: [502, 503, 504]) */
+  retryableStatusCodes?: number[];
+  /** Retry when the request fails before a response is received (default: true) */
+  retryOnNetworkError?: boolean;
+  /** Also retry non-idempotent requests such as payment initiation (default: false) */
+  retryNonIdempotent?: boolean;
 }
 
 /**
@@ -15,5 +78,7 @@ export interface PayStationConfig {
  */
 export enum Environment {
   SANDBOX = 'sandbox',
-  LIVE = 'live'
+  LIVE = 'live',
+  /** Any PayStation-compatible host given by `baseUrl`, such as a staging mirror or local mock */
+  CUSTOM = 'custom'
 }
\ No newline at end of file
@@ -1,19 +1,37 @@
 /**
- * HTTP request interface for internal use
+ * PayStation API endpoints called by the SDK
+ */
+export type PayStationEndpoint =
+  | 'initiate-payment'
+  | 'transaction-status'
+  | 'v2/transaction-status'
+  | 'refund'
+  | 'refund-status';
+
+/**
+ * HTTP request built by the SDK
  */
 export interface HttpRequest {
   /** Request URL */
   url: string;
+  /** PayStation endpoint the request targets (optional) */
+  endpoint?: PayStationEndpoint;
   /** HTTP method */
   method: 'GET' | 'POST' | 'PUT' | 'DELETE';
   /** Request headers */
   headers: Record<string, string>;
   /** Request body */
   body?: string | FormData | URLSearchParams;
+  /** Whether repeating the request is safe (used by the retry policy) */
+  idempotent?: boolean;
+  /** Signal that cancels the request when aborted */
+  signal?: AbortSignal;
+  /** Timeout for each attempt in milliseconds */
+  timeoutMs?: number;
 }
 
 /**
- * HTTP response interface for internal use
+ * HTTP response returned by a transport
  */
 export interface HttpResponse {
   /** HTTP status code */
@@ -22,4 +40,40 @@ export interface HttpResponse {
   statusText: string;
   /** Response data */
   data: unknown;
-}
\ No newline at end of file
+  /** Response headers with lower-case names (optional for custom transports) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Fetch-compatible function (native fetch, undici, node-fetch or an instrumented wrapper)
+ */
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Sends a single HTTP request and returns the raw response
+ *
+ * Transports only move bytes: retries, timeouts and error mapping for PayStation
+ * responses are handled by the SDK around them. A transport should honor
+ * `request.signal` when it can.
+ */
+export interface Transport {
+  /**
+   * Send an HTTP request
+   * @param request - Request to send
+   * @returns Promise resolving to the HTTP response
+   */
+  send(request: HttpRequest): Promise<HttpResponse>;
+}
+
+/**
+ * Passes a request to the next middleware, or to the transport after the last one
+ */
+export type MiddlewareNext = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Intercepts requests before they are sent and responses before they are parsed
+ *
+ * Call `next` with the (optionally modified) request to continue the chain, or
+ * return a response without calling it to short-circuit the request.
+ */
+export type Middleware = (request: HttpRequest, next: MiddlewareNext) => Promise<HttpResponse>;
@@ -0,0 +1,33 @@
+import { InitiatePaymentResponse } from './responses';
+
+/**
+ * Cached result of a payment initiation
+ */
+export interface IdempotencyRecord {
+  /** Hash of the payment parameters the response was created for */
+  fingerprint: string;
+  /** Response returned by PayStation */
+  response: InitiatePaymentResponse;
+  /** Time the record was stored, in milliseconds since the epoch */
+  createdAt: number;
+}
+
+/**
+ * Storage for idempotency records, e.g. in memory, Redis or a SQL table
+ */
+export interface IdempotencyStore {
+  /** Returns the record stored under the key, or undefined when missing or expired */
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+  /** Stores a record under the key, expiring it after ttlMs */
+  set(key: string, record: IdempotencyRecord, ttlMs: number): Promise<void>;
+}
+
+/**
+ * Idempotency configuration for payment initiation
+ */
+export interface IdempotencyConfig {
+  /** Store for initiation results (default: an in-memory store) */
+  store?: IdempotencyStore;
+  /** How long an initiation result is reused, in milliseconds (default: 86400000) */
+  ttlMs?: number;
+}
@@ -1,17 +1,84 @@
 // Export all user-facing types
-export type { PayStationConfig } from './config';
+export type { PayStationConfig, RetryConfig } from './config';
 export { Environment } from './config';
 
-export type { InitiatePaymentParams } from './requests';
+export type { InitiatePaymentParams, RequestOptions } from './requests';
 
 export type {
   InitiatePaymentResponse,
   TransactionStatusResponse,
   TransactionData,
   TransactionStatus,
-  ApiStatus
+  ApiStatus,
+  PaymentAmounts,
+  TransactionAmounts
 } from './responses';
 export { PaymentMethod } from './responses';
 
-// Internal types (not exported from main package)
-export type { HttpRequest, HttpResponse } from './http';
\ No newline at end of file
+export type {
+  CallbackStatus,
+  CallbackInput,
+  CallbackPayload,
+  CallbackVerificationOptions,
+  VerifiedCallback
+} from './callback';
+
+export type { RefundParams, RefundResponse, RefundData, RefundAmounts, RefundStatus } from './refund';
+
+export type { TransactionReference, WaitForTransactionOptions } from './polling';
+
+export type { TransactionStatusBatchOptions, TransactionStatusResult } from './batch';
+
+export type { RateLimitConfig, RateLimiterConfig, RateLimitStore } from './ratelimit';
+
+export type {
+  CircuitState,
+  CircuitStateChange,
+  CircuitBreakerConfig,
+  EndpointHealth,
+  HealthReport
+} from './circuit';
+
+export type {
+  ReconciliationOrder,
+  ReconciliationOutcome,
+  ReconciliationEntry,
+  ReconciliationSummary,
+  ReconcileOptions,
+  ReconciliationClient,
+  ReconciliationReportJSON,
+  ReconciliationEntryJSON
+} from './reconciliation';
+
+export type { Transaction, TransactionSource } from './transaction';
+
+export type { Currency, RoundingMode, MoneyJSON } from './money';
+
+export type {
+  ValidationIssue,
+  ValidationIssueCode,
+  ResponseValidationMode,
+  PaymentParamsValidationOptions
+} from './validation';
+
+export type { PaymentMetadata, MetadataEncoding, MetadataConfig, MetadataFields } from './metadata';
+
+export type { CheckoutItem, CheckoutLineType, ParsedCheckoutItem } from './checkout';
+
+export type { InvoiceNumberFormat, InvoiceNumberOptions, InvoiceNumberValidationOptions } from './invoice';
+
+export type { MobileOperator, PhoneNumber, PhoneNumberOptions } from './phone';
+
+export type { Logger, LogLevel, PinoLogger } from './logging';
+
+export type { IdempotencyConfig, IdempotencyRecord, IdempotencyStore } from './idempotency';
+
+export type {
+  PayStationEndpoint,
+  HttpRequest,
+  HttpResponse,
+  FetchLike,
+  Transport,
+  Middleware,
+  MiddlewareNext
+} from './http';
\ No newline at end of file
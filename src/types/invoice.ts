@@ -0,0 +1,30 @@
+/**
+ * Layout of generated invoice numbers
+ * - `timestamp`: UTC date and time to the millisecond and a random suffix, e.g. `INV-20251019083015123-7K2QX9`
+ * - `ulid`: a ULID, e.g. `INV-01JAB3C5D7E9F1G3H5J7K9M1N3`
+ */
+export type InvoiceNumberFormat = 'timestamp' | 'ulid';
+
+/**
+ * Options for generating invoice numbers
+ */
+export interface InvoiceNumberOptions {
+  /** Prefix identifying the service or team, e.g. `'SHOP'`; letters, digits, '-' and '_' only (default: 'INV') */
+  prefix?: string;
+  /** Layout of the number (default: 'timestamp') */
+  format?: InvoiceNumberFormat;
+  /** Number of random characters in the `timestamp` layout (default: 6) */
+  randomLength?: number;
+  /** Append an ISO 7064 MOD 37,36 check character to catch typos (default: false) */
+  checksum?: boolean;
+  /** Time to encode into the number (default: the current time) */
+  date?: Date;
+}
+
+/**
+ * Options for validating invoice numbers
+ */
+export interface InvoiceNumberValidationOptions {
+  /** Require a valid check character at the end (default: false) */
+  checksum?: boolean;
+}
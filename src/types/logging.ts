@@ -0,0 +1,24 @@
+/**
+ * Logger interface compatible with console, winston and most structured loggers; adapt pino with `fromPino()`
+ */
+export interface Logger {
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+}
+
+/**
+ * Minimum level of messages passed to the logger
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Logger taking the context object before the message, such as pino
+ */
+export interface PinoLogger {
+  debug(context: Record<string, unknown>, message?: string): void;
+  info(context: Record<string, unknown>, message?: string): void;
+  warn(context: Record<string, unknown>, message?: string): void;
+  error(context: Record<string, unknown>, message?: string): void;
+}
@@ -0,0 +1,31 @@
+/**
+ * Custom data attached to a payment; must be a JSON-serializable object
+ * Declared as `object` so that interfaces without an index signature can be used
+ */
+export type PaymentMetadata = object;
+
+/**
+ * How metadata is written into the `optA`/`optB`/`optC` fields
+ * - `compact`: base64url-encoded JSON, safe for any characters
+ * - `json`: plain JSON, readable in the PayStation dashboard
+ */
+export type MetadataEncoding = 'compact' | 'json';
+
+/**
+ * Options for packing payment metadata into the pass-through fields
+ */
+export interface MetadataConfig {
+  /** Encoding of the packed metadata (default: 'compact') */
+  encoding?: MetadataEncoding;
+  /** Secret for an HMAC-SHA256 signature; metadata coming back without a valid signature is rejected (optional) */
+  secret?: string;
+}
+
+/**
+ * The pass-through fields metadata is packed into
+ */
+export interface MetadataFields {
+  optA?: string;
+  optB?: string;
+  optC?: string;
+}
@@ -0,0 +1,23 @@
+/**
+ * Currencies supported by the Money type
+ */
+export type Currency = 'BDT' | 'USD';
+
+/**
+ * How amounts with more decimal places than the currency allows are rounded
+ * - `half-up`: to the nearest minor unit, ties away from zero
+ * - `half-even`: to the nearest minor unit, ties to the even neighbour (banker's rounding)
+ * - `up`: away from zero
+ * - `down`: towards zero
+ */
+export type RoundingMode = 'half-up' | 'half-even' | 'up' | 'down';
+
+/**
+ * JSON representation of a Money value
+ */
+export interface MoneyJSON {
+  /** Decimal amount with the currency's precision, e.g. "100.50" */
+  amount: string;
+  /** Currency code */
+  currency: Currency;
+}
@@ -0,0 +1,30 @@
+/**
+ * Bangladeshi mobile operators, identified by the number prefix
+ * - `grameenphone`: 013, 017
+ * - `banglalink`: 014, 019
+ * - `teletalk`: 015
+ * - `robi`: 016 (formerly Airtel), 018
+ */
+export type MobileOperator = 'grameenphone' | 'banglalink' | 'teletalk' | 'robi';
+
+/**
+ * A validated phone number
+ */
+export interface PhoneNumber {
+  /** Number in E.164 format, e.g. `+8801712345678` */
+  e164: string;
+  /** Bangladeshi national format, e.g. `01712345678`; undefined for international numbers */
+  national?: string;
+  /** Operator of a Bangladeshi mobile number; undefined for international numbers */
+  operator?: MobileOperator;
+  /** Whether the number is outside Bangladesh */
+  international: boolean;
+}
+
+/**
+ * Options for parsing phone numbers
+ */
+export interface PhoneNumberOptions {
+  /** Accept numbers outside Bangladesh given with a `+` or `00` country code (default: false) */
+  allowInternational?: boolean;
+}
@@ -0,0 +1,29 @@
+import { TransactionData, TransactionStatus } from './responses';
+
+/**
+ * Identifies a transaction by invoice number or PayStation transaction ID
+ */
+export type TransactionReference =
+  | string
+  | { invoiceNumber: string }
+  | { transactionId: string };
+
+/**
+ * Options for waiting until a transaction reaches a terminal state
+ */
+export interface WaitForTransactionOptions {
+  /** Delay before the first re-check in milliseconds (default: 2000) */
+  intervalMs?: number;
+  /** Multiplier applied to the delay after each check (default: 1.5) */
+  backoffFactor?: number;
+  /** Upper bound for the delay between checks in milliseconds (default: 15000) */
+  maxIntervalMs?: number;
+  /** Maximum time to wait in milliseconds before giving up (default: 300000) */
+  maxDurationMs?: number;
+  /** Signal that stops polling when aborted (optional) */
+  signal?: AbortSignal;
+  /** Timeout for each status lookup in milliseconds, capped at the time left (optional) */
+  requestTimeoutMs?: number;
+  /** Called whenever the observed transaction status changes (optional) */
+  onStatusChange?: (transaction: TransactionData, previousStatus: TransactionStatus | undefined) => void;
+}
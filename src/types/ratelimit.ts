@@ -0,0 +1,54 @@
+import { PayStationEndpoint } from './http';
+
+/**
+ * Request rate limit, e.g. `{ limit: 10, intervalMs: 1000 }` for 10 requests per second
+ */
+export interface RateLimitConfig {
+  /** Maximum number of requests per interval; also the largest burst allowed */
+  limit: number;
+  /** Length of the interval in milliseconds (default: 1000) */
+  intervalMs?: number;
+}
+
+/**
+ * Shared rate limiter state, e.g. in memory or in Redis so several server instances
+ * draw from the same limits
+ *
+ * Each operation must be atomic for its key: `reserve` in particular is called by many
+ * requests at once.
+ */
+export interface RateLimitStore {
+  /**
+   * Reserve a request slot under the key
+   * @param key - Bucket key, one per merchant and endpoint
+   * @param limit - Rate limit of the bucket, or undefined when only pauses apply
+   * @param maxWaitMs - Longest the caller is willing to wait, in milliseconds
+   * @returns Milliseconds to wait before sending, or undefined when that would exceed
+   * maxWaitMs, in which case nothing is reserved
+   */
+  reserve(key: string, limit: RateLimitConfig | undefined, maxWaitMs: number): Promise<number | undefined>;
+  /** Gives back a slot reserved under the key that was not used, e.g. after cancellation */
+  release(key: string, limit: RateLimitConfig | undefined): Promise<void>;
+  /** Holds back requests under the key until the time, in milliseconds since the epoch */
+  pause(key: string, until: number): Promise<void>;
+}
+
+/**
+ * Client-side rate limiting of PayStation API requests
+ */
+export interface RateLimiterConfig {
+  /** Requests per interval for every endpoint without its own limit - unlimited when omitted (optional) */
+  limit?: number;
+  /** Length of the interval for `limit` in milliseconds (default: 1000) */
+  intervalMs?: number;
+  /** Per-endpoint limits, e.g. `{ 'initiate-payment': { limit: 5 } }` (optional) */
+  endpoints?: Partial<Record<PayStationEndpoint, RateLimitConfig>>;
+  /** Maximum number of requests waiting for a token per endpoint; further requests fail at once, and 0 never waits (default: 100) */
+  maxQueueSize?: number;
+  /** Longest a request waits to be sent, in milliseconds, before failing (default: 30000) */
+  maxWaitMs?: number;
+  /** Hold back requests to an endpoint for the Retry-After delay of a 429 response (default: true) */
+  respectRetryAfter?: boolean;
+  /** Shared limiter state (default: an in-memory store) */
+  store?: RateLimitStore;
+}
@@ -0,0 +1,118 @@
+import type { Money } from '../money/Money';
+import type { PayStationError } from '../errors/PayStationError';
+import type { TransactionStatusBatchOptions } from './batch';
+import type { RequestOptions } from './requests';
+import type { TransactionStatus, TransactionStatusResponse } from './responses';
+
+/**
+ * An order as recorded locally, to be checked against PayStation
+ */
+export interface ReconciliationOrder {
+  /** Invoice number the payment was initiated with */
+  invoiceNumber: string;
+  /** Amount the order should have been paid */
+  expectedAmount: number | Money;
+  /** Status the order has locally, e.g. 'success' for orders marked paid */
+  expectedStatus: TransactionStatus;
+  /** Currency of a number `expectedAmount` (default: the Money amount's currency, otherwise BDT) */
+  currency?: string;
+  /** PayStation transaction ID, when known; looks the payment up on the v2 endpoint, which also reports the captured amount (optional) */
+  transactionId?: string;
+  /** When the order was placed; used instead of PayStation's order time to detect stale payments (optional) */
+  createdAt?: Date;
+}
+
+/**
+ * Result of comparing one order with PayStation's records
+ * - `matched`: status and amount agree
+ * - `amount_mismatch`: the amount PayStation captured differs from the expected or requested amount
+ * - `status_mismatch`: PayStation reports a different status than the order has
+ * - `missing`: PayStation has no transaction for the invoice
+ * - `stale_processing`: the payment has been `processing` for longer than `staleAfterMs`
+ * - `lookup_failed`: the status lookup failed for another reason, e.g. a network error
+ */
+export type ReconciliationOutcome =
+  | 'matched'
+  | 'amount_mismatch'
+  | 'status_mismatch'
+  | 'missing'
+  | 'stale_processing'
+  | 'lookup_failed';
+
+/**
+ * One line of a reconciliation report
+ */
+export interface ReconciliationEntry {
+  /** Invoice number of the order */
+  invoiceNumber: string;
+  /** What the comparison found */
+  outcome: ReconciliationOutcome;
+  /** Human-readable description of the outcome */
+  message: string;
+  /** Status the order has locally */
+  expectedStatus: TransactionStatus;
+  /** Status PayStation reports, or null when the transaction could not be read */
+  actualStatus: TransactionStatus | null;
+  /** Amount the order should have been paid */
+  expectedAmount: Money;
+  /** Amount PayStation captured (`transactionAmount`, otherwise `paymentAmount`) */
+  actualAmount: Money | null;
+  /** Amount PayStation was asked to collect (`requestAmount`, otherwise `paymentAmount`) */
+  requestedAmount: Money | null;
+  /** PayStation transaction ID */
+  transactionId: string | null;
+  /** When the order was placed, from the order or PayStation */
+  orderedAt: Date | null;
+  /** Why the lookup failed, for `missing` and `lookup_failed` */
+  error: PayStationError | null;
+}
+
+/**
+ * Number of report entries per outcome
+ */
+export type ReconciliationSummary = Record<ReconciliationOutcome, number>;
+
+/**
+ * Options for a reconciliation run
+ */
+export interface ReconcileOptions extends TransactionStatusBatchOptions {
+  /** Age after which a payment still `processing` is reported as stale, in milliseconds (default: 1800000, 30 minutes) */
+  staleAfterMs?: number;
+  /** Time the report is made at, for the stale check (default: the current time) */
+  now?: Date;
+}
+
+/**
+ * Status lookups the reconciler needs, as provided by PayStationSDK
+ */
+export interface ReconciliationClient {
+  getTransactionStatus(invoiceNumber: string, options?: RequestOptions): Promise<TransactionStatusResponse>;
+  getTransactionStatusById(transactionId: string, options?: RequestOptions): Promise<TransactionStatusResponse>;
+}
+
+/**
+ * Reconciliation report as plain JSON, with amounts as decimal strings and dates in ISO 8601
+ */
+export interface ReconciliationReportJSON {
+  generatedAt: string;
+  summary: ReconciliationSummary;
+  entries: ReconciliationEntryJSON[];
+}
+
+/**
+ * Report entry as plain JSON
+ */
+export interface ReconciliationEntryJSON {
+  invoiceNumber: string;
+  outcome: ReconciliationOutcome;
+  message: string;
+  expectedStatus: TransactionStatus;
+  actualStatus: TransactionStatus | null;
+  expectedAmount: string;
+  actualAmount: string | null;
+  requestedAmount: string | null;
+  currency: string;
+  transactionId: string | null;
+  orderedAt: string | null;
+  error: { code: string; message: string } | null;
+}
@@ -0,0 +1,65 @@
+import type { Money } from '../money/Money';
+import type { ApiStatus } from './responses';
+
+/**
+ * Refund status values
+ */
+export type RefundStatus = 'pending' | 'processing' | 'success' | 'failed';
+
+/**
+ * Parameters for refunding a payment, identified by transaction ID or invoice number
+ */
+export type RefundParams = ({ transactionId: string; invoiceNumber?: never } | { invoiceNumber: string; transactionId?: never }) & {
+  /** Amount to refund, up to the captured amount; the full amount is refunded when omitted (optional) */
+  amount?: number | Money;
+  /** Reason for the refund, shown in the PayStation merchant panel */
+  reason: string;
+};
+
+/**
+ * Response from a refund request or refund status lookup
+ */
+export interface RefundResponse {
+  /** Status code from PayStation API */
+  statusCode: string;
+  /** Success or failure status */
+  status: ApiStatus;
+  /** Response message */
+  message: string;
+  /** Refund details (when available) */
+  data?: RefundData;
+  /** Fields not known to the SDK (lenient response validation only) */
+  raw?: Record<string, unknown>;
+}
+
+/**
+ * Refund details
+ */
+export interface RefundData {
+  /** PayStation refund ID, for refund status lookups */
+  refundId: string;
+  /** Current status of the refund */
+  refundStatus: RefundStatus;
+  /** PayStation transaction ID of the refunded payment */
+  transactionId: string;
+  /** Invoice number of the refunded payment */
+  invoiceNumber: string;
+  /** Refunded amount */
+  refundAmount: string;
+  /** Reason given for the refund (optional) */
+  reason?: string;
+  /** Date and time the refund was requested (optional) */
+  refundDate?: string;
+  /** Amounts parsed as Money */
+  amounts: RefundAmounts;
+  /** Fields not known to the SDK (lenient response validation only) */
+  raw?: Record<string, unknown>;
+}
+
+/**
+ * Amounts of a refund as Money
+ */
+export interface RefundAmounts {
+  /** Refunded amount */
+  refundAmount?: Money;
+}
@@ -1,15 +1,20 @@
+import type { Money } from '../money/Money';
+import type { CheckoutItem } from './checkout';
+import type { PaymentMetadata } from './metadata';
+
 /**
  * Parameters for initiating a payment
+ * @typeParam TMetadata - Shape of the custom `metadata`
  */
-export interface InitiatePaymentParams {
+export interface InitiatePaymentParams<TMetadata extends PaymentMetadata = PaymentMetadata> {
   /** Unique invoice number for the transaction */
   invoiceNumber: string;
-  /** Currency code (optional) */
+  /** Currency code; defaults to the currency of a Money amount, otherwise BDT (optional) */
   currency?: string;
-  /** Payment amount */
-  paymentAmount: number;
+  /** Payment amount - pass a Money value to avoid floating-point errors */
+  paymentAmount: number | Money;
   /** Payment amount including charges (optional) */
-  payWithCharge?: number;
+  payWithCharge?: number | Money;
   /** Reference information (optional) */
   reference?: string;
   /** Customer's full name */
@@ -22,8 +27,10 @@ export interface InitiatePaymentParams {
   customerAddress?: string;
   /** URL to redirect after payment completion */
   callbackUrl: string;
-  /** Checkout items description (optional) */
-  checkoutItems?: string;
+  /** Checkout lines, whose total must match `paymentAmount`, or a free-text description (optional) */
+  checkoutItems?: string | CheckoutItem[];
+  /** Custom data packed into optA/optB/optC and decoded from status lookups and callbacks; cannot be combined with them (optional) */
+  metadata?: TMetadata;
   /** Optional parameter A */
   optA?: string;
   /** Optional parameter B */
@@ -32,4 +39,14 @@ export interface InitiatePaymentParams {
   optC?: string;
   /** EMI option (optional) */
   emi?: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Per-call options accepted by every SDK method that makes a request
+ */
+export interface RequestOptions {
+  /** Signal that cancels the request when aborted (optional) */
+  signal?: AbortSignal;
+  /** Timeout for each attempt in milliseconds; overrides the configured `timeoutMs` (optional) */
+  timeoutMs?: number;
+}
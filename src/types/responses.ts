@@ -1,3 +1,7 @@
+import type { Money } from '../money/Money';
+import type { ParsedCheckoutItem } from './checkout';
+import type { PaymentMetadata } from './metadata';
+
 /**
  * Available payment methods in PayStation
  */
@@ -36,22 +40,47 @@ export interface InitiatePaymentResponse {
   invoiceNumber?: string;
   /** Payment URL for redirect (returned on success) */
   paymentUrl?: string;
+  /** Amounts parsed as Money in the requested currency */
+  amounts?: PaymentAmounts;
+  /** Fields not known to the SDK (lenient response validation only) */
+  raw?: Record<string, unknown>;
+}
+
+/**
+ * Amounts of a payment initiation as Money
+ */
+export interface PaymentAmounts {
+  /** Payment amount (returned on success) */
+  paymentAmount?: Money;
+}
+
+/**
+ * Amounts of a transaction as Money
+ */
+export interface TransactionAmounts {
+  /** Payment amount */
+  paymentAmount?: Money;
+  /** Transaction amount (for v2 API) */
+  transactionAmount?: Money;
+  /** Requested amount (for v2 API) */
+  requestAmount?: Money;
 }
 
 /**
  * Transaction data details
+ * @typeParam TMetadata - Shape of the custom `metadata`
  */
-export interface TransactionData {
+export interface TransactionData<TMetadata extends PaymentMetadata = PaymentMetadata> {
   /** Invoice number for the transaction */
   invoiceNumber: string;
   /** Current status of the transaction */
   transactionStatus: TransactionStatus;
   /** PayStation transaction ID */
   transactionId: string;
-  /** Payment amount */
-  paymentAmount: string;
-  /** Date and time when order was created */
-  orderDateTime: string;
+  /** Payment amount (not returned by the v2 API) */
+  paymentAmount?: string;
+  /** Date and time when order was created (not returned by the v2 API) */
+  orderDateTime?: string;
   /** Payer's mobile number (optional) */
   payerMobileNumber?: string;
   /** Payment method used (optional) */
@@ -60,18 +89,33 @@ export interface TransactionData {
   reference?: string;
   /** Checkout items description (optional) */
   checkoutItems?: string;
+  /** Checkout lines parsed from `checkoutItems`, when they were sent as structured items */
+  items?: ParsedCheckoutItem[];
+  /** Optional parameter A, when PayStation returns it (optional) */
+  optA?: string;
+  /** Optional parameter B, when PayStation returns it (optional) */
+  optB?: string;
+  /** Optional parameter C, when PayStation returns it (optional) */
+  optC?: string;
+  /** Metadata decoded from optA/optB/optC, when the payment was initiated with `metadata` */
+  metadata?: TMetadata;
   /** Transaction amount (for v2 API) */
   transactionAmount?: number;
   /** Transaction date (for v2 API) */
   transactionDate?: string;
   /** Requested amount (for v2 API) */
   requestAmount?: string;
+  /** Amounts parsed as Money, in the transaction's currency (BDT unless PayStation reports another) */
+  amounts: TransactionAmounts;
+  /** Fields not known to the SDK (lenient response validation only) */
+  raw?: Record<string, unknown>;
 }
 
 /**
  * Response from transaction status check
+ * @typeParam TMetadata - Shape of the custom `metadata`
  */
-export interface TransactionStatusResponse {
+export interface TransactionStatusResponse<TMetadata extends PaymentMetadata = PaymentMetadata> {
   /** Status code from PayStation API */
   statusCode: string;
   /** Success or failure status */
@@ -79,5 +123,7 @@ export interface TransactionStatusResponse {
   /** Response message */
   message: string;
   /** Transaction data (returned on success) */
-  data?: TransactionData;
+  data?: TransactionData<TMetadata>;
+  /** Fields not known to the SDK (lenient response validation only) */
+  raw?: Record<string, unknown>;
 }
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { TransactionStatus, PaymentMethod } from './responses';
+import { RefundStatus } from './refund';
+
+/**
+ * Options for the mock PayStation
+ */
+export interface MockPayStationOptions {
+  /** Merchant ID the mock accepts; any merchant is accepted when omitted (optional) */
+  merchantId?: string;
+  /** Password the mock accepts; any password is accepted when omitted (optional) */
+  password?: string;
+  /** Delay added to every API response in milliseconds (default: 0) */
+  latencyMs?: number;
+}
+
+/**
+ * Scripted failure returned instead of a normal API response
+ */
+export type MockFailure =
+  | {
+      /** Respond with an HTTP error status, e.g. 401 or 500 */
+      type: 'http';
+      status: number;
+      /** Message in the JSON error body (optional) */
+      message?: string;
+    }
+  | {
+      /** Respond with a JSON content type and a body that is not valid JSON */
+      type: 'malformed-json';
+    }
+  | {
+      /** Respond normally after a delay, to exercise timeouts */
+      type: 'slow';
+      delayMs: number;
+    }
+  | {
+      /** Fail at the network level, as fetch does when the host is unreachable */
+      type: 'network';
+    };
+
+/**
+ * Options controlling which requests a scripted failure applies to
+ */
+export interface MockFailureOptions {
+  /** Only fail requests to this endpoint path, e.g. 'initiate-payment' (optional) */
+  endpoint?: string;
+  /** Number of requests to fail (default: 1) */
+  times?: number;
+}
+
+/**
+ * Outcome a customer can choose on the fake hosted checkout page
+ */
+export type MockCheckoutOutcome = 'success' | 'failed' | 'cancelled';
+
+/**
+ * Transaction stored by the mock
+ */
+export interface MockTransaction {
+  invoiceNumber: string;
+  transactionId: string;
+  transactionStatus: TransactionStatus;
+  paymentAmount: string;
+  currency?: string;
+  customerName: string;
+  customerPhone: string;
+  customerEmail: string;
+  callbackUrl: string;
+  reference?: string;
+  checkoutItems?: string;
+  optA?: string;
+  optB?: string;
+  optC?: string;
+  paymentMethod?: PaymentMethod;
+  orderDateTime: string;
+  transactionDate?: string;
+}
+
+/**
+ * Refund stored by the mock
+ */
+export interface MockRefund {
+  refundId: string;
+  refundStatus: RefundStatus;
+  invoiceNumber: string;
+  transactionId: string;
+  refundAmount: string;
+  reason: string;
+  refundDate: string;
+}
+
+/**
+ * API call received by the mock, with the password removed
+ */
+export interface MockCall {
+  /** Endpoint path, e.g. 'initiate-payment' */
+  endpoint: string;
+  /** Form parameters sent with the request */
+  params: Record<string, string>;
+}
+
+/**
+ * Handle for a mock PayStation listening on a local port
+ */
+export interface MockServerHandle {
+  /** Base URL of the running server, e.g. http://127.0.0.1:54321 */
+  url: string;
+  /** Stop the server */
+  close(): Promise<void>;
+}
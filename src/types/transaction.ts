@@ -0,0 +1,49 @@
+import type { Money } from '../money/Money';
+import { PaymentMethod, TransactionStatus } from './responses';
+import { ParsedCheckoutItem } from './checkout';
+import { PaymentMetadata } from './metadata';
+
+/**
+ * Status endpoint a transaction was read from
+ * - `transaction-status`: looked up by invoice number (v1)
+ * - `v2/transaction-status`: looked up by PayStation transaction ID (v2)
+ */
+export type TransactionSource = 'transaction-status' | 'v2/transaction-status';
+
+/**
+ * Transaction normalized across the v1 and v2 status endpoints
+ * Fields an endpoint does not return are null rather than missing
+ * @typeParam TMetadata - Shape of the custom `metadata`
+ */
+export interface Transaction<TMetadata extends PaymentMetadata = PaymentMetadata> {
+  /** Invoice number of the transaction */
+  invoiceNumber: string;
+  /** PayStation transaction ID */
+  transactionId: string;
+  /** Current status of the transaction */
+  status: TransactionStatus;
+  /** Amount of the transaction: v2 `transactionAmount`, or v1 `paymentAmount` */
+  amount: Money | null;
+  /** Amount requested at initiation: v2 `requestAmount`, or v1 `paymentAmount` */
+  requestedAmount: Money | null;
+  /** When the order was created: v1 `orderDateTime` (v2 does not return it) */
+  orderedAt: Date | null;
+  /** When the payment was made: v2 `transactionDate` (v1 does not return it) */
+  transactedAt: Date | null;
+  /** Payment method used */
+  paymentMethod: PaymentMethod | null;
+  /** Payer's mobile number */
+  payerMobileNumber: string | null;
+  /** Reference information (v1 only) */
+  reference: string | null;
+  /** Checkout items description (v1 only) */
+  checkoutItems: string | null;
+  /** Checkout lines parsed from `checkoutItems`; null for free text or when absent (v1 only) */
+  items: ParsedCheckoutItem[] | null;
+  /** Metadata decoded from optA/optB/optC; null when the payment had none or PayStation did not return it */
+  metadata: TMetadata | null;
+  /** Endpoint the transaction was read from */
+  source: TransactionSource;
+  /** Transaction object exactly as returned by PayStation */
+  raw: Record<string, unknown>;
+}
@@ -0,0 +1,66 @@
+import type { RoundingMode } from './money';
+import type { MetadataConfig } from './metadata';
+
+/**
+ * Machine-readable kinds of validation problems; stable across releases, so they can be
+ * used as translation keys
+ */
+export type ValidationIssueCode =
+  /** The field is missing */
+  | 'required'
+  /** The field has the wrong type */
+  | 'invalid_type'
+  /** The value is not one of the allowed values, e.g. an unsupported currency */
+  | 'invalid_enum'
+  /** The string is empty or whitespace only, or the list has no entries */
+  | 'empty'
+  /** The string is not a valid email address, phone number or URL, or has characters PayStation does not accept */
+  | 'invalid_format'
+  /** The number is below the allowed minimum */
+  | 'too_small'
+  /** The number is above the allowed maximum, e.g. a refund larger than the captured amount */
+  | 'too_large'
+  /** The Money amount is in another currency than the payment */
+  | 'currency_mismatch'
+  /** The checkout items do not add up to the payment amount */
+  | 'total_mismatch'
+  /** The value is too long, e.g. an invoice number or metadata that does not fit into optA/optB/optC */
+  | 'too_long'
+  /** The field cannot be combined with another one, e.g. optA with metadata */
+  | 'conflict'
+  /** Any other invalid value, e.g. an amount out of range */
+  | 'invalid_value';
+
+/**
+ * A single validation problem
+ */
+export interface ValidationIssue {
+  /** Path of the offending field, e.g. `data.transactionStatus` */
+  field: string;
+  /** Kind of problem */
+  code: ValidationIssueCode;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * How strictly PayStation responses are validated
+ * - `strict`: every field is checked and any problem is an error; unknown fields are dropped
+ * - `lenient`: required fields are checked, invalid optional fields are dropped, and unknown
+ *   fields are kept under `raw`
+ */
+export type ResponseValidationMode = 'strict' | 'lenient';
+
+/**
+ * Options for validating payment parameters without the SDK
+ */
+export interface PaymentParamsValidationOptions {
+  /** Rounding applied to number amounts before checking them (default: 'half-up') */
+  amountRounding?: RoundingMode;
+  /** Accept customer phone numbers outside Bangladesh (default: false) */
+  allowInternationalPhone?: boolean;
+  /** Check `invoiceNumber` against the `InvoiceNumber` length and character rules (default: false) */
+  strictInvoiceNumbers?: boolean;
+  /** Metadata encoding and signing, which determine the packed size (default: compact, unsigned) */
+  metadata?: MetadataConfig;
+}
@@ -0,0 +1,21 @@
+const PAYSTATION_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Parses a PayStation date such as "2024-01-01 12:00:00"
+ * PayStation reports local time in Bangladesh (UTC+6, no daylight saving); values
+ * with an explicit offset or `Z` are parsed as given
+ * @param value - Date string from a PayStation response
+ * @returns The parsed date, or null when the value is missing or invalid
+ */
+export function parsePayStationDate(value: string | undefined): Date | null {
+  if (!value || value.trim().length === 0) {
+    return null;
+  }
+
+  const match = value.trim().match(PAYSTATION_DATE_PATTERN);
+  const date = match
+    ? new Date(`${match[1]}-${match[2]}-${match[3]}T${match[4] ?? '00'}:${match[5] ?? '00'}:${match[6] ?? '00'}+06:00`)
+    : new Date(value);
+
+  return Number.isNaN(date.getTime()) ? null : date;
+}
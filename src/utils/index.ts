@@ -0,0 +1,4 @@
+export { sleep } from './sleep';
+export { parsePayStationDate } from './date';
+export { parseRetryAfter } from './retryAfter';
+export { parsePhoneNumber, normalizePhoneNumber } from './phone';
@@ -0,0 +1,77 @@
+import { MobileOperator, PhoneNumber, PhoneNumberOptions } from '../types/phone';
+import { ValidationError } from '../errors/ValidationError';
+
+const OPERATORS: Record<string, MobileOperator> = {
+  '13': 'grameenphone',
+  '17': 'grameenphone',
+  '14': 'banglalink',
+  '19': 'banglalink',
+  '15': 'teletalk',
+  '16': 'robi',
+  '18': 'robi'
+};
+
+/**
+ * Parses a phone number, accepting Bangladeshi mobile numbers as `01XXXXXXXXX`, `8801XXXXXXXXX`
+ * or `+8801XXXXXXXXX` with optional spaces, dashes, dots and parentheses
+ * @param input - Phone number to parse
+ * @param options - Parsing options (optional)
+ * @returns The parsed number, or undefined when it is not a valid number
+ */
+export function parsePhoneNumber(input: string, options: PhoneNumberOptions = {}): PhoneNumber | undefined {
+  if (typeof input !== 'string') {
+    return undefined;
+  }
+
+  const compact = input.trim().replace(/[\s\-.()]/g, '');
+  if (!/^(\+|00)?\d+$/.test(compact)) {
+    return undefined;
+  }
+
+  const hasCountryCode = compact.startsWith('+') || compact.startsWith('00');
+  const digits = compact.replace(/^(\+|00)/, '');
+
+  const national = /^8801\d{9}$/.test(digits) ? digits.slice(2)
+    : !hasCountryCode && /^01\d{9}$/.test(digits) ? digits
+      : undefined;
+
+  if (national) {
+    const operator = OPERATORS[national.slice(1, 3)];
+    return operator ? { e164: `+88${national}`, national, operator, international: false } : undefined;
+  }
+
+  // Anything else with Bangladesh's country code is not a mobile number
+  if (!hasCountryCode || digits.startsWith('880') || !options.allowInternational) {
+    return undefined;
+  }
+
+  // E.164 allows up to 15 digits and no leading zero in the country code
+  return /^[1-9]\d{7,14}$/.test(digits) ? { e164: `+${digits}`, international: true } : undefined;
+}
+
+/**
+ * Normalizes a phone number to E.164 format
+ * @param input - Phone number to normalize
+ * @param options - Parsing options (optional)
+ * @returns The number in E.164 format, e.g. `+8801712345678`
+ * @throws {ValidationError} When the number is not a valid Bangladeshi mobile number, or international number when allowed
+ */
+export function normalizePhoneNumber(input: string, options: PhoneNumberOptions = {}): string {
+  const phone = parsePhoneNumber(input, options);
+  if (!phone) {
+    throw new ValidationError(phoneMessage('Phone number', options), 'phone');
+  }
+  return phone.e164;
+}
+
+/**
+ * Describes the accepted phone numbers for error messages
+ * @param field - Name of the field
+ * @param options - Parsing options
+ * @returns Error message for an invalid number
+ */
+export function phoneMessage(field: string, options: PhoneNumberOptions = {}): string {
+  return options.allowInternational
+    ? `${field} must be a Bangladeshi mobile number such as 01712345678, or an international number starting with +`
+    : `${field} must be a Bangladeshi mobile number such as 01712345678`;
+}
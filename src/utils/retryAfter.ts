@@ -0,0 +1,19 @@
+/**
+ * Parses a Retry-After header value
+ * @param value - Header value: delay in seconds or an HTTP date
+ * @param now - Current time in milliseconds, for HTTP dates (default: Date.now())
+ * @returns Delay in milliseconds, or undefined when the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value || value.trim().length === 0) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
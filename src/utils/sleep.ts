@@ -0,0 +1,28 @@
+import { CancelledError } from '../errors/CancelledError';
+
+/**
+ * Resolves after the given delay
+ * @param ms - Delay in milliseconds
+ * @param signal - Signal that interrupts the delay when aborted (optional)
+ * @throws {CancelledError} When the signal is aborted before the delay elapses
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError('Request was cancelled'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('Request was cancelled'));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}